@@ -35,6 +35,9 @@ const SAMPLE_INGREDIENTS = [
     carbs: 0.0,
     fat: 3.6,
     kcal: 165,
+    allergens: [],
+    diets: ['halal'],
+    nutrients: { sodium_mg: 74, potassium_mg: 256, iron_mg: 1.0 },
   },
   {
     name: 'Brown Rice (Dry)',
@@ -43,6 +46,9 @@ const SAMPLE_INGREDIENTS = [
     carbs: 77.2,
     fat: 2.9,
     kcal: 370,
+    allergens: [],
+    diets: ['vegetarian', 'vegan', 'pescatarian', 'halal'],
+    nutrients: { fiber_g: 3.5, sodium_mg: 7, potassium_mg: 223, iron_mg: 1.5 },
   },
   {
     name: 'Broccoli (Fresh)',
@@ -51,6 +57,14 @@ const SAMPLE_INGREDIENTS = [
     carbs: 7.0,
     fat: 0.4,
     kcal: 34,
+    allergens: [],
+    diets: ['vegetarian', 'vegan', 'pescatarian', 'halal'],
+    nutrients: {
+      fiber_g: 2.6,
+      sodium_mg: 33,
+      calcium_mg: 47,
+      vitamin_c_mg: 89,
+    },
   },
   {
     name: 'Extra Virgin Olive Oil',
@@ -59,6 +73,9 @@ const SAMPLE_INGREDIENTS = [
     carbs: 0.0,
     fat: 100.0,
     kcal: 884,
+    allergens: [],
+    diets: ['vegetarian', 'vegan', 'pescatarian', 'halal'],
+    nutrients: { saturated_fat_g: 13.8 },
   },
   {
     name: 'Sweet Potato (Raw)',
@@ -67,6 +84,9 @@ const SAMPLE_INGREDIENTS = [
     carbs: 20.1,
     fat: 0.1,
     kcal: 86,
+    allergens: [],
+    diets: ['vegetarian', 'vegan', 'pescatarian', 'halal'],
+    nutrients: { fiber_g: 3.0, sugar_g: 4.2, sodium_mg: 55, potassium_mg: 337 },
   },
   {
     name: 'Salmon Fillet (Atlantic)',
@@ -75,6 +95,9 @@ const SAMPLE_INGREDIENTS = [
     carbs: 0.0,
     fat: 13.4,
     kcal: 208,
+    allergens: ['fish'],
+    diets: ['pescatarian', 'halal'],
+    nutrients: { saturated_fat_g: 3.1, sodium_mg: 59, potassium_mg: 363 },
   },
   {
     name: 'Quinoa (Dry)',
@@ -83,6 +106,9 @@ const SAMPLE_INGREDIENTS = [
     carbs: 64.2,
     fat: 6.1,
     kcal: 368,
+    allergens: [],
+    diets: ['vegetarian', 'vegan', 'pescatarian', 'halal'],
+    nutrients: { fiber_g: 7.0, potassium_mg: 563, iron_mg: 4.6 },
   },
   {
     name: 'Baby Spinach (Fresh)',
@@ -91,6 +117,9 @@ const SAMPLE_INGREDIENTS = [
     carbs: 3.6,
     fat: 0.4,
     kcal: 23,
+    allergens: [],
+    diets: ['vegetarian', 'vegan', 'pescatarian', 'halal'],
+    nutrients: { fiber_g: 2.2, sodium_mg: 79, iron_mg: 2.7, vitamin_c_mg: 28 },
   },
   {
     name: 'Greek Yogurt (Plain, 0% Fat)',
@@ -99,6 +128,9 @@ const SAMPLE_INGREDIENTS = [
     carbs: 3.6,
     fat: 0.4,
     kcal: 59,
+    allergens: ['dairy'],
+    diets: ['vegetarian', 'pescatarian', 'halal'],
+    nutrients: { sugar_g: 3.2, sodium_mg: 36, calcium_mg: 110 },
   },
   {
     name: 'Avocado (Fresh)',
@@ -107,6 +139,9 @@ const SAMPLE_INGREDIENTS = [
     carbs: 8.5,
     fat: 14.7,
     kcal: 160,
+    allergens: [],
+    diets: ['vegetarian', 'vegan', 'pescatarian', 'halal'],
+    nutrients: { fiber_g: 6.7, saturated_fat_g: 2.1, potassium_mg: 485 },
   },
 ] as const
 
@@ -116,6 +151,7 @@ const SAMPLE_RECIPES = [
     name: 'Grilled Chicken with Sweet Potato and Broccoli',
     skill_level: 'beginner' as const,
     default_servings: 1,
+    meal_types: ['lunch', 'dinner'],
     steps: [
       {
         order: 1,
@@ -174,6 +210,7 @@ const SAMPLE_RECIPES = [
     name: 'Honey Garlic Salmon with Quinoa',
     skill_level: 'intermediate' as const,
     default_servings: 1,
+    meal_types: ['lunch', 'dinner'],
     steps: [
       {
         order: 1,
@@ -226,6 +263,7 @@ const SAMPLE_RECIPES = [
     name: 'Greek Yogurt Power Bowl',
     skill_level: 'beginner' as const,
     default_servings: 1,
+    meal_types: ['breakfast', 'snack'],
     steps: [
       { order: 1, text: 'Place Greek yogurt in a bowl', time_s: 30 },
       {
@@ -252,6 +290,7 @@ const SAMPLE_RECIPES = [
     name: 'Simple Brown Rice and Veggie Bowl',
     skill_level: 'beginner' as const,
     default_servings: 1,
+    meal_types: ['lunch', 'dinner'],
     steps: [
       {
         order: 1,
@@ -290,6 +329,7 @@ const SAMPLE_RECIPES = [
     name: 'Quinoa Spinach Power Salad',
     skill_level: 'beginner' as const,
     default_servings: 1,
+    meal_types: ['lunch', 'dinner'],
     steps: [
       {
         order: 1,
@@ -325,6 +365,7 @@ const SAMPLE_RECIPES = [
     name: 'Baked Chicken with Sweet Potato Mash',
     skill_level: 'intermediate' as const,
     default_servings: 1,
+    meal_types: ['lunch', 'dinner'],
     steps: [
       { order: 1, text: 'Preheat oven to 375°F (190°C)', time_s: 300 },
       {
@@ -448,6 +489,7 @@ async function seedRecipes(ingredients: unknown[]) {
         steps: recipeData.steps,
         skill_level: recipeData.skill_level,
         default_servings: recipeData.default_servings,
+        meal_types: recipeData.meal_types,
       })
       .select()
       .single()
@@ -2,11 +2,15 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { recipeAdapter } from '@/lib/ai/recipe-adapter'
 import { kimiClient } from '@/lib/ai/kimi-client'
-import { generatePlan } from '@/lib/macroTetris'
+import { generatePlan } from '@/lib/mealPlanStore'
+import { calculateWeekTargets } from '@/lib/dayProfiles'
+import { isValidSeed } from '@/lib/planner/random'
+import { resolveDietaryExclusions } from '@/lib/dietaryExclusions'
 
 interface AIMealPlanRequest {
   userId: string
   weekStart: string
+  seed?: number
   preferences?: {
     cuisineTypes?: string[]
     dietaryRestrictions?: string[]
@@ -27,6 +31,7 @@ export async function POST(request: NextRequest) {
     const {
       userId,
       weekStart,
+      seed,
       preferences = {},
       aiEnhancements = {
         adaptRecipes: true,
@@ -43,6 +48,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (seed !== undefined && !isValidSeed(seed)) {
+      return NextResponse.json(
+        { error: 'Seed must be an integer between 0 and 2147483647' },
+        { status: 400 }
+      )
+    }
+
     // Verify user authentication
     const supabase = await createClient()
     const {
@@ -61,13 +73,20 @@ export async function POST(request: NextRequest) {
       .eq('id', userId)
       .single()
 
-    // Temporarily handle missing AI tables gracefully
-    // Get user AI preferences if available
-    try {
-      await supabase.from('user_preferences').select('*').eq('user_id', userId)
-    } catch (error) {
-      console.log('AI preferences table not yet available:', error)
-    }
+    // The user's stored allergies and diets always apply, on top of any
+    // restrictions sent with the request
+    const { data: storedPreferences } = await supabase
+      .from('user_preferences')
+      .select('*')
+      .eq('user_id', userId)
+    const exclusions = resolveDietaryExclusions(storedPreferences)
+    preferences.dietaryRestrictions = Array.from(
+      new Set([
+        ...(preferences.dietaryRestrictions ?? []),
+        ...exclusions.diets,
+        ...exclusions.allergens.map((allergen) => `${allergen}-free`),
+      ])
+    )
 
     const { data: pantryItems } = await supabase
       .from('pantry_items')
@@ -96,7 +115,7 @@ export async function POST(request: NextRequest) {
 
     // Phase 1: Generate base meal plan using existing Macro Tetris
     console.log('🎯 Generating base meal plan with Macro Tetris...')
-    const basePlan = await generatePlan(userId, new Date(weekStart))
+    const basePlan = await generatePlan(userId, new Date(weekStart), { seed })
 
     const enhancedPlan = basePlan
     let aiSuggestions: unknown[] = []
@@ -106,22 +125,16 @@ export async function POST(request: NextRequest) {
     if (aiEnhancements.adaptRecipes || aiEnhancements.generateSuggestions) {
       console.log('🤖 Enhancing with AI capabilities...')
 
-      // Calculate weekly macro targets
-      const weeklyTargets = {
-        calories: userProfile.kcal_target * 7,
-        protein:
-          Math.round(
-            (userProfile.kcal_target * userProfile.protein_pct) / 100 / 4
-          ) * 7,
-        carbs:
-          Math.round(
-            (userProfile.kcal_target * userProfile.carb_pct) / 100 / 4
-          ) * 7,
-        fat:
-          Math.round(
-            (userProfile.kcal_target * userProfile.fat_pct) / 100 / 9
-          ) * 7,
-      }
+      // Calculate weekly macro targets (sum of each day's own targets)
+      const weeklyTargets = calculateWeekTargets(userProfile).reduce(
+        (sum, day) => ({
+          calories: sum.calories + day.calories,
+          protein: sum.protein + day.protein,
+          carbs: sum.carbs + day.carbs,
+          fat: sum.fat + day.fat,
+        }),
+        { calories: 0, protein: 0, carbs: 0, fat: 0 }
+      )
 
       // Get available pantry ingredients
       const availableIngredients =
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { commitPlan } from '@/lib/mealPlanStore'
+import { isValidSeed } from '@/lib/planner/random'
+import { isValidPrepDays } from '@/lib/prepSessions'
+import { isPlanObjective } from '@/lib/planObjectives'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, weekStart, proposal } = await request.json()
+
+    if (!userId || !weekStart || !proposal) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      )
+    }
+
+    if (
+      (proposal.strategy !== 'optimal' && proposal.strategy !== 'greedy') ||
+      (proposal.objective !== undefined &&
+        !isPlanObjective(proposal.objective)) ||
+      !isValidSeed(proposal.seed) ||
+      (proposal.prepDays !== undefined &&
+        !isValidPrepDays(proposal.prepDays)) ||
+      !Array.isArray(proposal.meals)
+    ) {
+      return NextResponse.json({ error: 'Invalid proposal' }, { status: 400 })
+    }
+
+    // Verify user authentication
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user || user.id !== userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Persist the accepted proposal, replacing the current plan for the week
+    const result = await commitPlan(userId, new Date(weekStart), proposal)
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          error:
+            'Pantry or recipes changed since the preview, please preview again',
+        },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('API: Meal plan commit failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { commitAlternative } from '@/lib/mealPlanStore'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, weekStart, day, slot, alternative } = await request.json()
+
+    if (!userId || !weekStart || day === undefined || !alternative) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      )
+    }
+
+    if (
+      !Number.isInteger(day) ||
+      day < 0 ||
+      day > 6 ||
+      (slot !== undefined && (typeof slot !== 'string' || !slot)) ||
+      !Array.isArray(alternative.meals)
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid alternative' },
+        { status: 400 }
+      )
+    }
+
+    // Verify user authentication
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user || user.id !== userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Swap the day's (or slot's) meals for the accepted alternative
+    const meals = await commitAlternative(
+      userId,
+      new Date(weekStart),
+      { day, slot },
+      alternative
+    )
+
+    if (!meals) {
+      return NextResponse.json(
+        {
+          error:
+            'Your plan or pantry changed since these alternatives were made, please try again',
+        },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ meals })
+  } catch (error) {
+    console.error('API: Meal alternative commit failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
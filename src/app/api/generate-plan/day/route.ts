@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { previewAlternatives } from '@/lib/mealPlanStore'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, weekStart, day, slot } = await request.json()
+
+    if (!userId || !weekStart || day === undefined) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(day) || day < 0 || day > 6) {
+      return NextResponse.json(
+        { error: 'Day must be a day of the week (0 = Monday)' },
+        { status: 400 }
+      )
+    }
+
+    if (slot !== undefined && (typeof slot !== 'string' || !slot)) {
+      return NextResponse.json({ error: 'Invalid slot' }, { status: 400 })
+    }
+
+    // Verify user authentication
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user || user.id !== userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Alternatives for the day or slot, nothing is written
+    const alternatives = await previewAlternatives(
+      userId,
+      new Date(weekStart),
+      {
+        day,
+        slot,
+      }
+    )
+
+    if (!alternatives) {
+      return NextResponse.json(
+        { error: 'No meal plan for this week' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ alternatives })
+  } catch (error) {
+    console.error('API: Meal alternatives failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
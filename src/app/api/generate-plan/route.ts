@@ -1,10 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { generatePlan } from '@/lib/macroTetris'
+import {
+  generatePlan,
+  previewPlan,
+  previewPlanAlternatives,
+} from '@/lib/mealPlanStore'
+import { isValidSeed } from '@/lib/planner/random'
+import { isValidPrepDays } from '@/lib/prepSessions'
+import { isPlanObjective } from '@/lib/planObjectives'
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId, weekStart } = await request.json()
+    const {
+      userId,
+      weekStart,
+      strategy,
+      objective,
+      seed,
+      prepDays,
+      preview,
+      alternatives,
+    } = await request.json()
 
     if (!userId || !weekStart) {
       return NextResponse.json(
@@ -13,6 +29,34 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (strategy && strategy !== 'optimal' && strategy !== 'greedy') {
+      return NextResponse.json(
+        { error: 'Invalid strategy' },
+        { status: 400 }
+      )
+    }
+
+    if (objective !== undefined && !isPlanObjective(objective)) {
+      return NextResponse.json(
+        { error: 'Invalid objective' },
+        { status: 400 }
+      )
+    }
+
+    if (seed !== undefined && !isValidSeed(seed)) {
+      return NextResponse.json(
+        { error: 'Seed must be an integer between 0 and 2147483647' },
+        { status: 400 }
+      )
+    }
+
+    if (prepDays !== undefined && !isValidPrepDays(prepDays)) {
+      return NextResponse.json(
+        { error: 'Prep days must be distinct days of the week (0 = Monday)' },
+        { status: 400 }
+      )
+    }
+
     // Verify user authentication
     const supabase = await createClient()
     const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -24,14 +68,45 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Alternatives: one proposal per objective to compare, write nothing
+    if (alternatives) {
+      const result = await previewPlanAlternatives(
+        userId,
+        new Date(weekStart),
+        { strategy, seed, prepDays }
+      )
+
+      return NextResponse.json(result)
+    }
+
+    // Preview: return the proposal next to the current plan, write nothing
+    if (preview) {
+      const result = await previewPlan(userId, new Date(weekStart), {
+        strategy,
+        objective,
+        seed,
+        prepDays,
+      })
+
+      return NextResponse.json(result)
+    }
+
     // Generate the meal plan using Macro Tetris algorithm
-    const result = await generatePlan(userId, new Date(weekStart))
+    const result = await generatePlan(userId, new Date(weekStart), {
+      strategy,
+      objective,
+      seed,
+      prepDays,
+    })
 
     return NextResponse.json(result)
   } catch (error) {
     console.error('API: Meal plan generation failed:', error)
     return NextResponse.json(
-      { error: 'Internal server error' },
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
       { status: 500 }
     )
   }
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { scoreMealPlan } from '@/lib/mealPlanStore'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, mealPlanId } = await request.json()
+
+    if (!userId || !mealPlanId) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      )
+    }
+
+    // Verify user authentication
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user || user.id !== userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Score the stored plan: per-day deviation, variety, pantry use and cost
+    const evaluation = await scoreMealPlan(userId, mealPlanId)
+
+    if (!evaluation) {
+      return NextResponse.json(
+        { error: 'Meal plan not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(evaluation)
+  } catch (error) {
+    console.error('API: Meal plan scoring failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
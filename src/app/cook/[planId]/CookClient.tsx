@@ -20,6 +20,8 @@ import Link from 'next/link'
 import CookingTimeline from '@/components/cook/CookingTimeline'
 import ActiveTimers from '@/components/cook/ActiveTimers'
 import { Database } from '@/lib/types/database'
+import { MealSlotConfig } from '@/lib/mealSlots'
+import { prepSessionFor } from '@/lib/prepSessions'
 
 type MealPlan = Database['public']['Tables']['meal_plans']['Row']
 type Meal = Database['public']['Tables']['meals']['Row'] & {
@@ -30,18 +32,25 @@ type Meal = Database['public']['Tables']['meals']['Row'] & {
       }
     >
   }
+  meal_ingredients?: Array<
+    Database['public']['Tables']['meal_ingredients']['Row']
+  >
+  meal_portions?: Array<Database['public']['Tables']['meal_portions']['Row']>
 }
 
 interface CookClientProps {
   user: User
   mealPlan: MealPlan
   meals: Meal[]
+  mealSlots: MealSlotConfig[]
+  prepDays: number[]
 }
 
 interface CookingStep {
   id: string
   recipeId: string
   recipeName: string
+  prepSession: number
   order: number
   text: string
   timeSeconds?: number
@@ -60,7 +69,12 @@ interface Timer {
   isCompleted: boolean
 }
 
-export default function CookClient({ mealPlan, meals }: CookClientProps) {
+export default function CookClient({
+  mealPlan,
+  meals,
+  mealSlots,
+  prepDays,
+}: CookClientProps) {
   const [currentView, setCurrentView] = useState<'overview' | 'step-by-step'>(
     'overview'
   )
@@ -90,6 +104,7 @@ export default function CookClient({ mealPlan, meals }: CookClientProps) {
             id: `${meal.id}-${step.order}`,
             recipeId: meal.recipe_id,
             recipeName: meal.recipes.name,
+            prepSession: prepSessionFor(meal.day_of_week, prepDays) ?? 0,
             order: step.order,
             text: step.text,
             timeSeconds: step.time_s,
@@ -101,12 +116,14 @@ export default function CookClient({ mealPlan, meals }: CookClientProps) {
 
     // Sort steps to optimize for parallel cooking
     return steps.sort((a, b) => {
+      // Cook one prep session at a time
+      if (a.prepSession !== b.prepSession) return a.prepSession - b.prepSession
       // Prioritize steps with timers first, then by recipe
       if (a.timeSeconds && !b.timeSeconds) return -1
       if (!a.timeSeconds && b.timeSeconds) return 1
       return a.recipeName.localeCompare(b.recipeName) || a.order - b.order
     })
-  }, [meals])
+  }, [meals, prepDays])
 
   const progress = (completedSteps.size / allSteps.length) * 100
 
@@ -214,6 +231,8 @@ export default function CookClient({ mealPlan, meals }: CookClientProps) {
           <TabsContent value="overview">
             <CookingTimeline
               meals={meals}
+              mealSlots={mealSlots}
+              prepDays={prepDays}
               completedSteps={completedSteps}
               onMarkComplete={markStepComplete}
               onStartTimer={startStepTimer}
@@ -1,6 +1,8 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
 import CookClient from './CookClient'
+import { resolveMealSlots, slotOrder } from '@/lib/mealSlots'
+import { sanitizePrepDays } from '@/lib/prepSessions'
 
 interface CookPageProps {
   params: Promise<{ planId: string }>
@@ -41,7 +43,9 @@ export default async function CookPage({ params }: CookPageProps) {
           *,
           ingredients (*)
         )
-      )
+      ),
+      meal_ingredients (*),
+      meal_portions (*)
     `)
     .eq('meal_plan_id', planId)
     .order('day_of_week')
@@ -51,11 +55,26 @@ export default async function CookPage({ params }: CookPageProps) {
     redirect(`/plan/${mealPlan.week_start}`)
   }
 
+  // Cook in the order the user eats: by day, then by their slot order
+  const { data: userProfile } = await supabase
+    .from('users')
+    .select('meal_slots')
+    .eq('id', user.id)
+    .single()
+
+  const mealSlots = resolveMealSlots(userProfile?.meal_slots)
+  meals.sort((a, b) =>
+    a.day_of_week - b.day_of_week ||
+    slotOrder(mealSlots, a.meal_slot) - slotOrder(mealSlots, b.meal_slot)
+  )
+
   return (
     <CookClient
       user={user}
       mealPlan={mealPlan}
       meals={meals}
+      mealSlots={mealSlots}
+      prepDays={sanitizePrepDays(mealPlan.prep_days)}
     />
   )
 }
\ No newline at end of file
@@ -11,6 +11,22 @@ import {
   CardTitle,
 } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
 import {
   ChefHat,
   Plus,
@@ -19,14 +35,34 @@ import {
   Calendar,
   Eye,
   Clock,
+  Columns3,
 } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
 import { toast } from 'sonner'
 import PantryManager from '@/components/dashboard/PantryManager'
 import MacroTargets from '@/components/dashboard/MacroTargets'
+import DayProfiles from '@/components/dashboard/DayProfiles'
+import MealSlots from '@/components/dashboard/MealSlots'
+import ShoppingBudget from '@/components/dashboard/ShoppingBudget'
+import CookTimeLimits from '@/components/dashboard/CookTimeLimits'
+import CookingSkill from '@/components/dashboard/CookingSkill'
+import Household from '@/components/dashboard/Household'
+import DietaryExclusions from '@/components/dashboard/DietaryExclusions'
+import SpoilageWarnings, {
+  PlannedMeal,
+} from '@/components/dashboard/SpoilageWarnings'
 import AIPoweredInsights from '@/components/dashboard/AIPoweredInsights'
+import PlanComparison from '@/components/dashboard/PlanComparison'
 import { Database } from '@/lib/types/database'
+import { PlanAlternative, PlanProposal } from '@/lib/macroTetris'
+import { formatPrice, IngredientPrice } from '@/lib/prices'
+import { sanitizePrepDays } from '@/lib/prepSessions'
+import {
+  calculateDailyTargets,
+  overallAccuracy,
+  resolveMacroSplit,
+} from '@/lib/nutrition'
 
 type UserProfile = Database['public']['Tables']['users']['Row']
 type PantryItem = Database['public']['Tables']['pantry_items']['Row'] & {
@@ -34,12 +70,39 @@ type PantryItem = Database['public']['Tables']['pantry_items']['Row'] & {
 }
 type Ingredient = Database['public']['Tables']['ingredients']['Row']
 type MealPlan = Database['public']['Tables']['meal_plans']['Row']
+type HouseholdMember = Database['public']['Tables']['household_members']['Row']
+type UserPreference = Database['public']['Tables']['user_preferences']['Row']
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+interface PendingPreview {
+  weekStart: string
+  proposal: PlanProposal
+  currentPlan: MealPlan
+}
+
+interface PendingAlternatives {
+  weekStart: string
+  alternatives: PlanAlternative[]
+  currentPlan: MealPlan | null
+}
+
+// This week's Monday as YYYY-MM-DD
+const currentWeekStart = () => {
+  const today = new Date()
+  const monday = new Date(today.setDate(today.getDate() - today.getDay() + 1))
+  return monday.toISOString().split('T')[0]
+}
 
 interface DashboardClientProps {
   user: User
   userProfile: UserProfile | null
   pantryItems: PantryItem[]
   ingredients: Ingredient[]
+  prices: IngredientPrice[]
+  household: HouseholdMember[]
+  preferences: UserPreference[]
+  plannedMeals: PlannedMeal[] // from this week's plan on
 }
 
 export default function DashboardClient({
@@ -47,11 +110,24 @@ export default function DashboardClient({
   userProfile,
   pantryItems: initialPantryItems,
   ingredients,
+  prices,
+  household,
+  preferences,
+  plannedMeals,
 }: DashboardClientProps) {
   const [pantryItems, setPantryItems] = useState(initialPantryItems)
   const [isGenerating, setIsGenerating] = useState(false)
   const [existingPlans, setExistingPlans] = useState<MealPlan[]>([])
   const [isLoadingPlans, setIsLoadingPlans] = useState(true)
+  const [pendingPreview, setPendingPreview] = useState<PendingPreview | null>(
+    null
+  )
+  const [pendingAlternatives, setPendingAlternatives] =
+    useState<PendingAlternatives | null>(null)
+  // Until the user picks, reuse the prep days of their latest plan
+  const [chosenPrepDays, setChosenPrepDays] = useState<number[] | null>(null)
+  const prepDays =
+    chosenPrepDays ?? sanitizePrepDays(existingPlans[0]?.prep_days)
   const router = useRouter()
   const supabase = createClient()
 
@@ -82,18 +158,55 @@ export default function DashboardClient({
     router.push('/')
   }
 
+  const commitProposal = async (weekString: string, proposal: PlanProposal) => {
+    const response = await fetch('/api/generate-plan/commit', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        userId: user.id,
+        weekStart: weekString,
+        proposal,
+      }),
+    })
+
+    if (response.status === 409) {
+      toast.error(
+        'Your pantry changed since this plan was previewed. Please generate it again.'
+      )
+      return
+    }
+
+    if (!response.ok) {
+      throw new Error('Failed to save meal plan')
+    }
+
+    const result = await response.json()
+
+    toast.success(
+      `Meal plan generated! Macro accuracy: ${overallAccuracy(result.macroAccuracy)}%`
+    )
+
+    if (result.missingIngredients.length > 0) {
+      toast.warning(
+        `Note: ${result.missingIngredients.length} ingredients need to be purchased`
+      )
+    }
+
+    // Refresh existing plans and navigate to the generated plan
+    await fetchExistingPlans()
+    router.push(`/plan/${weekString}`)
+  }
+
   const generateWeeklyPlan = async () => {
     setIsGenerating(true)
     try {
       toast.success('Generating your macro-optimized meal plan...')
 
-      const today = new Date()
-      const monday = new Date(
-        today.setDate(today.getDate() - today.getDay() + 1)
-      )
-      const weekString = monday.toISOString().split('T')[0]
+      const weekString = currentWeekStart()
 
-      // Call the Macro Tetris algorithm
+      // Preview the Macro Tetris plan without overwriting anything yet
       const response = await fetch('/api/generate-plan', {
         method: 'POST',
         headers: {
@@ -102,6 +215,8 @@ export default function DashboardClient({
         body: JSON.stringify({
           userId: user.id,
           weekStart: weekString,
+          prepDays,
+          preview: true,
         }),
       })
 
@@ -109,21 +224,15 @@ export default function DashboardClient({
         throw new Error('Failed to generate meal plan')
       }
 
-      const result = await response.json()
-
-      toast.success(
-        `Meal plan generated! Macro accuracy: ${Math.round((result.macroAccuracy.calories + result.macroAccuracy.protein + result.macroAccuracy.carbs + result.macroAccuracy.fat) / 4)}%`
-      )
+      const { proposal, currentPlan } = await response.json()
 
-      if (result.missingIngredients.length > 0) {
-        toast.warning(
-          `Note: ${result.missingIngredients.length} ingredients need to be purchased`
-        )
+      // Let the user compare before replacing an existing plan
+      if (currentPlan) {
+        setPendingPreview({ weekStart: weekString, proposal, currentPlan })
+        return
       }
 
-      // Refresh existing plans and navigate to the generated plan
-      await fetchExistingPlans()
-      router.push(`/plan/${weekString}`)
+      await commitProposal(weekString, proposal)
     } catch (error) {
       console.error('Meal plan generation failed:', error)
       toast.error(
@@ -134,17 +243,82 @@ export default function DashboardClient({
     }
   }
 
+  const compareAlternatives = async () => {
+    setIsGenerating(true)
+    try {
+      const weekString = currentWeekStart()
+
+      // One plan per objective, nothing is written until the user picks one
+      const response = await fetch('/api/generate-plan', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userId: user.id,
+          weekStart: weekString,
+          prepDays,
+          alternatives: true,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to generate alternative plans')
+      }
+
+      const { alternatives, currentPlan } = await response.json()
+      setPendingAlternatives({
+        weekStart: weekString,
+        alternatives,
+        currentPlan,
+      })
+    } catch (error) {
+      console.error('Alternative plan generation failed:', error)
+      toast.error(
+        'Failed to generate plans to compare. Please check your pantry and try again.'
+      )
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const chooseAlternative = async (proposal: PlanProposal) => {
+    if (!pendingAlternatives) return
+
+    setIsGenerating(true)
+    try {
+      await commitProposal(pendingAlternatives.weekStart, proposal)
+      setPendingAlternatives(null)
+    } catch (error) {
+      console.error('Meal plan commit failed:', error)
+      toast.error('Failed to save meal plan. Please try again.')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const replaceCurrentPlan = async () => {
+    if (!pendingPreview) return
+
+    setIsGenerating(true)
+    try {
+      await commitProposal(pendingPreview.weekStart, pendingPreview.proposal)
+      setPendingPreview(null)
+    } catch (error) {
+      console.error('Meal plan commit failed:', error)
+      toast.error('Failed to save meal plan. Please try again.')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
   const totalItems = pantryItems.length
-  const caloriesPerDay = userProfile?.kcal_target || 2000
-  const proteinTarget = Math.round(
-    (caloriesPerDay * (userProfile?.protein_pct || 30)) / 100 / 4
-  )
-  const carbTarget = Math.round(
-    (caloriesPerDay * (userProfile?.carb_pct || 40)) / 100 / 4
-  )
-  const fatTarget = Math.round(
-    (caloriesPerDay * (userProfile?.fat_pct || 30)) / 100 / 9
-  )
+  const {
+    calories: caloriesPerDay,
+    protein: proteinTarget,
+    carbs: carbTarget,
+    fat: fatTarget,
+  } = calculateDailyTargets(resolveMacroSplit(userProfile))
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -230,6 +404,34 @@ export default function DashboardClient({
           {/* Macro Targets */}
           <MacroTargets userProfile={userProfile} />
 
+          {/* Training / Rest Day Types */}
+          <DayProfiles userProfile={userProfile} />
+
+          {/* Meal Slots and Eating Windows */}
+          <MealSlots userProfile={userProfile} />
+
+          {/* Weeknight Cooking Time */}
+          <CookTimeLimits userProfile={userProfile} />
+
+          {/* Cooking Skill and Stretch Meals */}
+          <CookingSkill userProfile={userProfile} />
+
+          {/* Household Members and Shared Meals */}
+          <Household userProfile={userProfile} household={household} />
+
+          {/* Allergies and Diets */}
+          <DietaryExclusions
+            userProfile={userProfile}
+            preferences={preferences}
+          />
+
+          {/* Weekly Budget and Ingredient Prices */}
+          <ShoppingBudget
+            userProfile={userProfile}
+            ingredients={ingredients}
+            prices={prices}
+          />
+
           {/* Generate Plan Button */}
           <Card>
             <CardHeader>
@@ -255,6 +457,36 @@ export default function DashboardClient({
                 </Badge>
               </div>
 
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Prep days</div>
+                <div className="grid grid-cols-7 gap-1">
+                  {DAYS.map((day, dayIndex) => (
+                    <Button
+                      key={day}
+                      variant={
+                        prepDays.includes(dayIndex) ? 'default' : 'outline'
+                      }
+                      size="sm"
+                      className="px-0"
+                      onClick={() =>
+                        setChosenPrepDays(
+                          prepDays.includes(dayIndex)
+                            ? prepDays.filter((d) => d !== dayIndex)
+                            : sanitizePrepDays([...prepDays, dayIndex])
+                        )
+                      }
+                    >
+                      {day}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {prepDays.length === 0
+                    ? 'No batch cooking: each meal is cooked on its day'
+                    : 'Meals are only planned while they keep in the fridge or freezer'}
+                </p>
+              </div>
+
               <Button
                 onClick={generateWeeklyPlan}
                 disabled={isGenerating || totalItems === 0}
@@ -275,6 +507,16 @@ export default function DashboardClient({
                 )}
               </Button>
 
+              <Button
+                onClick={compareAlternatives}
+                disabled={isGenerating || totalItems === 0}
+                className="w-full"
+                variant="ghost"
+              >
+                <Columns3 className="h-4 w-4 mr-2" />
+                Compare Alternative Plans
+              </Button>
+
               {totalItems === 0 && (
                 <p className="text-sm text-muted-foreground text-center">
                   Add some ingredients to your pantry first
@@ -378,6 +620,12 @@ export default function DashboardClient({
           </Card>
         </div>
 
+        {/* Pantry stock that will expire before it's used */}
+        <SpoilageWarnings
+          pantryItems={pantryItems}
+          plannedMeals={plannedMeals}
+        />
+
         {/* Pantry Manager */}
         <div className="mt-8">
           <PantryManager
@@ -387,6 +635,117 @@ export default function DashboardClient({
           />
         </div>
       </div>
+
+      {/* Compare plans made for different objectives */}
+      <PlanComparison
+        alternatives={pendingAlternatives?.alternatives ?? null}
+        replacesCurrentPlan={Boolean(pendingAlternatives?.currentPlan)}
+        isSaving={isGenerating}
+        onChoose={chooseAlternative}
+        onClose={() => setPendingAlternatives(null)}
+      />
+
+      {/* Compare a previewed plan against the current week */}
+      <Dialog
+        open={pendingPreview !== null}
+        onOpenChange={(open) => !open && setPendingPreview(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Replace this week&apos;s plan?</DialogTitle>
+            <DialogDescription>
+              You already have a plan for this week. Compare the weekly totals
+              before overwriting it.
+            </DialogDescription>
+          </DialogHeader>
+          {pendingPreview && (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead></TableHead>
+                    <TableHead className="text-right">Current</TableHead>
+                    <TableHead className="text-right">Proposed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[
+                    {
+                      label: 'Calories',
+                      current: pendingPreview.currentPlan.total_kcal,
+                      proposed: pendingPreview.proposal.weeklyTotals.calories,
+                      unit: '',
+                    },
+                    {
+                      label: 'Protein',
+                      current: pendingPreview.currentPlan.total_protein,
+                      proposed: pendingPreview.proposal.weeklyTotals.protein,
+                      unit: 'g',
+                    },
+                    {
+                      label: 'Carbs',
+                      current: pendingPreview.currentPlan.total_carbs,
+                      proposed: pendingPreview.proposal.weeklyTotals.carbs,
+                      unit: 'g',
+                    },
+                    {
+                      label: 'Fat',
+                      current: pendingPreview.currentPlan.total_fat,
+                      proposed: pendingPreview.proposal.weeklyTotals.fat,
+                      unit: 'g',
+                    },
+                  ].map((row) => (
+                    <TableRow key={row.label}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TableCell className="text-right">
+                        {Math.round(row.current).toLocaleString('en-US')}
+                        {row.unit}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {Math.round(row.proposed).toLocaleString('en-US')}
+                        {row.unit}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">
+                  {pendingPreview.proposal.meals.length} meals
+                </Badge>
+                <Badge variant="secondary">
+                  Macro accuracy{' '}
+                  {overallAccuracy(pendingPreview.proposal.macroAccuracy)}%
+                </Badge>
+                {pendingPreview.proposal.missingIngredients.length > 0 && (
+                  <Badge variant="outline">
+                    {pendingPreview.proposal.missingIngredients.length}{' '}
+                    ingredients to buy
+                  </Badge>
+                )}
+                {pendingPreview.proposal.shoppingCost > 0 && (
+                  <Badge variant="outline">
+                    ~{formatPrice(pendingPreview.proposal.shoppingCost)}{' '}
+                    shopping
+                  </Badge>
+                )}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setPendingPreview(null)}
+              disabled={isGenerating}
+            >
+              Keep Current Plan
+            </Button>
+            <Button onClick={replaceCurrentPlan} disabled={isGenerating}>
+              Replace Plan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
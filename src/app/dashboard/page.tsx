@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
 import DashboardClient from './DashboardClient'
+import { addDays } from '@/lib/pantryExpiry'
 
 export default async function DashboardPage() {
   const supabase = await createClient()
@@ -32,12 +33,67 @@ export default async function DashboardPage() {
     .select('*')
     .order('name')
 
+  // Shared ingredient prices plus the user's own
+  const { data: prices } = await supabase
+    .from('ingredient_prices')
+    .select(`
+      *,
+      ingredients (*)
+    `)
+    .or(`user_id.is.null,user_id.eq.${user.id}`)
+    .order('id')
+
+  const { data: household } = await supabase
+    .from('household_members')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at')
+
+  // Allergies and diets, besides other preferences
+  const { data: preferences } = await supabase
+    .from('user_preferences')
+    .select('*')
+    .eq('user_id', user.id)
+
+  // Meals from this week's plan on, to see what the pantry stock goes to
+  const today = new Date().toISOString().split('T')[0]
+  const { data: upcomingPlans } = await supabase
+    .from('meal_plans')
+    .select(`
+      week_start,
+      meals (
+        *,
+        recipes (
+          *,
+          recipe_ingredients (
+            *,
+            ingredients (*)
+          )
+        ),
+        meal_ingredients (*),
+        meal_portions (*)
+      )
+    `)
+    .eq('user_id', user.id)
+    .gte('week_start', addDays(today, -6))
+
+  const plannedMeals = (upcomingPlans || []).flatMap((plan) =>
+    plan.meals.map((meal) => ({
+      ...meal,
+      date: addDays(plan.week_start, meal.day_of_week),
+    }))
+  )
+
   return (
     <DashboardClient
       user={user}
       userProfile={userProfile}
       pantryItems={pantryItems || []}
       ingredients={ingredients || []}
+      prices={prices || []}
+      household={household || []}
+      preferences={preferences || []}
+      plannedMeals={plannedMeals}
     />
   )
 }
\ No newline at end of file
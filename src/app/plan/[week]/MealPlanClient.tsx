@@ -10,13 +10,65 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card'
-import { ChefHat, ArrowLeft, Download, Target } from 'lucide-react'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  ChefHat,
+  ArrowLeft,
+  Download,
+  Target,
+  CalendarDays,
+  Leaf,
+  DollarSign,
+} from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
 import { toast } from 'sonner'
 import Link from 'next/link'
 import MealPlanGrid from '@/components/plan/MealPlanGrid'
+import PlanExplanation from '@/components/plan/PlanExplanation'
 import { Database } from '@/lib/types/database'
+import { resolveIngredientQuantity } from '@/lib/mealIngredients'
+import { toIngredientUnit } from '@/lib/units'
+import { calculateWeekTargets, resolveDaySchedule } from '@/lib/dayProfiles'
+import { resolveMealSlots } from '@/lib/mealSlots'
+import {
+  boundStatus,
+  nutrientInfo,
+  NUTRIENTS,
+  sanitizeNutrientTargets,
+} from '@/lib/nutrients'
+import {
+  formatPrice,
+  IngredientPrice,
+  mealCost,
+  resolveUnitPrices,
+  shoppingCost,
+} from '@/lib/prices'
+import {
+  formatCookTime,
+  resolveCookTimeLimits,
+  sessionCookTimeLimit,
+  sessionCookTimes,
+} from '@/lib/cookTime'
+import { sanitizePrepDays, SESSION_BEFORE_WEEK } from '@/lib/prepSessions'
+import { resolveSkillLevel } from '@/lib/skillLevels'
+import { resolvePlanTrace } from '@/lib/planTrace'
+import { cookedServings, forHousehold } from '@/lib/household'
+import { resolveDietaryExclusions } from '@/lib/dietaryExclusions'
+import {
+  calculateDailyTargets,
+  mealNutrition,
+  resolveMacroSplit,
+  roundMacros,
+  sumNutrition,
+} from '@/lib/nutrition'
 
 type UserProfile = Database['public']['Tables']['users']['Row']
 type MealPlan = Database['public']['Tables']['meal_plans']['Row']
@@ -28,6 +80,15 @@ type Meal = Database['public']['Tables']['meals']['Row'] & {
       }
     >
   }
+  meal_ingredients?: Array<
+    Database['public']['Tables']['meal_ingredients']['Row']
+  >
+  meal_portions?: Array<Database['public']['Tables']['meal_portions']['Row']>
+}
+type HouseholdMember = Database['public']['Tables']['household_members']['Row']
+type UserPreference = Database['public']['Tables']['user_preferences']['Row']
+type PantryItem = Database['public']['Tables']['pantry_items']['Row'] & {
+  ingredients: Database['public']['Tables']['ingredients']['Row']
 }
 type Recipe = Database['public']['Tables']['recipes']['Row'] & {
   recipe_ingredients: Array<
@@ -37,6 +98,16 @@ type Recipe = Database['public']['Tables']['recipes']['Row'] & {
   >
 }
 
+const DAYS = [
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+  'Sunday',
+]
+
 interface MealPlanClientProps {
   user: User
   userProfile: UserProfile | null
@@ -44,6 +115,10 @@ interface MealPlanClientProps {
   mealPlan: MealPlan | null
   meals: Meal[]
   recipes: Recipe[]
+  pantryItems: PantryItem[]
+  prices: IngredientPrice[]
+  household: HouseholdMember[]
+  preferences: UserPreference[]
 }
 
 export default function MealPlanClient({
@@ -52,63 +127,121 @@ export default function MealPlanClient({
   mealPlan,
   meals: initialMeals,
   recipes,
+  pantryItems,
+  prices,
+  household,
+  preferences,
 }: MealPlanClientProps) {
   const [meals, setMeals] = useState(initialMeals)
+  const unitPrices = useMemo(() => resolveUnitPrices(prices), [prices])
 
-  // Calculate weekly macro totals
-  const weeklyTotals = useMemo(() => {
-    let totalCalories = 0
-    let totalProtein = 0
-    let totalCarbs = 0
-    let totalFat = 0
+  // Per-day nutrition so uneven days aren't hidden by the weekly average
+  const dailyNutrition = useMemo(
+    () =>
+      DAYS.map((_, dayIndex) =>
+        sumNutrition(
+          meals
+            .filter((meal) => meal.day_of_week === dayIndex)
+            .map(mealNutrition)
+        )
+      ),
+    [meals]
+  )
+  const dailyTotals = dailyNutrition.map(roundMacros)
+  const dailyNutrients = dailyNutrition.map((totals) => totals.nutrients)
 
-    meals.forEach((meal) => {
-      if (meal.recipes && meal.recipes.recipe_ingredients) {
-        meal.recipes.recipe_ingredients.forEach((ingredient) => {
-          const servingMultiplier = meal.servings
-          const quantity = ingredient.quantity
-          const nutrition = ingredient.ingredients
-
-          // Calculate nutrition based on ingredient quantity and servings
-          const caloriesPerServing = (nutrition.kcal * quantity) / 100
-          const proteinPerServing = (nutrition.protein * quantity) / 100
-          const carbsPerServing = (nutrition.carbs * quantity) / 100
-          const fatPerServing = (nutrition.fat * quantity) / 100
-
-          totalCalories += caloriesPerServing * servingMultiplier
-          totalProtein += proteinPerServing * servingMultiplier
-          totalCarbs += carbsPerServing * servingMultiplier
-          totalFat += fatPerServing * servingMultiplier
-        })
-      }
-    })
+  // Daily average over the week
+  const weekNutrition = sumNutrition(dailyNutrition)
+  const weeklyTotals = roundMacros({
+    calories: weekNutrition.calories / 7,
+    protein: weekNutrition.protein / 7,
+    carbs: weekNutrition.carbs / 7,
+    fat: weekNutrition.fat / 7,
+  })
+
+  // Estimated cost of the week's priced ingredients, for everything cooked
+  // including the household's portions
+  const costs = useMemo(() => {
+    const cooked = meals.map(forHousehold)
+    const mealCosts = cooked.map((meal) => mealCost(meal, unitPrices))
+    const pricedCosts = mealCosts.filter(
+      (cost): cost is number => cost !== null
+    )
+    const total = pricedCosts.reduce((sum, cost) => sum + cost, 0)
 
     return {
-      calories: Math.round(totalCalories / 7), // Daily average
-      protein: Math.round(totalProtein / 7),
-      carbs: Math.round(totalCarbs / 7),
-      fat: Math.round(totalFat / 7),
+      total,
+      perMeal: pricedCosts.length > 0 ? total / pricedCosts.length : 0,
+      toBuy: shoppingCost(cooked, pantryItems, unitPrices),
+      unpricedMeals: mealCosts.length - pricedCosts.length,
     }
-  }, [meals])
+  }, [meals, pantryItems, unitPrices])
+  const weeklyBudget = userProfile?.weekly_budget ?? null
+
+  // Cooking each session needs: on the prep day when the plan has prep
+  // days, including the Sunday before the week, else on the day itself
+  const cookSessions = useMemo(
+    () =>
+      sessionCookTimes(
+        meals.map((meal) => ({ day: meal.day_of_week, recipe: meal.recipes })),
+        sanitizePrepDays(mealPlan?.prep_days)
+      ),
+    [meals, mealPlan]
+  )
+  const cookTimes = DAYS.map((_, day) => cookSessions.get(day) ?? 0)
+  const cookTimeBeforeWeek = cookSessions.get(SESSION_BEFORE_WEEK) ?? 0
+  const cookTimeLimits = resolveCookTimeLimits(userProfile?.cook_time_limits)
+  const limitBeforeWeek = sessionCookTimeLimit(
+    SESSION_BEFORE_WEEK,
+    cookTimeLimits
+  )
+
+  const getCookTimeColor = (day: number) => {
+    const limit = cookTimeLimits[day]
+    if (limit === null) return 'bg-gray-300'
+    return cookTimes[day] <= limit * 60 ? 'bg-green-500' : 'bg-red-500'
+  }
+
+  const nutrientTargets = sanitizeNutrientTargets(userProfile?.nutrient_targets)
+
+  // Nutrients with a limit, or every known nutrient the plan contains
+  const reportedNutrients = Object.keys(nutrientTargets).length
+    ? Object.keys(nutrientTargets)
+    : NUTRIENTS.map((nutrient) => nutrient.key).filter((key) =>
+        dailyNutrients.some((totals) => totals[key] > 0)
+      )
+
+  const getBoundColor = (value: number, key: string) => {
+    const bound = nutrientTargets[key]
+    if (!bound) return 'bg-gray-300'
+    return boundStatus(value, bound) === 'ok' ? 'bg-green-500' : 'bg-red-500'
+  }
+
+  const formatNutrient = (value: number) =>
+    value >= 100 ? Math.round(value) : Math.round(value * 10) / 10
 
   // Calculate macro targets for the week
+  const baseTargets = calculateDailyTargets(resolveMacroSplit(userProfile))
+
+  // Each day's own targets when training/rest day types are scheduled
+  const dayTargets = userProfile
+    ? calculateWeekTargets(userProfile)
+    : DAYS.map(() => baseTargets)
+  const dayTypes = userProfile
+    ? resolveDaySchedule(userProfile)
+    : DAYS.map(() => null)
+
+  // Average day, compared against the daily average of the plan
+  const averageTarget = (key: keyof typeof baseTargets) =>
+    Math.round(
+      dayTargets.reduce((sum, target) => sum + target[key], 0) /
+        dayTargets.length
+    )
   const targets = {
-    calories: userProfile?.kcal_target || 2000,
-    protein: Math.round(
-      ((userProfile?.kcal_target || 2000) * (userProfile?.protein_pct || 30)) /
-        100 /
-        4
-    ),
-    carbs: Math.round(
-      ((userProfile?.kcal_target || 2000) * (userProfile?.carb_pct || 40)) /
-        100 /
-        4
-    ),
-    fat: Math.round(
-      ((userProfile?.kcal_target || 2000) * (userProfile?.fat_pct || 30)) /
-        100 /
-        9
-    ),
+    calories: averageTarget('calories'),
+    protein: averageTarget('protein'),
+    carbs: averageTarget('carbs'),
+    fat: averageTarget('fat'),
   }
 
   // Calculate accuracy (green/amber/red indicators)
@@ -119,8 +252,13 @@ export default function MealPlanClient({
     return 'bg-red-500' // More than 15% off
   }
 
+  const formatDeviation = (actual: number, target: number) => {
+    const percentage = Math.round(((actual - target) / target) * 100)
+    return `${percentage > 0 ? '+' : ''}${percentage}%`
+  }
+
   const exportGroceryList = () => {
-    // Aggregate all ingredients needed for the week
+    // Aggregate all ingredients needed for the week, for the whole household
     const ingredientMap = new Map<
       string,
       { name: string; quantity: number; unit: string }
@@ -129,8 +267,20 @@ export default function MealPlanClient({
     meals.forEach((meal) => {
       if (meal.recipes && meal.recipes.recipe_ingredients) {
         meal.recipes.recipe_ingredients.forEach((ingredient) => {
-          const key = ingredient.ingredient_id
-          const totalQuantity = ingredient.quantity * meal.servings
+          const quantity =
+            resolveIngredientQuantity(meal, ingredient) * cookedServings(meal)
+
+          // Add up in the ingredient's own unit so "10 ml" and "1 tbsp" of
+          // the same oil become one line; unconvertible units stay separate
+          const converted = toIngredientUnit(
+            quantity,
+            ingredient.unit,
+            ingredient.ingredients
+          )
+          const unit =
+            converted === null ? ingredient.unit : ingredient.ingredients.unit
+          const totalQuantity = converted ?? quantity
+          const key = `${ingredient.ingredient_id}:${unit}`
 
           if (ingredientMap.has(key)) {
             const existing = ingredientMap.get(key)!
@@ -139,7 +289,7 @@ export default function MealPlanClient({
             ingredientMap.set(key, {
               name: ingredient.ingredients.name,
               quantity: totalQuantity,
-              unit: ingredient.unit,
+              unit,
             })
           }
         })
@@ -150,7 +300,8 @@ export default function MealPlanClient({
     const csvContent = [
       'Ingredient,Quantity,Unit',
       ...Array.from(ingredientMap.values()).map(
-        (item) => `"${item.name}",${item.quantity},"${item.unit}"`
+        (item) =>
+          `"${item.name}",${Math.round(item.quantity * 100) / 100},"${item.unit}"`
       ),
     ].join('\n')
 
@@ -290,14 +441,222 @@ export default function MealPlanClient({
           </CardContent>
         </Card>
 
+        {/* Daily Breakdown */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Daily Breakdown
+            </CardTitle>
+            <CardDescription>
+              Each day against its own targets, with percentage off target
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  <TableHead>Calories</TableHead>
+                  <TableHead>Protein</TableHead>
+                  <TableHead>Carbs</TableHead>
+                  <TableHead>Fat</TableHead>
+                  <TableHead>Cooking</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dailyTotals.map((totals, dayIndex) => (
+                  <TableRow key={DAYS[dayIndex]}>
+                    <TableCell className="font-medium">
+                      {DAYS[dayIndex]}
+                      {dayTypes[dayIndex] && (
+                        <span className="block text-xs text-muted-foreground">
+                          {dayTypes[dayIndex]}
+                        </span>
+                      )}
+                    </TableCell>
+                    {(['calories', 'protein', 'carbs', 'fat'] as const).map(
+                      (key) => (
+                        <TableCell key={key}>
+                          <div className="flex items-center gap-2">
+                            <div
+                              className={`w-2 h-2 rounded-full ${getAccuracyColor(totals[key], dayTargets[dayIndex][key])}`}
+                            ></div>
+                            <span>
+                              {totals[key]}
+                              {key === 'calories' ? '' : 'g'}
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                              {formatDeviation(
+                                totals[key],
+                                dayTargets[dayIndex][key]
+                              )}
+                            </span>
+                          </div>
+                        </TableCell>
+                      )
+                    )}
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div
+                          className={`w-2 h-2 rounded-full ${getCookTimeColor(dayIndex)}`}
+                        ></div>
+                        <span>{formatCookTime(cookTimes[dayIndex])}</span>
+                        {cookTimeLimits[dayIndex] !== null && (
+                          <span className="text-xs text-muted-foreground">
+                            of {cookTimeLimits[dayIndex]} min
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {cookTimeBeforeWeek > 0 && (
+              <p className="text-sm text-muted-foreground mt-2">
+                Plus {formatCookTime(cookTimeBeforeWeek)} of cooking on the
+                Sunday before the week
+                {limitBeforeWeek !== null && ` (of ${limitBeforeWeek} min)`}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Nutrients */}
+        {reportedNutrients.length > 0 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Leaf className="h-5 w-5" />
+                Nutrients
+              </CardTitle>
+              <CardDescription>
+                Fiber and micronutrients per day, against your daily limits
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Day</TableHead>
+                    {reportedNutrients.map((key) => {
+                      const info = nutrientInfo(key)
+                      const bound = nutrientTargets[key]
+                      return (
+                        <TableHead key={key}>
+                          {info.label}
+                          {bound && (
+                            <span className="block text-xs font-normal">
+                              {bound.min !== undefined &&
+                                `min ${bound.min}${info.unit} `}
+                              {bound.max !== undefined &&
+                                `max ${bound.max}${info.unit}`}
+                            </span>
+                          )}
+                        </TableHead>
+                      )
+                    })}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dailyNutrients.map((totals, dayIndex) => (
+                    <TableRow key={DAYS[dayIndex]}>
+                      <TableCell className="font-medium">
+                        {DAYS[dayIndex]}
+                      </TableCell>
+                      {reportedNutrients.map((key) => (
+                        <TableCell key={key}>
+                          <div className="flex items-center gap-2">
+                            <div
+                              className={`w-2 h-2 rounded-full ${getBoundColor(totals[key] ?? 0, key)}`}
+                            ></div>
+                            <span>
+                              {formatNutrient(totals[key] ?? 0)}
+                              {nutrientInfo(key).unit}
+                            </span>
+                          </div>
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Cost */}
+        {meals.length > 0 && Object.keys(unitPrices).length > 0 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="h-5 w-5" />
+                Estimated Cost
+              </CardTitle>
+              <CardDescription>
+                From your ingredient prices
+                {costs.unpricedMeals > 0 &&
+                  `; ${costs.unpricedMeals} meals have no priced ingredients`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-3 gap-6">
+                <div className="text-center">
+                  <div className="font-medium mb-2">Week</div>
+                  <div className="text-2xl font-bold">
+                    {formatPrice(costs.total)}
+                  </div>
+                </div>
+                <div className="text-center">
+                  <div className="font-medium mb-2">Per meal</div>
+                  <div className="text-2xl font-bold">
+                    {formatPrice(costs.perMeal)}
+                  </div>
+                </div>
+                <div className="text-center">
+                  <div className="flex items-center justify-center mb-2">
+                    {weeklyBudget !== null && (
+                      <div
+                        className={`w-3 h-3 rounded-full mr-2 ${costs.toBuy <= weeklyBudget ? 'bg-green-500' : 'bg-red-500'}`}
+                      ></div>
+                    )}
+                    <span className="font-medium">To buy</span>
+                  </div>
+                  <div className="text-2xl font-bold">
+                    {formatPrice(costs.toBuy)}
+                  </div>
+                  {weeklyBudget !== null && (
+                    <div className="text-sm text-muted-foreground">
+                      Budget: {formatPrice(weeklyBudget)}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Meal Plan Grid */}
         <MealPlanGrid
+          dayTypes={dayTypes}
+          mealSlots={resolveMealSlots(userProfile?.meal_slots)}
+          unitPrices={unitPrices}
+          skillLevel={resolveSkillLevel(userProfile?.skill_level)}
+          household={household}
+          dayTargets={dayTargets}
+          exclusions={resolveDietaryExclusions(preferences)}
           weekStart={weekStart}
           meals={meals}
           recipes={recipes}
           mealPlan={mealPlan}
           onMealsUpdate={setMeals}
         />
+
+        {/* Why this plan? */}
+        {mealPlan && (
+          <PlanExplanation trace={resolvePlanTrace(mealPlan.trace)} />
+        )}
       </div>
     </div>
   )
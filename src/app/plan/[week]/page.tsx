@@ -50,7 +50,9 @@ export default async function MealPlanPage({ params }: MealPlanPageProps) {
           *,
           ingredients (*)
         )
-      )
+      ),
+      meal_ingredients (*),
+      meal_portions (*)
     `)
     .eq('meal_plan_id', mealPlan.id)
     .order('day_of_week')
@@ -68,6 +70,37 @@ export default async function MealPlanPage({ params }: MealPlanPageProps) {
     `)
     .order('name')
 
+  // Pantry and prices for the cost estimate
+  const { data: pantryItems } = await supabase
+    .from('pantry_items')
+    .select(`
+      *,
+      ingredients (*)
+    `)
+    .eq('user_id', user.id)
+
+  const { data: prices } = await supabase
+    .from('ingredient_prices')
+    .select(`
+      *,
+      ingredients (*)
+    `)
+    .or(`user_id.is.null,user_id.eq.${user.id}`)
+    .order('id')
+
+  // Household members, to name their portions of shared meals
+  const { data: household } = await supabase
+    .from('household_members')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at')
+
+  // Allergies and diets, to show which recipes can't be added
+  const { data: preferences } = await supabase
+    .from('user_preferences')
+    .select('*')
+    .eq('user_id', user.id)
+
   return (
     <MealPlanClient
       user={user}
@@ -76,6 +109,10 @@ export default async function MealPlanPage({ params }: MealPlanPageProps) {
       mealPlan={mealPlan}
       meals={meals || []}
       recipes={recipes || []}
+      pantryItems={pantryItems || []}
+      prices={prices || []}
+      household={household || []}
+      preferences={preferences || []}
     />
   )
 }
\ No newline at end of file
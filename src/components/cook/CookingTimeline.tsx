@@ -3,8 +3,13 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { Clock, Check, Timer, ChefHat } from 'lucide-react'
+import { Clock, Check, Timer, ChefHat, Snowflake, Users } from 'lucide-react'
 import { Database } from '@/lib/types/database'
+import { resolveIngredientQuantity } from '@/lib/mealIngredients'
+import { formatServings } from '@/lib/servings'
+import { cookedServings } from '@/lib/household'
+import { formatSlot, MealSlotConfig } from '@/lib/mealSlots'
+import { formatPrepSession, needsFreezing, prepSessionFor } from '@/lib/prepSessions'
 
 type Meal = Database['public']['Tables']['meals']['Row'] & {
   recipes: Database['public']['Tables']['recipes']['Row'] & {
@@ -14,12 +19,21 @@ type Meal = Database['public']['Tables']['meals']['Row'] & {
       }
     >
   }
+  meal_ingredients?: Array<
+    Database['public']['Tables']['meal_ingredients']['Row']
+  >
+  meal_portions?: Array<
+    Database['public']['Tables']['meal_portions']['Row']
+  >
 }
 
+const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
 interface CookingStep {
   id: string
   recipeId: string
   recipeName: string
+  prepSession: number
   order: number
   text: string
   timeSeconds?: number
@@ -28,6 +42,8 @@ interface CookingStep {
 
 interface CookingTimelineProps {
   meals: Meal[]
+  mealSlots: MealSlotConfig[]
+  prepDays: number[]
   completedSteps: Set<string>
   onMarkComplete: (stepId: string) => void
   onStartTimer: (step: CookingStep) => void
@@ -36,11 +52,19 @@ interface CookingTimelineProps {
 
 export default function CookingTimeline({ 
   meals, 
+  mealSlots,
+  prepDays,
   completedSteps, 
   onMarkComplete, 
   onStartTimer, 
   formatTime 
 }: CookingTimelineProps) {
+  // "Monday Lunch · 12:30"
+  const getSlotLabel = (meal: Meal) => {
+    const slot = mealSlots.find(slot => slot.name === meal.meal_slot) ?? { name: meal.meal_slot }
+    return `${DAYS[meal.day_of_week]} ${formatSlot(slot)}`
+  }
+
   const getStepsForMeal = (meal: Meal) => {
     if (!meal.recipes.steps || !Array.isArray(meal.recipes.steps)) return []
     
@@ -48,6 +72,7 @@ export default function CookingTimeline({
       id: `${meal.id}-${step.order}`,
       recipeId: meal.recipe_id,
       recipeName: meal.recipes.name,
+      prepSession: prepSessionFor(meal.day_of_week, prepDays) ?? 0,
       order: step.order,
       text: step.text,
       timeSeconds: step.time_s,
@@ -55,6 +80,26 @@ export default function CookingTimeline({
     }))
   }
 
+  // Meals cooked together in each prep session, in session order (meals are
+  // sorted by day, and a later day never belongs to an earlier session)
+  const sessions: Array<{ session: number | null; meals: Meal[] }> = []
+  meals.forEach(meal => {
+    const session = prepSessionFor(meal.day_of_week, prepDays)
+    const last = sessions[sessions.length - 1]
+    if (last && last.session === session) {
+      last.meals.push(meal)
+    } else {
+      sessions.push({ session, meals: [meal] })
+    }
+  })
+
+  // "Sunday (before the week) prep · Monday – Wednesday"
+  const getSessionLabel = (session: number, sessionMeals: Meal[]) => {
+    const first = DAYS[sessionMeals[0].day_of_week]
+    const last = DAYS[sessionMeals[sessionMeals.length - 1].day_of_week]
+    return `${formatPrepSession(session)} prep · ${first === last ? first : `${first} – ${last}`}`
+  }
+
   return (
     <div className="space-y-6">
       <div className="text-center mb-8">
@@ -64,100 +109,134 @@ export default function CookingTimeline({
         </p>
       </div>
 
-      {meals.map((meal) => {
-        const steps = getStepsForMeal(meal)
-        const completedCount = steps.filter(step => step.isCompleted).length
-        const progress = steps.length > 0 ? (completedCount / steps.length) * 100 : 0
+      {sessions.map(({ session, meals: sessionMeals }) => (
+        <div key={session ?? 'none'} className="space-y-6">
+          {session !== null && (
+            <h3 className="text-lg font-semibold">
+              {getSessionLabel(session, sessionMeals)}
+            </h3>
+          )}
+          {sessionMeals.map((meal) => {
+            const steps = getStepsForMeal(meal)
+            const completedCount = steps.filter(step => step.isCompleted).length
+            const progress = steps.length > 0 ? (completedCount / steps.length) * 100 : 0
 
-        return (
-          <Card key={meal.id} className="relative">
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle className="flex items-center gap-2">
-                  <ChefHat className="h-5 w-5" />
-                  {meal.recipes.name}
-                  {meal.servings > 1 && (
-                    <Badge variant="secondary">
-                      {meal.servings} servings
-                    </Badge>
-                  )}
-                </CardTitle>
-                <Badge variant={progress === 100 ? 'default' : 'secondary'}>
-                  {completedCount} / {steps.length} steps
-                </Badge>
-              </div>
-              <CardDescription>
-                {meal.recipes.skill_level && (
-                  <span className="capitalize">
-                    {meal.recipes.skill_level} level • {' '}
-                  </span>
-                )}
-                {steps.reduce((total, step) => total + (step.timeSeconds || 0), 0) > 0 && (
-                  <span>
-                    Total time: {formatTime(steps.reduce((total, step) => total + (step.timeSeconds || 0), 0))}
-                  </span>
-                )}
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {steps.map((step, stepIndex) => (
-                  <div
-                    key={step.id}
-                    className={`flex items-start gap-3 p-3 rounded-lg border transition-all ${
-                      step.isCompleted
-                        ? 'bg-green-50 border-green-200'
-                        : 'bg-white border-gray-200 hover:border-gray-300'
-                    }`}
-                  >
-                    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center text-sm font-medium">
-                      {step.isCompleted ? (
-                        <Check className="h-4 w-4 text-green-600" />
-                      ) : (
-                        stepIndex + 1
+            return (
+              <Card key={meal.id} className="relative">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      <ChefHat className="h-5 w-5" />
+                      {meal.recipes.name}
+                      {cookedServings(meal) !== 1 && (
+                        <Badge variant="secondary">
+                          {formatServings(cookedServings(meal))}
+                        </Badge>
+                      )}
+                      {meal.meal_portions && meal.meal_portions.length > 0 && (
+                        <Badge variant="outline" className="gap-1">
+                          <Users className="h-3 w-3" />
+                          {meal.meal_portions.length + 1} people
+                        </Badge>
                       )}
+                      {needsFreezing(meal.recipes, meal.day_of_week, prepDays) && (
+                        <Badge variant="outline" className="gap-1">
+                          <Snowflake className="h-3 w-3" />
+                          Freeze
+                        </Badge>
+                      )}
+                    </CardTitle>
+                    <Badge variant={progress === 100 ? 'default' : 'secondary'}>
+                      {completedCount} / {steps.length} steps
+                    </Badge>
+                  </div>
+                  <CardDescription>
+                    <span>
+                      {getSlotLabel(meal)} • {' '}
+                    </span>
+                    {meal.recipes.skill_level && (
+                      <span className="capitalize">
+                        {meal.recipes.skill_level} level • {' '}
+                      </span>
+                    )}
+                    {steps.reduce((total, step) => total + (step.timeSeconds || 0), 0) > 0 && (
+                      <span>
+                        Total time: {formatTime(steps.reduce((total, step) => total + (step.timeSeconds || 0), 0))}
+                      </span>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {meal.recipes.recipe_ingredients && meal.recipes.recipe_ingredients.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {meal.recipes.recipe_ingredients.map(ingredient => (
+                        <Badge key={ingredient.ingredient_id} variant="outline" className="text-xs">
+                          {Math.round(resolveIngredientQuantity(meal, ingredient) * cookedServings(meal) * 10) / 10}
+                          {ingredient.unit} {ingredient.ingredients.name}
+                        </Badge>
+                      ))}
                     </div>
+                  )}
+                  <div className="space-y-3">
+                    {steps.map((step, stepIndex) => (
+                      <div
+                        key={step.id}
+                        className={`flex items-start gap-3 p-3 rounded-lg border transition-all ${
+                          step.isCompleted
+                            ? 'bg-green-50 border-green-200'
+                            : 'bg-white border-gray-200 hover:border-gray-300'
+                        }`}
+                      >
+                        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center text-sm font-medium">
+                          {step.isCompleted ? (
+                            <Check className="h-4 w-4 text-green-600" />
+                          ) : (
+                            stepIndex + 1
+                          )}
+                        </div>
                     
-                    <div className="flex-1 min-w-0">
-                      <p className={`text-sm ${step.isCompleted ? 'line-through text-muted-foreground' : ''}`}>
-                        {step.text}
-                      </p>
-                      {step.timeSeconds && (
-                        <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
-                          <Clock className="h-3 w-3" />
-                          {formatTime(step.timeSeconds)}
+                        <div className="flex-1 min-w-0">
+                          <p className={`text-sm ${step.isCompleted ? 'line-through text-muted-foreground' : ''}`}>
+                            {step.text}
+                          </p>
+                          {step.timeSeconds && (
+                            <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+                              <Clock className="h-3 w-3" />
+                              {formatTime(step.timeSeconds)}
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
                     
-                    <div className="flex items-center gap-2">
-                      {step.timeSeconds && (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => onStartTimer(step)}
-                        >
-                          <Timer className="h-3 w-3 mr-1" />
-                          Timer
-                        </Button>
-                      )}
+                        <div className="flex items-center gap-2">
+                          {step.timeSeconds && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => onStartTimer(step)}
+                            >
+                              <Timer className="h-3 w-3 mr-1" />
+                              Timer
+                            </Button>
+                          )}
                       
-                      <Button
-                        size="sm"
-                        variant={step.isCompleted ? 'secondary' : 'default'}
-                        onClick={() => onMarkComplete(step.id)}
-                        disabled={step.isCompleted}
-                      >
-                        {step.isCompleted ? 'Done' : 'Complete'}
-                      </Button>
-                    </div>
+                          <Button
+                            size="sm"
+                            variant={step.isCompleted ? 'secondary' : 'default'}
+                            onClick={() => onMarkComplete(step.id)}
+                            disabled={step.isCompleted}
+                          >
+                            {step.isCompleted ? 'Done' : 'Complete'}
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        )
-      })}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      ))}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Edit, Timer } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { toast } from 'sonner'
+import { Database } from '@/lib/types/database'
+import { resolveCookTimeLimits } from '@/lib/cookTime'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+
+interface CookTimeLimitsProps {
+  userProfile: UserProfile | null
+}
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+export default function CookTimeLimits({ userProfile }: CookTimeLimitsProps) {
+  const savedLimits = resolveCookTimeLimits(userProfile?.cook_time_limits)
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  // Minutes as typed; empty means no limit
+  const [limits, setLimits] = useState(
+    savedLimits.map((limit) => limit?.toString() ?? '')
+  )
+
+  const supabase = createClient()
+
+  const parsedLimits = limits.map((limit) =>
+    limit.trim() === '' ? null : parseInt(limit)
+  )
+  const isValid = parsedLimits.every((limit) => limit === null || limit >= 0)
+
+  const handleSave = async () => {
+    setIsLoading(true)
+    try {
+      const { error } = await supabase
+        .from('users')
+        .update({ cook_time_limits: resolveCookTimeLimits(parsedLimits) })
+        .eq('id', userProfile?.id)
+
+      if (error) throw error
+
+      toast.success('Cooking time limits updated successfully!')
+      setIsOpen(false)
+      // Refresh the page to show updated values
+      window.location.reload()
+    } catch (error) {
+      console.error('Error updating cooking time limits:', error)
+      toast.error('Failed to update cooking time limits')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Cooking Time
+          </div>
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Update Cooking Time</DialogTitle>
+                <DialogDescription>
+                  The most minutes of cooking the planner may schedule on each
+                  day. Leave a day empty for no limit. With prep days, cooking
+                  counts on the prep day.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="grid grid-cols-7 gap-1">
+                  {DAYS.map((day, dayIndex) => (
+                    <div key={day} className="space-y-1 text-center">
+                      <div className="text-xs text-muted-foreground">{day}</div>
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="∞"
+                        className="px-1 text-center"
+                        value={limits[dayIndex]}
+                        onChange={(e) =>
+                          setLimits((prev) =>
+                            prev.map((limit, i) =>
+                              i === dayIndex ? e.target.value : limit
+                            )
+                          )
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <Button
+                  onClick={handleSave}
+                  disabled={isLoading || !isValid}
+                  className="w-full"
+                >
+                  {isLoading ? 'Saving...' : 'Save Cooking Time'}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </CardTitle>
+        <CardDescription>
+          Minutes of cooking the planner may schedule each day
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {DAYS.map((day, dayIndex) => (
+            <div key={day} className="space-y-1">
+              <div className="text-xs text-muted-foreground">{day}</div>
+              <Badge
+                variant={
+                  savedLimits[dayIndex] !== null ? 'default' : 'secondary'
+                }
+                className="w-full justify-center truncate px-1"
+              >
+                {savedLimits[dayIndex] !== null
+                  ? `${savedLimits[dayIndex]}m`
+                  : 'any'}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
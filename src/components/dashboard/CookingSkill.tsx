@@ -0,0 +1,175 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ChefHat, Edit } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { toast } from 'sonner'
+import { Database } from '@/lib/types/database'
+import { resolveSkillLevel, SKILL_LEVELS } from '@/lib/skillLevels'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+
+interface CookingSkillProps {
+  userProfile: UserProfile | null
+}
+
+const ANY_LEVEL = '__any'
+
+export default function CookingSkill({ userProfile }: CookingSkillProps) {
+  const savedLevel = resolveSkillLevel(userProfile?.skill_level)
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [skillLevel, setSkillLevel] = useState<string>(savedLevel ?? ANY_LEVEL)
+  const [stretchMeals, setStretchMeals] = useState(
+    userProfile?.stretch_meals ?? 0
+  )
+
+  const supabase = createClient()
+
+  const handleSave = async () => {
+    setIsLoading(true)
+    try {
+      const { error } = await supabase
+        .from('users')
+        .update({
+          skill_level: resolveSkillLevel(skillLevel),
+          stretch_meals: stretchMeals,
+        })
+        .eq('id', userProfile?.id)
+
+      if (error) throw error
+
+      toast.success('Cooking skill updated successfully!')
+      setIsOpen(false)
+      // Refresh the page to show updated values
+      window.location.reload()
+    } catch (error) {
+      console.error('Error updating cooking skill:', error)
+      toast.error('Failed to update cooking skill')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ChefHat className="h-5 w-5" />
+            Cooking Skill
+          </div>
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Update Cooking Skill</DialogTitle>
+                <DialogDescription>
+                  Plans only include recipes at or below your level, plus a few
+                  stretch meals one level above it if you&apos;d like a
+                  challenge.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label>Skill level</Label>
+                  <Select value={skillLevel} onValueChange={setSkillLevel}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_LEVEL}>Any recipe</SelectItem>
+                      {SKILL_LEVELS.map((level) => (
+                        <SelectItem
+                          key={level}
+                          value={level}
+                          className="capitalize"
+                        >
+                          {level}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="stretch_meals">Stretch meals per week</Label>
+                  <Input
+                    id="stretch_meals"
+                    type="number"
+                    min="0"
+                    value={stretchMeals}
+                    disabled={skillLevel === ANY_LEVEL}
+                    onChange={(e) =>
+                      setStretchMeals(
+                        Math.max(0, parseInt(e.target.value) || 0)
+                      )
+                    }
+                  />
+                </div>
+
+                <Button
+                  onClick={handleSave}
+                  disabled={isLoading}
+                  className="w-full"
+                >
+                  {isLoading ? 'Saving...' : 'Save Cooking Skill'}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </CardTitle>
+        <CardDescription>
+          Which recipes the planner thinks you&apos;re ready for
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="font-medium">Skill level</span>
+          <span className="text-muted-foreground capitalize">
+            {savedLevel ?? 'any recipe'}
+          </span>
+        </div>
+        {savedLevel && (
+          <div className="flex justify-between text-sm">
+            <span className="font-medium">Stretch meals</span>
+            <span className="text-muted-foreground">
+              {userProfile?.stretch_meals ?? 0} per week
+            </span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,315 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Dumbbell, Edit, Plus, Trash2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { toast } from 'sonner'
+import { Database } from '@/lib/types/database'
+import {
+  DayProfile,
+  resolveDaySchedule,
+  sanitizeDayProfiles,
+} from '@/lib/dayProfiles'
+import { resolveMacroSplit } from '@/lib/nutrition'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+
+interface DayProfilesProps {
+  userProfile: UserProfile | null
+}
+
+interface EditableProfile extends DayProfile {
+  name: string
+}
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+const BASE_TARGETS = '__base'
+
+export default function DayProfiles({ userProfile }: DayProfilesProps) {
+  const savedProfiles = sanitizeDayProfiles(userProfile?.day_profiles)
+  const savedSchedule = userProfile
+    ? resolveDaySchedule(userProfile)
+    : DAYS.map(() => null)
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [profiles, setProfiles] = useState<EditableProfile[]>(
+    Object.entries(savedProfiles).map(([name, profile]) => ({
+      name,
+      ...profile,
+    }))
+  )
+  const [schedule, setSchedule] = useState<Array<string | null>>(savedSchedule)
+
+  const supabase = createClient()
+
+  const addProfile = () => {
+    setProfiles((prev) => [
+      ...prev,
+      {
+        name: prev.length === 0 ? 'training' : `type ${prev.length + 1}`,
+        ...resolveMacroSplit(userProfile),
+      },
+    ])
+  }
+
+  const updateProfile = (index: number, changes: Partial<EditableProfile>) => {
+    const previousName = profiles[index].name.trim()
+    setProfiles((prev) =>
+      prev.map((profile, i) =>
+        i === index ? { ...profile, ...changes } : profile
+      )
+    )
+    // Keep scheduled days pointing at a renamed profile
+    if (changes.name !== undefined) {
+      setSchedule((prev) =>
+        prev.map((dayType) =>
+          dayType === previousName ? (changes.name ?? '').trim() : dayType
+        )
+      )
+    }
+  }
+
+  const removeProfile = (index: number) => {
+    const name = profiles[index].name.trim()
+    setProfiles((prev) => prev.filter((_, i) => i !== index))
+    setSchedule((prev) =>
+      prev.map((dayType) => (dayType === name ? null : dayType))
+    )
+  }
+
+  const names = profiles.map((profile) => profile.name.trim())
+  const isValid = profiles.every(
+    (profile, index) =>
+      names[index] !== '' &&
+      names.indexOf(names[index]) === index &&
+      profile.kcal_target > 0 &&
+      profile.protein_pct + profile.carb_pct + profile.fat_pct === 100
+  )
+
+  const handleSave = async () => {
+    setIsLoading(true)
+    try {
+      const dayProfiles = sanitizeDayProfiles(
+        Object.fromEntries(
+          profiles.map(({ name, ...profile }) => [name.trim(), profile])
+        )
+      )
+
+      const { error } = await supabase
+        .from('users')
+        .update({
+          day_profiles: dayProfiles,
+          day_schedule: schedule.map((dayType) =>
+            dayType && dayProfiles[dayType] ? dayType : null
+          ),
+        })
+        .eq('id', userProfile?.id)
+
+      if (error) throw error
+
+      toast.success('Day types updated successfully!')
+      setIsOpen(false)
+      // Refresh the page to show updated values
+      window.location.reload()
+    } catch (error) {
+      console.error('Error updating day types:', error)
+      toast.error('Failed to update day types')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Dumbbell className="h-5 w-5" />
+            Day Types
+          </div>
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Update Day Types</DialogTitle>
+                <DialogDescription>
+                  Give training and rest days their own calorie target and macro
+                  split, then pick which days they apply to.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                {profiles.map((profile, index) => (
+                  <div key={index} className="space-y-2 rounded-lg border p-3">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={profile.name}
+                        placeholder="Name"
+                        onChange={(e) =>
+                          updateProfile(index, { name: e.target.value })
+                        }
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeProfile(index)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-4 gap-2">
+                      {(
+                        [
+                          ['kcal_target', 'kcal'],
+                          ['protein_pct', 'Protein %'],
+                          ['carb_pct', 'Carbs %'],
+                          ['fat_pct', 'Fat %'],
+                        ] as const
+                      ).map(([field, label]) => (
+                        <div key={field}>
+                          <Label className="text-xs">{label}</Label>
+                          <Input
+                            type="number"
+                            value={profile[field]}
+                            onChange={(e) =>
+                              updateProfile(index, {
+                                [field]: parseInt(e.target.value) || 0,
+                              })
+                            }
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    {profile.protein_pct +
+                      profile.carb_pct +
+                      profile.fat_pct !==
+                      100 && (
+                      <p className="text-xs text-red-500">
+                        Split should equal 100%
+                      </p>
+                    )}
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={addProfile}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Day Type
+                </Button>
+
+                <div className="space-y-2">
+                  <Label>Weekly Schedule</Label>
+                  {DAYS.map((day, dayIndex) => (
+                    <div
+                      key={day}
+                      className="grid grid-cols-3 gap-2 items-center"
+                    >
+                      <span className="text-sm">{day}</span>
+                      <div className="col-span-2">
+                        <Select
+                          value={schedule[dayIndex] ?? BASE_TARGETS}
+                          onValueChange={(value) =>
+                            setSchedule((prev) =>
+                              prev.map((dayType, i) =>
+                                i === dayIndex
+                                  ? value === BASE_TARGETS
+                                    ? null
+                                    : value
+                                  : dayType
+                              )
+                            )
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={BASE_TARGETS}>
+                              Base targets
+                            </SelectItem>
+                            {names
+                              .filter((name) => name !== '')
+                              .map((name) => (
+                                <SelectItem key={name} value={name}>
+                                  {name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <Button
+                  onClick={handleSave}
+                  disabled={isLoading || !isValid}
+                  className="w-full"
+                >
+                  {isLoading ? 'Saving...' : 'Save Day Types'}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </CardTitle>
+        <CardDescription>
+          Calorie cycling between training and rest days
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {DAYS.map((day, dayIndex) => (
+            <div key={day} className="space-y-1">
+              <div className="text-xs text-muted-foreground">{day}</div>
+              <Badge
+                variant={savedSchedule[dayIndex] ? 'default' : 'secondary'}
+                className="w-full justify-center truncate px-1"
+              >
+                {savedSchedule[dayIndex] ?? 'base'}
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        {Object.entries(savedProfiles).map(([name, profile]) => (
+          <div key={name} className="flex justify-between text-sm">
+            <span className="font-medium">{name}</span>
+            <span className="text-muted-foreground">
+              {profile.kcal_target.toLocaleString('en-US')} kcal ·{' '}
+              {profile.protein_pct}/{profile.carb_pct}/{profile.fat_pct}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
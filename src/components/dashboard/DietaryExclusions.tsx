@@ -0,0 +1,224 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Edit, ShieldAlert } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { toast } from 'sonner'
+import { Database } from '@/lib/types/database'
+import {
+  Allergen,
+  ALLERGEN_LABELS,
+  ALLERGENS,
+  ALLERGY_PREFERENCE,
+  Diet,
+  DIET_LABELS,
+  DIET_PREFERENCE,
+  DIETS,
+  hasExclusions,
+  resolveDietaryExclusions,
+} from '@/lib/dietaryExclusions'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+type UserPreference = Database['public']['Tables']['user_preferences']['Row']
+
+interface DietaryExclusionsProps {
+  userProfile: UserProfile | null
+  preferences: UserPreference[]
+}
+
+export default function DietaryExclusions({
+  userProfile,
+  preferences,
+}: DietaryExclusionsProps) {
+  const saved = resolveDietaryExclusions(preferences)
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [allergens, setAllergens] = useState<Allergen[]>(saved.allergens)
+  const [diets, setDiets] = useState<Diet[]>(saved.diets)
+
+  const supabase = createClient()
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value)
+      ? values.filter((v) => v !== value)
+      : [...values, value]
+
+  const handleSave = async () => {
+    setIsLoading(true)
+    try {
+      const selected = [
+        ...allergens.map((value) => ({ type: ALLERGY_PREFERENCE, value })),
+        ...diets.map((value) => ({ type: DIET_PREFERENCE, value })),
+      ]
+      const isSelected = (preference: UserPreference) =>
+        selected.some(
+          (entry) =>
+            entry.type === preference.preference_type &&
+            entry.value === preference.preference_value
+        )
+
+      const removed = preferences
+        .filter(
+          (preference) =>
+            preference.source === 'user_input' &&
+            [ALLERGY_PREFERENCE, DIET_PREFERENCE].includes(
+              preference.preference_type
+            ) &&
+            !isSelected(preference)
+        )
+        .map((preference) => preference.id)
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('user_preferences')
+          .delete()
+          .in('id', removed)
+        if (error) throw error
+      }
+
+      // Entering one yourself overrides an inferred one
+      if (selected.length > 0) {
+        const { error } = await supabase.from('user_preferences').upsert(
+          selected.map((entry) => ({
+            user_id: userProfile?.id,
+            preference_type: entry.type,
+            preference_value: entry.value,
+            confidence_score: 1,
+            source: 'user_input',
+          })),
+          { onConflict: 'user_id,preference_type,preference_value' }
+        )
+        if (error) throw error
+      }
+
+      toast.success('Allergies and diets updated successfully!')
+      setIsOpen(false)
+      // Refresh the page to show updated values
+      window.location.reload()
+    } catch (error) {
+      console.error('Error updating allergies and diets:', error)
+      toast.error('Failed to update allergies and diets')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Allergies & Diets
+          </div>
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Update Allergies & Diets</DialogTitle>
+                <DialogDescription>
+                  Recipes with anything you&apos;re allergic to, or that
+                  don&apos;t fit your diet, are never planned.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label>Allergies</Label>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {ALLERGENS.map((allergen) => (
+                      <Badge
+                        key={allergen}
+                        variant={
+                          allergens.includes(allergen) ? 'default' : 'outline'
+                        }
+                        className="cursor-pointer"
+                        onClick={() =>
+                          setAllergens((prev) => toggle(prev, allergen))
+                        }
+                      >
+                        {ALLERGEN_LABELS[allergen]}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <Label>Diets</Label>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {DIETS.map((diet) => (
+                      <Badge
+                        key={diet}
+                        variant={diets.includes(diet) ? 'default' : 'outline'}
+                        className="cursor-pointer"
+                        onClick={() => setDiets((prev) => toggle(prev, diet))}
+                      >
+                        {DIET_LABELS[diet]}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Halal leaves out pork and alcohol.
+                  </p>
+                </div>
+
+                <Button
+                  onClick={handleSave}
+                  disabled={isLoading}
+                  className="w-full"
+                >
+                  {isLoading ? 'Saving...' : 'Save Allergies & Diets'}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </CardTitle>
+        <CardDescription>
+          Recipes that are never planned for you
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {hasExclusions(saved) ? (
+          <div className="flex flex-wrap gap-1">
+            {saved.allergens.map((allergen) => (
+              <Badge key={allergen} variant="secondary">
+                No {ALLERGEN_LABELS[allergen].toLowerCase()}
+              </Badge>
+            ))}
+            {saved.diets.map((diet) => (
+              <Badge key={diet} variant="secondary">
+                {DIET_LABELS[diet]}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No allergies or diets. Every recipe can be planned.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
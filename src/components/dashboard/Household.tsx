@@ -0,0 +1,334 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Edit, Plus, Trash2, Users } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { toast } from 'sonner'
+import { Database } from '@/lib/types/database'
+import { resolveMealSlots } from '@/lib/mealSlots'
+import { DEFAULT_MACRO_SPLIT } from '@/lib/nutrition'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+type HouseholdMember = Database['public']['Tables']['household_members']['Row']
+// A member being edited; new ones don't have an id yet
+type MemberDraft = Pick<
+  HouseholdMember,
+  'name' | 'kcal_target' | 'protein_pct' | 'carb_pct' | 'fat_pct'
+> & { id?: string; shared_slots: string[] }
+
+interface HouseholdProps {
+  userProfile: UserProfile | null
+  household: HouseholdMember[]
+}
+
+const toDraft = (member: HouseholdMember): MemberDraft => ({
+  id: member.id,
+  name: member.name,
+  kcal_target: member.kcal_target,
+  protein_pct: member.protein_pct,
+  carb_pct: member.carb_pct,
+  fat_pct: member.fat_pct,
+  shared_slots: member.shared_slots,
+})
+
+export default function Household({ userProfile, household }: HouseholdProps) {
+  const mealSlots = resolveMealSlots(userProfile?.meal_slots)
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [members, setMembers] = useState<MemberDraft[]>(household.map(toDraft))
+
+  const supabase = createClient()
+
+  const updateMember = (index: number, changes: Partial<MemberDraft>) => {
+    setMembers((prev) =>
+      prev.map((member, i) =>
+        i === index ? { ...member, ...changes } : member
+      )
+    )
+  }
+
+  const toggleSlot = (index: number, slot: string) => {
+    const slots = members[index].shared_slots
+    updateMember(index, {
+      shared_slots: slots.includes(slot)
+        ? slots.filter((s) => s !== slot)
+        : [...slots, slot],
+    })
+  }
+
+  const splitTotal = (member: MemberDraft) =>
+    member.protein_pct + member.carb_pct + member.fat_pct
+
+  const isValid = members.every(
+    (member) =>
+      member.name.trim() !== '' &&
+      member.kcal_target > 0 &&
+      splitTotal(member) === 100 &&
+      member.shared_slots.length > 0
+  )
+
+  const handleSave = async () => {
+    setIsLoading(true)
+    try {
+      const kept = new Set(members.map((member) => member.id))
+      const removed = household
+        .filter((member) => !kept.has(member.id))
+        .map((member) => member.id)
+      const toRow = (member: MemberDraft) => ({
+        user_id: userProfile?.id,
+        name: member.name.trim(),
+        kcal_target: member.kcal_target,
+        protein_pct: member.protein_pct,
+        carb_pct: member.carb_pct,
+        fat_pct: member.fat_pct,
+        shared_slots: member.shared_slots,
+      })
+
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('household_members')
+          .delete()
+          .in('id', removed)
+        if (error) throw error
+      }
+
+      const existing = members.filter((member) => member.id)
+      if (existing.length > 0) {
+        const { error } = await supabase
+          .from('household_members')
+          .upsert(
+            existing.map((member) => ({ id: member.id, ...toRow(member) }))
+          )
+        if (error) throw error
+      }
+
+      const added = members.filter((member) => !member.id)
+      if (added.length > 0) {
+        const { error } = await supabase
+          .from('household_members')
+          .insert(added.map(toRow))
+        if (error) throw error
+      }
+
+      toast.success('Household updated successfully!')
+      setIsOpen(false)
+      // Refresh the page to show updated values
+      window.location.reload()
+    } catch (error) {
+      console.error('Error updating household:', error)
+      toast.error('Failed to update household')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Household
+          </div>
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Update Household</DialogTitle>
+                <DialogDescription>
+                  Who eats with you, and which meals. Shared meals are cooked
+                  once and split so everyone gets their share of their own
+                  targets.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                {members.map((member, index) => (
+                  <div
+                    key={member.id ?? `new-${index}`}
+                    className="space-y-2 rounded-lg border p-3"
+                  >
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={member.name}
+                        placeholder="Name"
+                        onChange={(e) =>
+                          updateMember(index, { name: e.target.value })
+                        }
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setMembers((prev) =>
+                            prev.filter((_, i) => i !== index)
+                          )
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-4 gap-2">
+                      <div>
+                        <Label className="text-xs">Calories</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={member.kcal_target}
+                          onChange={(e) =>
+                            updateMember(index, {
+                              kcal_target: parseInt(e.target.value) || 0,
+                            })
+                          }
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Protein %</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={member.protein_pct}
+                          onChange={(e) =>
+                            updateMember(index, {
+                              protein_pct: parseInt(e.target.value) || 0,
+                            })
+                          }
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Carbs %</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={member.carb_pct}
+                          onChange={(e) =>
+                            updateMember(index, {
+                              carb_pct: parseInt(e.target.value) || 0,
+                            })
+                          }
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Fat %</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={member.fat_pct}
+                          onChange={(e) =>
+                            updateMember(index, {
+                              fat_pct: parseInt(e.target.value) || 0,
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+                    {splitTotal(member) !== 100 && (
+                      <p className="text-xs text-red-500">
+                        Split adds up to {splitTotal(member)}%, should equal
+                        100%
+                      </p>
+                    )}
+                    <div>
+                      <Label className="text-xs">Eats with you at</Label>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {mealSlots.map((slot) => (
+                          <Badge
+                            key={slot.name}
+                            variant={
+                              member.shared_slots.includes(slot.name)
+                                ? 'default'
+                                : 'outline'
+                            }
+                            className="cursor-pointer capitalize"
+                            onClick={() => toggleSlot(index, slot.name)}
+                          >
+                            {slot.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setMembers((prev) => [
+                      ...prev,
+                      {
+                        name: '',
+                        ...DEFAULT_MACRO_SPLIT,
+                        shared_slots: mealSlots.some(
+                          (slot) => slot.name === 'dinner'
+                        )
+                          ? ['dinner']
+                          : [],
+                      },
+                    ])
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Member
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={isLoading || !isValid}
+                  className="w-full"
+                >
+                  {isLoading ? 'Saving...' : 'Save Household'}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </CardTitle>
+        <CardDescription>
+          Others you cook for, each with their own targets
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {household.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Just you. Add members to split shared meals between you.
+          </p>
+        ) : (
+          household.map((member) => (
+            <div key={member.id} className="flex justify-between text-sm">
+              <span className="font-medium">{member.name}</span>
+              <span className="text-muted-foreground">
+                {member.kcal_target.toLocaleString('en-US')} kcal ·{' '}
+                {member.shared_slots.join(', ')}
+              </span>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
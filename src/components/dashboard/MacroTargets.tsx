@@ -23,6 +23,13 @@ import { Target, Edit } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { toast } from 'sonner'
 import { Database } from '@/lib/types/database'
+import {
+  nutrientInfo,
+  NUTRIENTS,
+  sanitizeNutrientTargets,
+} from '@/lib/nutrients'
+import { NutrientBound } from '@/lib/planner/types'
+import { calculateDailyTargets, resolveMacroSplit } from '@/lib/nutrition'
 
 type UserProfile = Database['public']['Tables']['users']['Row']
 
@@ -33,12 +40,15 @@ interface MacroTargetsProps {
 export default function MacroTargets({ userProfile }: MacroTargetsProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const [targets, setTargets] = useState({
-    kcal_target: userProfile?.kcal_target || 2000,
-    protein_pct: userProfile?.protein_pct || 30,
-    carb_pct: userProfile?.carb_pct || 40,
-    fat_pct: userProfile?.fat_pct || 30,
-  })
+  const savedSplit = resolveMacroSplit(userProfile)
+  const [targets, setTargets] = useState(savedSplit)
+  const [nutrientTargets, setNutrientTargets] = useState<
+    Record<string, NutrientBound>
+  >(sanitizeNutrientTargets(userProfile?.nutrient_targets))
+
+  const savedNutrientTargets = Object.entries(
+    sanitizeNutrientTargets(userProfile?.nutrient_targets)
+  )
 
   const supabase = createClient()
 
@@ -47,7 +57,10 @@ export default function MacroTargets({ userProfile }: MacroTargetsProps) {
     try {
       const { error } = await supabase
         .from('users')
-        .update(targets)
+        .update({
+          ...targets,
+          nutrient_targets: sanitizeNutrientTargets(nutrientTargets),
+        })
         .eq('id', userProfile?.id)
 
       if (error) throw error
@@ -64,13 +77,36 @@ export default function MacroTargets({ userProfile }: MacroTargetsProps) {
     }
   }
 
-  const proteinGrams = Math.round(
-    (targets.kcal_target * targets.protein_pct) / 100 / 4
-  )
-  const carbGrams = Math.round(
-    (targets.kcal_target * targets.carb_pct) / 100 / 4
-  )
-  const fatGrams = Math.round((targets.kcal_target * targets.fat_pct) / 100 / 9)
+  // Empty inputs clear the limit
+  const updateNutrientBound = (
+    key: string,
+    side: keyof NutrientBound,
+    value: string
+  ) => {
+    setNutrientTargets((prev) => ({
+      ...prev,
+      [key]: {
+        ...prev[key],
+        [side]: value === '' ? undefined : parseFloat(value) || 0,
+      },
+    }))
+  }
+
+  const formatBound = (bound: NutrientBound, unit: string) => {
+    if (bound.min !== undefined && bound.max !== undefined) {
+      return `${bound.min}–${bound.max}${unit}`
+    }
+    return bound.min !== undefined
+      ? `≥ ${bound.min}${unit}`
+      : `≤ ${bound.max}${unit}`
+  }
+
+  const {
+    protein: proteinGrams,
+    carbs: carbGrams,
+    fat: fatGrams,
+  } = calculateDailyTargets(targets)
+  const saved = calculateDailyTargets(savedSplit)
 
   return (
     <Card>
@@ -87,7 +123,7 @@ export default function MacroTargets({ userProfile }: MacroTargetsProps) {
                 Edit
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Update Macro Targets</DialogTitle>
                 <DialogDescription>
@@ -177,6 +213,49 @@ export default function MacroTargets({ userProfile }: MacroTargetsProps) {
                     <span className="text-red-500 ml-2">Should equal 100%</span>
                   )}
                 </div>
+                <div className="space-y-2">
+                  <Label>Daily Nutrient Limits (optional)</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Leave blank for no limit. The planner keeps each day within
+                    these where the pantry allows.
+                  </p>
+                  {NUTRIENTS.map((nutrient) => (
+                    <div
+                      key={nutrient.key}
+                      className="grid grid-cols-3 gap-2 items-center"
+                    >
+                      <span className="text-sm">
+                        {nutrient.label} ({nutrient.unit})
+                      </span>
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="Min"
+                        value={nutrientTargets[nutrient.key]?.min ?? ''}
+                        onChange={(e) =>
+                          updateNutrientBound(
+                            nutrient.key,
+                            'min',
+                            e.target.value
+                          )
+                        }
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="Max"
+                        value={nutrientTargets[nutrient.key]?.max ?? ''}
+                        onChange={(e) =>
+                          updateNutrientBound(
+                            nutrient.key,
+                            'max',
+                            e.target.value
+                          )
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
                 <Button
                   onClick={handleSave}
                   disabled={
@@ -197,7 +276,7 @@ export default function MacroTargets({ userProfile }: MacroTargetsProps) {
       <CardContent className="space-y-4">
         <div className="text-center">
           <div className="text-3xl font-bold">
-            {userProfile?.kcal_target?.toLocaleString('en-US') || '2,000'}
+            {saved.calories.toLocaleString('en-US')}
           </div>
           <div className="text-sm text-muted-foreground">calories per day</div>
         </div>
@@ -205,52 +284,48 @@ export default function MacroTargets({ userProfile }: MacroTargetsProps) {
         <div className="grid grid-cols-3 gap-4 text-center">
           <div className="p-3 bg-green-50 rounded-lg">
             <div className="text-lg font-semibold text-green-700">
-              {Math.round(
-                ((userProfile?.kcal_target || 2000) *
-                  (userProfile?.protein_pct || 30)) /
-                  100 /
-                  4
-              )}
-              g
+              {saved.protein}g
             </div>
             <div className="text-sm text-green-600">Protein</div>
             <div className="text-xs text-muted-foreground">
-              {userProfile?.protein_pct || 30}%
+              {savedSplit.protein_pct}%
             </div>
           </div>
 
           <div className="p-3 bg-blue-50 rounded-lg">
             <div className="text-lg font-semibold text-blue-700">
-              {Math.round(
-                ((userProfile?.kcal_target || 2000) *
-                  (userProfile?.carb_pct || 40)) /
-                  100 /
-                  4
-              )}
-              g
+              {saved.carbs}g
             </div>
             <div className="text-sm text-blue-600">Carbs</div>
             <div className="text-xs text-muted-foreground">
-              {userProfile?.carb_pct || 40}%
+              {savedSplit.carb_pct}%
             </div>
           </div>
 
           <div className="p-3 bg-orange-50 rounded-lg">
             <div className="text-lg font-semibold text-orange-700">
-              {Math.round(
-                ((userProfile?.kcal_target || 2000) *
-                  (userProfile?.fat_pct || 30)) /
-                  100 /
-                  9
-              )}
-              g
+              {saved.fat}g
             </div>
             <div className="text-sm text-orange-600">Fat</div>
             <div className="text-xs text-muted-foreground">
-              {userProfile?.fat_pct || 30}%
+              {savedSplit.fat_pct}%
             </div>
           </div>
         </div>
+
+        {savedNutrientTargets.length > 0 && (
+          <div className="space-y-1 text-sm">
+            {savedNutrientTargets.map(([key, bound]) => {
+              const info = nutrientInfo(key)
+              return (
+                <div key={key} className="flex justify-between">
+                  <span className="text-muted-foreground">{info.label}</span>
+                  <span>{formatBound(bound, info.unit)}</span>
+                </div>
+              )
+            })}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
@@ -0,0 +1,268 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { ArrowDown, ArrowUp, Clock, Edit, Plus, Trash2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { toast } from 'sonner'
+import { Database } from '@/lib/types/database'
+import {
+  formatSlot,
+  MealSlotConfig,
+  RECIPE_MEAL_TYPES,
+  resolveMealSlots,
+  slotRecipeTypes,
+} from '@/lib/mealSlots'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+
+interface MealSlotsProps {
+  userProfile: UserProfile | null
+}
+
+export default function MealSlots({ userProfile }: MealSlotsProps) {
+  const savedSlots = resolveMealSlots(userProfile?.meal_slots)
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [slots, setSlots] = useState<MealSlotConfig[]>(savedSlots)
+
+  const supabase = createClient()
+
+  const updateSlot = (index: number, changes: Partial<MealSlotConfig>) => {
+    setSlots((prev) =>
+      prev.map((slot, i) => (i === index ? { ...slot, ...changes } : slot))
+    )
+  }
+
+  const moveSlot = (index: number, offset: number) => {
+    setSlots((prev) => {
+      const next = [...prev]
+      const [slot] = next.splice(index, 1)
+      next.splice(index + offset, 0, slot)
+      return next
+    })
+  }
+
+  const toggleRecipeType = (index: number, type: string) => {
+    const types = slotRecipeTypes(slots[index])
+    const next = types.includes(type)
+      ? types.filter((t) => t !== type)
+      : [...types, type]
+    updateSlot(index, { recipe_types: next })
+  }
+
+  const names = slots.map((slot) => slot.name.trim())
+  const totalCaloriePct = slots.reduce(
+    (sum, slot) => sum + (slot.calorie_pct ?? 0),
+    0
+  )
+  const isValid =
+    slots.length > 0 &&
+    totalCaloriePct <= 100 &&
+    slots.every(
+      (slot, index) =>
+        names[index] !== '' &&
+        names.indexOf(names[index]) === index &&
+        slotRecipeTypes(slot).length > 0
+    )
+
+  const handleSave = async () => {
+    setIsLoading(true)
+    try {
+      const { error } = await supabase
+        .from('users')
+        .update({ meal_slots: resolveMealSlots(slots) })
+        .eq('id', userProfile?.id)
+
+      if (error) throw error
+
+      toast.success('Meal slots updated successfully!')
+      setIsOpen(false)
+      // Refresh the page to show updated values
+      window.location.reload()
+    } catch (error) {
+      console.error('Error updating meal slots:', error)
+      toast.error('Failed to update meal slots')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Meal Slots
+          </div>
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Update Meal Slots</DialogTitle>
+                <DialogDescription>
+                  The meals you eat each day, in order. A share of daily
+                  calories is optional; the planner aims each slot at it.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                {slots.map((slot, index) => (
+                  <div key={index} className="space-y-2 rounded-lg border p-3">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={slot.name}
+                        placeholder="Name"
+                        onChange={(e) =>
+                          updateSlot(index, { name: e.target.value })
+                        }
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === 0}
+                        onClick={() => moveSlot(index, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === slots.length - 1}
+                        onClick={() => moveSlot(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setSlots((prev) => prev.filter((_, i) => i !== index))
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label className="text-xs">Time</Label>
+                        <Input
+                          type="time"
+                          value={slot.time ?? ''}
+                          onChange={(e) =>
+                            updateSlot(index, {
+                              time: e.target.value || undefined,
+                            })
+                          }
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">% of daily calories</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          placeholder="Any"
+                          value={slot.calorie_pct ?? ''}
+                          onChange={(e) =>
+                            updateSlot(index, {
+                              calorie_pct:
+                                parseInt(e.target.value) || undefined,
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <Label className="text-xs">Recipes for</Label>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {RECIPE_MEAL_TYPES.map((type) => (
+                          <Badge
+                            key={type}
+                            variant={
+                              slotRecipeTypes(slot).includes(type)
+                                ? 'default'
+                                : 'outline'
+                            }
+                            className="cursor-pointer capitalize"
+                            onClick={() => toggleRecipeType(index, type)}
+                          >
+                            {type}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setSlots((prev) => [
+                      ...prev,
+                      { name: '', recipe_types: ['snack'] },
+                    ])
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Slot
+                </Button>
+                {totalCaloriePct > 100 && (
+                  <p className="text-sm text-red-500">
+                    Calorie shares add up to {totalCaloriePct}%
+                  </p>
+                )}
+                <Button
+                  onClick={handleSave}
+                  disabled={isLoading || !isValid}
+                  className="w-full"
+                >
+                  {isLoading ? 'Saving...' : 'Save Meal Slots'}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </CardTitle>
+        <CardDescription>
+          When you eat, and how the day&apos;s calories are split
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {savedSlots.map((slot) => (
+          <div key={slot.name} className="flex justify-between text-sm">
+            <span className="font-medium">{formatSlot(slot)}</span>
+            <span className="text-muted-foreground">
+              {slot.calorie_pct
+                ? `${slot.calorie_pct}% of calories`
+                : 'flexible'}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
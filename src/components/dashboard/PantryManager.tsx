@@ -14,12 +14,39 @@ import { Plus, Package, MoreVertical, Edit, Trash2 } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { toast } from 'sonner'
 import { Database } from '@/lib/types/database'
+import { compatibleUnits, normalizeUnit, toIngredientUnit } from '@/lib/units'
+import { daysBetween } from '@/lib/pantryExpiry'
 
 type PantryItem = Database['public']['Tables']['pantry_items']['Row'] & {
   ingredients: Database['public']['Tables']['ingredients']['Row']
 }
 type Ingredient = Database['public']['Tables']['ingredients']['Row']
 
+const UNIT_LABELS: Record<string, string> = {
+  mg: 'milligrams',
+  g: 'grams',
+  kg: 'kilograms',
+  oz: 'ounces',
+  lb: 'pounds',
+  ml: 'milliliters',
+  l: 'liters',
+  tsp: 'teaspoons',
+  tbsp: 'tablespoons',
+  'fl oz': 'fluid ounces',
+  cup: 'cups',
+  piece: 'pieces',
+  slice: 'slices',
+  scoop: 'scoops',
+}
+
+// Only offer units the planner can convert into the ingredient's own unit
+const unitOptions = (ingredient?: Ingredient) => {
+  if (!ingredient) return []
+  const units = compatibleUnits(ingredient)
+  const own = normalizeUnit(ingredient.unit)
+  return units.includes(own) ? units : [own, ...units]
+}
+
 interface PantryManagerProps {
   pantryItems: PantryItem[]
   ingredients: Ingredient[]
@@ -34,12 +61,13 @@ export default function PantryManager({ pantryItems, ingredients, onPantryUpdate
     ingredient_id: '',
     quantity: '',
     unit: '',
+    expires_on: '',
   })
 
   const supabase = createClient()
 
   const resetForm = () => {
-    setFormData({ ingredient_id: '', quantity: '', unit: '' })
+    setFormData({ ingredient_id: '', quantity: '', unit: '', expires_on: '' })
     setEditingItem(null)
   }
 
@@ -61,6 +89,7 @@ export default function PantryManager({ pantryItems, ingredients, onPantryUpdate
           ingredient_id: formData.ingredient_id,
           quantity: parseFloat(formData.quantity),
           unit: formData.unit,
+          expires_on: formData.expires_on || null,
         })
 
       if (error) throw error
@@ -99,6 +128,7 @@ export default function PantryManager({ pantryItems, ingredients, onPantryUpdate
         .update({
           quantity: parseFloat(formData.quantity),
           unit: formData.unit,
+          expires_on: formData.expires_on || null,
         })
         .eq('user_id', editingItem.user_id)
         .eq('ingredient_id', editingItem.ingredient_id)
@@ -108,7 +138,7 @@ export default function PantryManager({ pantryItems, ingredients, onPantryUpdate
       // Update local state
       const updatedItems = pantryItems.map(item =>
         item.ingredient_id === editingItem.ingredient_id
-          ? { ...item, quantity: parseFloat(formData.quantity), unit: formData.unit }
+          ? { ...item, quantity: parseFloat(formData.quantity), unit: formData.unit, expires_on: formData.expires_on || null }
           : item
       )
       onPantryUpdate(updatedItems)
@@ -143,15 +173,39 @@ export default function PantryManager({ pantryItems, ingredients, onPantryUpdate
     }
   }
 
+  // Stock in the ingredient's own unit, as the planner sees it
+  const formatBaseQuantity = (item: PantryItem) => {
+    const quantity = toIngredientUnit(item.quantity, item.unit, item.ingredients)
+    if (quantity === null) return `can't convert to ${item.ingredients.unit}`
+    return `${Math.round(quantity * 10) / 10} ${item.ingredients.unit}`
+  }
+
   const openEditDialog = (item: PantryItem) => {
     setEditingItem(item)
     setFormData({
       ingredient_id: item.ingredient_id,
       quantity: item.quantity.toString(),
       unit: item.unit,
+      expires_on: item.expires_on ?? '',
     })
   }
 
+  const today = new Date().toISOString().split('T')[0]
+
+  // Expired items in red, ones going off within three days in amber
+  const expiryBadge = (expiresOn: string) => {
+    const daysLeft = daysBetween(today, expiresOn)
+    const label = new Date(expiresOn).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+    if (daysLeft < 0) {
+      return <Badge variant="destructive" className="text-xs">Expired {label}</Badge>
+    }
+    return (
+      <Badge variant="outline" className={`text-xs ${daysLeft <= 3 ? 'border-amber-500 text-amber-700' : ''}`}>
+        {label}
+      </Badge>
+    )
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -177,7 +231,7 @@ export default function PantryManager({ pantryItems, ingredients, onPantryUpdate
               <div className="space-y-4">
                 <div>
                   <Label htmlFor="ingredient">Ingredient</Label>
-                  <Select value={formData.ingredient_id} onValueChange={(value) => setFormData(prev => ({ ...prev, ingredient_id: value }))}>
+                  <Select value={formData.ingredient_id} onValueChange={(value) => setFormData(prev => ({ ...prev, ingredient_id: value, unit: ingredients.find(ing => ing.id === value)?.unit ?? '' }))}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select an ingredient" />
                     </SelectTrigger>
@@ -210,18 +264,24 @@ export default function PantryManager({ pantryItems, ingredients, onPantryUpdate
                         <SelectValue placeholder="Select unit" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="g">grams</SelectItem>
-                        <SelectItem value="kg">kilograms</SelectItem>
-                        <SelectItem value="ml">milliliters</SelectItem>
-                        <SelectItem value="l">liters</SelectItem>
-                        <SelectItem value="piece">pieces</SelectItem>
-                        <SelectItem value="cup">cups</SelectItem>
-                        <SelectItem value="tbsp">tablespoons</SelectItem>
-                        <SelectItem value="tsp">teaspoons</SelectItem>
+                        {unitOptions(ingredients.find(ing => ing.id === formData.ingredient_id)).map((unit) => (
+                          <SelectItem key={unit} value={unit}>
+                            {UNIT_LABELS[unit] ?? unit}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
                 </div>
+                <div>
+                  <Label htmlFor="expires_on">Expires on (optional)</Label>
+                  <Input
+                    id="expires_on"
+                    type="date"
+                    value={formData.expires_on}
+                    onChange={(e) => setFormData(prev => ({ ...prev, expires_on: e.target.value }))}
+                  />
+                </div>
                 <Button onClick={handleAdd} disabled={isLoading} className="w-full">
                   {isLoading ? 'Adding...' : 'Add to Pantry'}
                 </Button>
@@ -246,6 +306,7 @@ export default function PantryManager({ pantryItems, ingredients, onPantryUpdate
               <TableRow>
                 <TableHead>Ingredient</TableHead>
                 <TableHead>Quantity</TableHead>
+                <TableHead>Expires</TableHead>
                 <TableHead>Nutrition (per 100g)</TableHead>
                 <TableHead className="w-[50px]"></TableHead>
               </TableRow>
@@ -258,6 +319,16 @@ export default function PantryManager({ pantryItems, ingredients, onPantryUpdate
                   </TableCell>
                   <TableCell>
                     {item.quantity} {item.unit}
+                    {normalizeUnit(item.unit) !== normalizeUnit(item.ingredients.unit) && (
+                      <span className="text-sm text-muted-foreground">
+                        {' '}({formatBaseQuantity(item)})
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {item.expires_on ? expiryBadge(item.expires_on) : (
+                      <span className="text-sm text-muted-foreground">—</span>
+                    )}
                   </TableCell>
                   <TableCell>
                     <div className="flex gap-2">
@@ -309,7 +380,7 @@ export default function PantryManager({ pantryItems, ingredients, onPantryUpdate
             <DialogHeader>
               <DialogTitle>Edit Pantry Item</DialogTitle>
               <DialogDescription>
-                Update the quantity and unit for {editingItem?.ingredients.name}.
+                Update the quantity, unit and expiry date for {editingItem?.ingredients.name}.
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
@@ -331,18 +402,24 @@ export default function PantryManager({ pantryItems, ingredients, onPantryUpdate
                       <SelectValue placeholder="Select unit" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="g">grams</SelectItem>
-                      <SelectItem value="kg">kilograms</SelectItem>
-                      <SelectItem value="ml">milliliters</SelectItem>
-                      <SelectItem value="l">liters</SelectItem>
-                      <SelectItem value="piece">pieces</SelectItem>
-                      <SelectItem value="cup">cups</SelectItem>
-                      <SelectItem value="tbsp">tablespoons</SelectItem>
-                      <SelectItem value="tsp">teaspoons</SelectItem>
+                      {unitOptions(editingItem?.ingredients).map((unit) => (
+                        <SelectItem key={unit} value={unit}>
+                          {UNIT_LABELS[unit] ?? unit}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
               </div>
+              <div>
+                <Label htmlFor="edit-expires_on">Expires on (optional)</Label>
+                <Input
+                  id="edit-expires_on"
+                  type="date"
+                  value={formData.expires_on}
+                  onChange={(e) => setFormData(prev => ({ ...prev, expires_on: e.target.value }))}
+                />
+              </div>
               <div className="flex gap-2">
                 <Button onClick={handleEdit} disabled={isLoading} className="flex-1">
                   {isLoading ? 'Updating...' : 'Update Item'}
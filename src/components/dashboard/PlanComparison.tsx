@@ -0,0 +1,170 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { PlanAlternative, PlanProposal, PlanScore } from '@/lib/macroTetris'
+import { PLAN_OBJECTIVE_LABELS } from '@/lib/planObjectives'
+import { formatCookTime } from '@/lib/cookTime'
+import { formatPrice } from '@/lib/prices'
+
+interface PlanComparisonProps {
+  alternatives: PlanAlternative[] | null // open while there are some
+  replacesCurrentPlan: boolean
+  isSaving: boolean
+  onChoose: (proposal: PlanProposal) => void
+  onClose: () => void
+}
+
+// Score rows, each with which way is better
+const SCORE_ROWS: Array<{
+  key: keyof PlanScore
+  label: string
+  better: 'higher' | 'lower'
+  format: (value: number) => string
+}> = [
+  {
+    key: 'macroAccuracy',
+    label: 'Macro accuracy',
+    better: 'higher',
+    format: (value) => `${value}%`,
+  },
+  {
+    key: 'shoppingCost',
+    label: 'Shopping',
+    better: 'lower',
+    format: (value) => (value > 0 ? `~${formatPrice(value)}` : 'Nothing'),
+  },
+  {
+    key: 'cookTime',
+    label: 'Cooking',
+    better: 'lower',
+    format: (value) => formatCookTime(value),
+  },
+  {
+    key: 'pantryUse',
+    label: 'Pantry used',
+    better: 'higher',
+    format: (value) => `${value}%`,
+  },
+]
+
+export default function PlanComparison({
+  alternatives,
+  replacesCurrentPlan,
+  isSaving,
+  onChoose,
+  onClose,
+}: PlanComparisonProps) {
+  const best = (key: keyof PlanScore, better: 'higher' | 'lower') => {
+    const values = (alternatives ?? []).map(
+      (alternative) => alternative.proposal.score[key]
+    )
+    return better === 'higher' ? Math.max(...values) : Math.min(...values)
+  }
+
+  return (
+    <Dialog
+      open={alternatives !== null}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Compare plans</DialogTitle>
+          <DialogDescription>
+            The same week planned for different goals.{' '}
+            {replacesCurrentPlan
+              ? 'The plan you choose replaces your current plan for this week.'
+              : 'Choose one to use it for this week.'}
+          </DialogDescription>
+        </DialogHeader>
+        {alternatives && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead></TableHead>
+                {alternatives.map((alternative) => (
+                  <TableHead key={alternative.proposal.objective}>
+                    <div className="flex flex-col items-start gap-1 py-2">
+                      {alternative.objectives.map((objective) => (
+                        <Badge key={objective} variant="secondary">
+                          {PLAN_OBJECTIVE_LABELS[objective]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {SCORE_ROWS.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  {alternatives.map((alternative) => {
+                    const value = alternative.proposal.score[row.key]
+                    return (
+                      <TableCell
+                        key={alternative.proposal.objective}
+                        className={
+                          alternatives.length > 1 &&
+                          value === best(row.key, row.better)
+                            ? 'font-semibold text-green-700'
+                            : undefined
+                        }
+                      >
+                        {row.format(value)}
+                      </TableCell>
+                    )
+                  })}
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell className="font-medium">Meals</TableCell>
+                {alternatives.map((alternative) => (
+                  <TableCell key={alternative.proposal.objective}>
+                    {alternative.proposal.meals.length}
+                    {alternative.proposal.missingIngredients.length > 0 && (
+                      <span className="text-muted-foreground">
+                        {' '}
+                        · {alternative.proposal.missingIngredients.length} to
+                        buy
+                      </span>
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell></TableCell>
+                {alternatives.map((alternative) => (
+                  <TableCell key={alternative.proposal.objective}>
+                    <Button
+                      size="sm"
+                      onClick={() => onChoose(alternative.proposal)}
+                      disabled={isSaving}
+                    >
+                      Use this plan
+                    </Button>
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
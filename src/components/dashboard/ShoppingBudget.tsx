@@ -0,0 +1,371 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { DollarSign, Edit, Plus, Trash2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { toast } from 'sonner'
+import { Database } from '@/lib/types/database'
+import { compatibleUnits, normalizeUnit } from '@/lib/units'
+import { formatPrice, IngredientPrice, unitPrice } from '@/lib/prices'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+type Ingredient = Database['public']['Tables']['ingredients']['Row']
+
+interface ShoppingBudgetProps {
+  userProfile: UserProfile | null
+  ingredients: Ingredient[]
+  prices: IngredientPrice[] // shared prices and the user's own
+}
+
+const emptyPrice = {
+  ingredient_id: '',
+  price: '',
+  quantity: '',
+  unit: '',
+  store: '',
+}
+
+export default function ShoppingBudget({
+  userProfile,
+  ingredients,
+  prices,
+}: ShoppingBudgetProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [budget, setBudget] = useState(
+    userProfile?.weekly_budget?.toString() ?? ''
+  )
+  const [newPrice, setNewPrice] = useState(emptyPrice)
+
+  const supabase = createClient()
+
+  const ownPrices = prices.filter((price) => price.user_id !== null)
+  const selectedIngredient = ingredients.find(
+    (ingredient) => ingredient.id === newPrice.ingredient_id
+  )
+  const units = selectedIngredient
+    ? Array.from(
+        new Set([
+          normalizeUnit(selectedIngredient.unit),
+          ...compatibleUnits(selectedIngredient),
+        ])
+      )
+    : []
+
+  const handleSaveBudget = async () => {
+    const weeklyBudget = budget.trim() === '' ? null : parseFloat(budget)
+    if (weeklyBudget !== null && !(weeklyBudget >= 0)) {
+      toast.error('Please enter a valid budget')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const { error } = await supabase
+        .from('users')
+        .update({ weekly_budget: weeklyBudget })
+        .eq('id', userProfile?.id)
+
+      if (error) throw error
+
+      toast.success('Weekly budget updated successfully!')
+      setIsOpen(false)
+      // Refresh the page to show updated values
+      window.location.reload()
+    } catch (error) {
+      console.error('Error updating weekly budget:', error)
+      toast.error('Failed to update weekly budget')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleAddPrice = async () => {
+    const price = parseFloat(newPrice.price)
+    const quantity = parseFloat(newPrice.quantity)
+    if (
+      !newPrice.ingredient_id ||
+      !newPrice.unit ||
+      !(price >= 0) ||
+      !(quantity > 0)
+    ) {
+      toast.error('Please fill in all fields')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const { error } = await supabase.from('ingredient_prices').insert({
+        ingredient_id: newPrice.ingredient_id,
+        user_id: userProfile?.id,
+        store: newPrice.store.trim() || null,
+        price,
+        quantity,
+        unit: newPrice.unit,
+      })
+
+      if (error) throw error
+
+      toast.success('Price added!')
+      window.location.reload()
+    } catch (error) {
+      console.error('Error adding price:', error)
+      toast.error('Failed to add price')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDeletePrice = async (id: string) => {
+    setIsLoading(true)
+    try {
+      const { error } = await supabase
+        .from('ingredient_prices')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+
+      toast.success('Price removed')
+      window.location.reload()
+    } catch (error) {
+      console.error('Error removing price:', error)
+      toast.error('Failed to remove price')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const describePrice = (price: IngredientPrice) =>
+    `${formatPrice(price.price)} / ${price.quantity} ${price.unit}` +
+    (price.store ? ` at ${price.store}` : '')
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5" />
+            Shopping Budget
+          </div>
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Update Shopping Budget</DialogTitle>
+                <DialogDescription>
+                  With a budget, the planner may pick recipes that need
+                  ingredients you don&apos;t have, as long as buying them fits.
+                  Your own prices replace the shared ones.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="weekly_budget">Weekly budget ($)</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="weekly_budget"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="No budget"
+                      value={budget}
+                      onChange={(e) => setBudget(e.target.value)}
+                    />
+                    <Button onClick={handleSaveBudget} disabled={isLoading}>
+                      {isLoading ? 'Saving...' : 'Save'}
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Your prices</Label>
+                  {ownPrices.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      No prices of your own yet
+                    </p>
+                  )}
+                  {ownPrices.map((price) => (
+                    <div
+                      key={price.id}
+                      className="flex items-center justify-between text-sm"
+                    >
+                      <span>
+                        <span className="font-medium">
+                          {price.ingredients.name}
+                        </span>{' '}
+                        {describePrice(price)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isLoading}
+                        onClick={() => handleDeletePrice(price.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2 rounded-lg border p-3">
+                  <Select
+                    value={newPrice.ingredient_id}
+                    onValueChange={(value) => {
+                      const ingredient = ingredients.find(
+                        (item) => item.id === value
+                      )
+                      setNewPrice((prev) => ({
+                        ...prev,
+                        ingredient_id: value,
+                        unit: ingredient ? normalizeUnit(ingredient.unit) : '',
+                      }))
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select ingredient" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ingredients.map((ingredient) => (
+                        <SelectItem key={ingredient.id} value={ingredient.id}>
+                          {ingredient.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <Label className="text-xs">Price ($)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={newPrice.price}
+                        onChange={(e) =>
+                          setNewPrice((prev) => ({
+                            ...prev,
+                            price: e.target.value,
+                          }))
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">For</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={newPrice.quantity}
+                        onChange={(e) =>
+                          setNewPrice((prev) => ({
+                            ...prev,
+                            quantity: e.target.value,
+                          }))
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Unit</Label>
+                      <Select
+                        value={newPrice.unit}
+                        onValueChange={(value) =>
+                          setNewPrice((prev) => ({ ...prev, unit: value }))
+                        }
+                        disabled={!selectedIngredient}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Unit" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {units.map((unit) => (
+                            <SelectItem key={unit} value={unit}>
+                              {unit}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <Input
+                    placeholder="Store (optional)"
+                    value={newPrice.store}
+                    onChange={(e) =>
+                      setNewPrice((prev) => ({
+                        ...prev,
+                        store: e.target.value,
+                      }))
+                    }
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleAddPrice}
+                    disabled={isLoading}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Price
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </CardTitle>
+        <CardDescription>
+          What the planner may spend on ingredients you don&apos;t have
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="font-medium">Weekly budget</span>
+          <span className="text-muted-foreground">
+            {userProfile?.weekly_budget
+              ? formatPrice(userProfile.weekly_budget)
+              : 'none'}
+          </span>
+        </div>
+        <div className="flex justify-between text-sm">
+          <span className="font-medium">Priced ingredients</span>
+          <span className="text-muted-foreground">
+            {
+              new Set(
+                prices
+                  .filter((price) => unitPrice(price) !== null)
+                  .map((price) => price.ingredient_id)
+              ).size
+            }{' '}
+            of {ingredients.length}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { AlertTriangle } from 'lucide-react'
+import { Database } from '@/lib/types/database'
+import { daysBetween, forecastSpoilage } from '@/lib/pantryExpiry'
+
+type PantryItem = Database['public']['Tables']['pantry_items']['Row'] & {
+  ingredients: Database['public']['Tables']['ingredients']['Row']
+}
+export type PlannedMeal = Database['public']['Tables']['meals']['Row'] & {
+  date: string // YYYY-MM-DD, from the plan's week start and day of week
+  recipes: Database['public']['Tables']['recipes']['Row'] & {
+    recipe_ingredients: Array<
+      Database['public']['Tables']['recipe_ingredients']['Row'] & {
+        ingredients: Database['public']['Tables']['ingredients']['Row']
+      }
+    >
+  }
+  meal_ingredients?: Array<
+    Database['public']['Tables']['meal_ingredients']['Row']
+  >
+  meal_portions?: Array<Database['public']['Tables']['meal_portions']['Row']>
+}
+
+interface SpoilageWarningsProps {
+  pantryItems: PantryItem[]
+  plannedMeals: PlannedMeal[]
+}
+
+export default function SpoilageWarnings({
+  pantryItems,
+  plannedMeals,
+}: SpoilageWarningsProps) {
+  const today = new Date().toISOString().split('T')[0]
+  const warnings = useMemo(
+    () => forecastSpoilage(pantryItems, plannedMeals, today),
+    [pantryItems, plannedMeals, today]
+  )
+
+  if (warnings.length === 0) return null
+
+  const describeExpiry = (expiresOn: string) => {
+    const daysLeft = daysBetween(today, expiresOn)
+    if (daysLeft < 0) return 'expired'
+    if (daysLeft === 0) return 'today'
+    if (daysLeft === 1) return 'tomorrow'
+    return `in ${daysLeft} days`
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-600" />
+          Use It or Lose It
+        </CardTitle>
+        <CardDescription>
+          Pantry items that will go off before your planned meals use them up
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {warnings.map((warning) => (
+          <div
+            key={warning.ingredientId}
+            className="flex items-center justify-between text-sm"
+          >
+            <span>
+              <span className="font-medium">{warning.ingredientName}</span>{' '}
+              <span className="text-muted-foreground">
+                {warning.unusedQuantity} {warning.unit} unused
+              </span>
+            </span>
+            <Badge
+              variant={
+                daysBetween(today, warning.expiresOn) < 0
+                  ? 'destructive'
+                  : 'outline'
+              }
+            >
+              {describeExpiry(warning.expiresOn)}
+            </Badge>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
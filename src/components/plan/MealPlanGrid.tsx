@@ -9,10 +9,19 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Plus, GripVertical, Trash2 } from 'lucide-react'
+import { Plus, GripVertical, Trash2, AlertTriangle, Lock, Unlock, RefreshCw, Users } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { toast } from 'sonner'
 import { Database } from '@/lib/types/database'
+import { calculateDailyTargets, mealNutrition, overallAccuracy, roundMacros } from '@/lib/nutrition'
+import { formatServings, isValidServings, SERVING_STEP } from '@/lib/servings'
+import { DEFAULT_MEAL_SLOTS, MealSlotConfig } from '@/lib/mealSlots'
+import { formatPrice, mealCost, UnitPrices } from '@/lib/prices'
+import { levelsAbove, SkillLevel } from '@/lib/skillLevels'
+import { DayAlternative } from '@/lib/macroTetris'
+import { forHousehold, sharedPortions } from '@/lib/household'
+import { MacroProfile } from '@/lib/planner/types'
+import { DietaryExclusions, recipeViolation } from '@/lib/dietaryExclusions'
 
 type MealPlan = Database['public']['Tables']['meal_plans']['Row']
 type Meal = Database['public']['Tables']['meals']['Row'] & {
@@ -23,7 +32,14 @@ type Meal = Database['public']['Tables']['meals']['Row'] & {
       }
     >
   }
+  meal_ingredients?: Array<
+    Database['public']['Tables']['meal_ingredients']['Row']
+  >
+  meal_portions?: Array<
+    Database['public']['Tables']['meal_portions']['Row']
+  >
 }
+type HouseholdMember = Database['public']['Tables']['household_members']['Row']
 type Recipe = Database['public']['Tables']['recipes']['Row'] & {
   recipe_ingredients: Array<
     Database['public']['Tables']['recipe_ingredients']['Row'] & {
@@ -37,48 +53,31 @@ interface MealPlanGridProps {
   meals: Meal[]
   recipes: Recipe[]
   mealPlan: MealPlan | null
+  dayTypes?: Array<string | null> // training/rest day type per day, 0 = Monday
+  mealSlots?: MealSlotConfig[] // the user's slots, in order
+  unitPrices?: UnitPrices // for the cost of each meal
+  skillLevel?: SkillLevel | null // the user's, to flag harder recipes
+  household?: HouseholdMember[] // to name the members' portions
+  dayTargets?: MacroProfile[] // the user's per day, to size the members' portions
+  exclusions?: DietaryExclusions // the user's allergies and diets
   onMealsUpdate: (meals: Meal[]) => void
 }
 
 const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
-const MEAL_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack']
-
 interface MealSlotProps {
   day: number
   slot: string
+  time?: string
   meal: Meal | undefined
+  unitPrices: UnitPrices
+  household: HouseholdMember[]
   onAddMeal: (day: number, slot: string) => void
   onRemoveMeal: (meal: Meal) => void
+  onToggleLock: (meal: Meal) => void
+  onReplan: (day: number, slot?: string) => void
 }
 
-function MealSlot({ day, slot, meal, onAddMeal, onRemoveMeal }: MealSlotProps) {
-  const calculateNutrition = (meal: Meal) => {
-    if (!meal.recipes || !meal.recipes.recipe_ingredients) return { calories: 0, protein: 0, carbs: 0, fat: 0 }
-    
-    let calories = 0
-    let protein = 0
-    let carbs = 0
-    let fat = 0
-
-    meal.recipes.recipe_ingredients.forEach(ingredient => {
-      const quantity = ingredient.quantity
-      const nutrition = ingredient.ingredients
-      const servingMultiplier = meal.servings
-      
-      calories += (nutrition.kcal * quantity * servingMultiplier) / 100
-      protein += (nutrition.protein * quantity * servingMultiplier) / 100
-      carbs += (nutrition.carbs * quantity * servingMultiplier) / 100
-      fat += (nutrition.fat * quantity * servingMultiplier) / 100
-    })
-
-    return {
-      calories: Math.round(calories),
-      protein: Math.round(protein),
-      carbs: Math.round(carbs),
-      fat: Math.round(fat),
-    }
-  }
-
+function MealSlot({ day, slot, time, meal, unitPrices, household, onAddMeal, onRemoveMeal, onToggleLock, onReplan }: MealSlotProps) {
   if (!meal) {
     return (
       <div 
@@ -88,15 +87,20 @@ function MealSlot({ day, slot, meal, onAddMeal, onRemoveMeal }: MealSlotProps) {
         <div className="text-center text-gray-500">
           <Plus className="h-6 w-6 mx-auto mb-2" />
           <div className="text-sm">Add {slot}</div>
+          {time && <div className="text-xs">{time}</div>}
         </div>
       </div>
     )
   }
 
-  const nutrition = calculateNutrition(meal)
+  const nutrition = roundMacros(mealNutrition(meal))
+  // Cooked once for everyone sharing it
+  const cost = mealCost(forHousehold(meal), unitPrices)
+  const memberName = (memberId: string) =>
+    household.find(member => member.id === memberId)?.name ?? 'Member'
 
   return (
-    <Card className="relative group cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow">
+    <Card className={`relative group cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow ${meal.locked ? 'border-primary' : ''}`}>
       <CardHeader className="pb-2">
         <div className="flex items-start justify-between">
           <CardTitle className="text-sm font-medium leading-none">
@@ -104,6 +108,26 @@ function MealSlot({ day, slot, meal, onAddMeal, onRemoveMeal }: MealSlotProps) {
           </CardTitle>
           <div className="flex items-center gap-1">
             <GripVertical className="h-4 w-4 text-gray-400" />
+            <Button
+              variant="ghost"
+              size="sm"
+              className={`h-6 w-6 p-0 transition-opacity ${meal.locked ? '' : 'opacity-0 group-hover:opacity-100'}`}
+              title={meal.locked ? 'Unlock: regenerating may replace this meal' : 'Lock: keep this meal when regenerating'}
+              onClick={() => onToggleLock(meal)}
+            >
+              {meal.locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3 text-gray-400" />}
+            </Button>
+            {!meal.locked && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Suggest something else for this meal"
+                onClick={() => onReplan(day, slot)}
+              >
+                <RefreshCw className="h-3 w-3" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -114,9 +138,9 @@ function MealSlot({ day, slot, meal, onAddMeal, onRemoveMeal }: MealSlotProps) {
             </Button>
           </div>
         </div>
-        {meal.servings > 1 && (
+        {meal.servings !== 1 && (
           <Badge variant="secondary" className="text-xs w-fit">
-            {meal.servings} servings
+            {formatServings(meal.servings)}
           </Badge>
         )}
       </CardHeader>
@@ -139,12 +163,25 @@ function MealSlot({ day, slot, meal, onAddMeal, onRemoveMeal }: MealSlotProps) {
             <span className="font-medium">{nutrition.fat}g</span>
           </div>
         </div>
+        {meal.meal_portions && meal.meal_portions.length > 0 && (
+          <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+            <Users className="h-3 w-3 flex-shrink-0" />
+            <span>
+              {meal.meal_portions
+                .map(portion => `${memberName(portion.member_id)} ${portion.servings}`)
+                .join(' · ')}
+            </span>
+          </div>
+        )}
+        {cost !== null && (
+          <div className="mt-1 text-xs text-muted-foreground">~{formatPrice(cost)}</div>
+        )}
       </CardContent>
     </Card>
   )
 }
 
-export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, onMealsUpdate }: MealPlanGridProps) {
+export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, dayTypes = [], mealSlots = DEFAULT_MEAL_SLOTS, unitPrices = {}, skillLevel = null, household = [], dayTargets = [], exclusions = { allergens: [], diets: [] }, onMealsUpdate }: MealPlanGridProps) {
   const [activeId, setActiveId] = useState<string | null>(null)
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [selectedDay, setSelectedDay] = useState<number>(0)
@@ -152,12 +189,26 @@ export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, onMe
   const [selectedRecipe, setSelectedRecipe] = useState<string>('')
   const [servings, setServings] = useState<string>('1')
   const [isLoading, setIsLoading] = useState(false)
+  const [replanTarget, setReplanTarget] = useState<{ day: number; slot?: string } | null>(null)
+  const [alternatives, setAlternatives] = useState<DayAlternative[] | null>(null)
+  const [isReplanning, setIsReplanning] = useState(false)
 
   const supabase = createClient()
 
+  const chosenRecipe = recipes.find(recipe => recipe.id === selectedRecipe)
+
+  // Configured slots first, then any slot a meal still uses that was since
+  // removed from the configuration, so no meal disappears from the grid
+  const slotRows: MealSlotConfig[] = [
+    ...mealSlots,
+    ...Array.from(new Set(meals.map(meal => meal.meal_slot)))
+      .filter(name => !mealSlots.some(slot => slot.name === name))
+      .map(name => ({ name })),
+  ]
+
   // Create a grid structure for easier rendering
   const mealGrid = DAYS.map((day, dayIndex) => 
-    MEAL_SLOTS.map(slot => ({
+    slotRows.map(({ name: slot }) => ({
       day: dayIndex,
       slot,
       meal: meals.find(meal => meal.day_of_week === dayIndex && meal.meal_slot === slot)
@@ -179,8 +230,11 @@ export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, onMe
       const activeId = active.id as string
       const overId = over.id as string
       
-      const [activeDay, activeSlot] = activeId.split('-').slice(1)
-      const [overDay, overSlot] = overId.split('-').slice(1)
+      // Slot names may contain dashes themselves ("pre-workout")
+      const [activeDay, ...activeSlotParts] = activeId.split('-').slice(1)
+      const [overDay, ...overSlotParts] = overId.split('-').slice(1)
+      const activeSlot = activeSlotParts.join('-')
+      const overSlot = overSlotParts.join('-')
       
       const dayIndex = parseInt(activeDay)
       const overDayIndex = parseInt(overDay)
@@ -230,6 +284,11 @@ export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, onMe
       return
     }
 
+    if (!isValidServings(parseFloat(servings))) {
+      toast.error(`Servings must be in steps of ${SERVING_STEP}`)
+      return
+    }
+
     setIsLoading(true)
     try {
       const { data, error } = await supabase
@@ -237,7 +296,7 @@ export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, onMe
         .insert({
           meal_plan_id: mealPlan.id,
           recipe_id: selectedRecipe,
-          servings: parseInt(servings),
+          servings: parseFloat(servings),
           day_of_week: selectedDay,
           meal_slot: selectedSlot,
         })
@@ -255,7 +314,40 @@ export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, onMe
 
       if (error) throw error
       if (data) {
-        onMealsUpdate([...meals, data as Meal])
+        // Members who share the slot get their portions, as in a planned meal
+        const meal = data as Meal
+        const dayTarget = dayTargets[selectedDay]
+        const portions = dayTarget
+          ? sharedPortions(
+              mealNutrition({ ...meal, servings: 1 }),
+              meal.servings,
+              meal.meal_slot,
+              dayTarget,
+              household.map(member => ({
+                id: member.id,
+                name: member.name,
+                dailyTargets: calculateDailyTargets(member),
+                sharedSlots: member.shared_slots,
+              }))
+            )
+          : []
+
+        let mealPortions: Meal['meal_portions'] = []
+        if (portions.length > 0) {
+          const { data: portionRows, error: portionsError } = await supabase
+            .from('meal_portions')
+            .insert(portions.map(portion => ({
+              meal_id: meal.id,
+              member_id: portion.memberId,
+              servings: portion.servings,
+            })))
+            .select()
+
+          if (portionsError) throw portionsError
+          mealPortions = portionRows
+        }
+
+        onMealsUpdate([...meals, { ...meal, meal_portions: mealPortions }])
         toast.success('Meal added successfully!')
         setIsAddDialogOpen(false)
         setSelectedRecipe('')
@@ -286,6 +378,98 @@ export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, onMe
     }
   }
 
+  // Locked meals are kept as they are the next time the week is generated
+  const handleToggleLock = async (meal: Meal) => {
+    try {
+      const { error } = await supabase
+        .from('meals')
+        .update({ locked: !meal.locked })
+        .eq('id', meal.id)
+
+      if (error) throw error
+
+      onMealsUpdate(meals.map(m => m.id === meal.id ? { ...m, locked: !meal.locked } : m))
+      toast.success(meal.locked ? 'Meal unlocked' : 'Meal locked, it will be kept when you regenerate')
+    } catch (error) {
+      console.error('Error locking meal:', error)
+      toast.error('Failed to update meal')
+    }
+  }
+
+  // Re-plan one day, or one slot of it, around the rest of the week
+  const handleReplan = async (day: number, slot?: string) => {
+    if (!mealPlan) return
+
+    setReplanTarget({ day, slot })
+    setAlternatives(null)
+    try {
+      const response = await fetch('/api/generate-plan/day', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userId: mealPlan.user_id,
+          weekStart,
+          day,
+          slot,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to find alternatives')
+      }
+
+      const result = await response.json()
+      setAlternatives(result.alternatives)
+    } catch (error) {
+      console.error('Error finding alternatives:', error)
+      toast.error('Failed to find alternatives')
+      setReplanTarget(null)
+    }
+  }
+
+  const handleChooseAlternative = async (alternative: DayAlternative) => {
+    if (!mealPlan || !replanTarget) return
+
+    setIsReplanning(true)
+    try {
+      const response = await fetch('/api/generate-plan/day/commit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userId: mealPlan.user_id,
+          weekStart,
+          day: replanTarget.day,
+          slot: replanTarget.slot,
+          alternative,
+        }),
+      })
+
+      if (response.status === 409) {
+        toast.error('Your plan or pantry changed since these alternatives were made. Please try again.')
+        setReplanTarget(null)
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error('Failed to replace meals')
+      }
+
+      const result = await response.json()
+      onMealsUpdate(result.meals)
+      toast.success('Meals replaced successfully!')
+      setReplanTarget(null)
+    } catch (error) {
+      console.error('Error replacing meals:', error)
+      toast.error('Failed to replace meals')
+    } finally {
+      setIsReplanning(false)
+    }
+  }
+
   if (!mealPlan) {
     return (
       <Card>
@@ -322,11 +506,25 @@ export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, onMe
                   day: 'numeric' 
                 })}
               </div>
+              {dayTypes[index] && (
+                <Badge variant="outline" className="mt-1">
+                  {dayTypes[index]}
+                </Badge>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-1 h-6 text-xs"
+                onClick={() => handleReplan(index)}
+              >
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Regenerate
+              </Button>
             </div>
           ))}
           
           {/* Meal slots */}
-          {MEAL_SLOTS.map(slot => 
+          {slotRows.map(({ name: slot, time }) => 
             DAYS.map((day, dayIndex) => {
               const meal = meals.find(m => m.day_of_week === dayIndex && m.meal_slot === slot)
               const slotId = `slot-${dayIndex}-${slot}`
@@ -340,9 +538,14 @@ export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, onMe
                   <MealSlot
                     day={dayIndex}
                     slot={slot}
+                    time={time}
                     meal={meal}
+                    unitPrices={unitPrices}
+                    household={household}
                     onAddMeal={handleAddMeal}
                     onRemoveMeal={handleRemoveMeal}
+                    onToggleLock={handleToggleLock}
+                    onReplan={handleReplan}
                   />
                 </div>
               )
@@ -376,20 +579,42 @@ export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, onMe
                   <SelectValue placeholder="Select a recipe" />
                 </SelectTrigger>
                 <SelectContent>
-                  {recipes.map((recipe) => (
-                    <SelectItem key={recipe.id} value={recipe.id}>
-                      {recipe.name}
-                    </SelectItem>
-                  ))}
+                  {recipes.map((recipe) => {
+                    // Recipes that break the user's allergies or diets can't be added
+                    const violation = recipeViolation(recipe, exclusions)
+                    return (
+                      <SelectItem key={recipe.id} value={recipe.id} disabled={violation !== null}>
+                        <span className="flex items-center gap-2">
+                          {recipe.name}
+                          <Badge
+                            variant={levelsAbove(recipe.skill_level, skillLevel) > 0 ? 'destructive' : 'outline'}
+                            className="text-xs capitalize"
+                          >
+                            {recipe.skill_level}
+                          </Badge>
+                          {violation && (
+                            <span className="text-xs text-muted-foreground">{violation}</span>
+                          )}
+                        </span>
+                      </SelectItem>
+                    )
+                  })}
                 </SelectContent>
               </Select>
+              {chosenRecipe && levelsAbove(chosenRecipe.skill_level, skillLevel) > 0 && (
+                <p className="flex items-center gap-1 mt-2 text-sm text-amber-600">
+                  <AlertTriangle className="h-4 w-4" />
+                  This {chosenRecipe.skill_level} recipe is above your {skillLevel} level
+                </p>
+              )}
             </div>
             <div>
               <Label htmlFor="servings">Servings</Label>
               <Input
                 id="servings"
                 type="number"
-                min="1"
+                min={SERVING_STEP}
+                step={SERVING_STEP}
                 value={servings}
                 onChange={(e) => setServings(e.target.value)}
               />
@@ -400,6 +625,57 @@ export default function MealPlanGrid({ weekStart, meals, recipes, mealPlan, onMe
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Alternatives Dialog */}
+      <Dialog open={replanTarget !== null} onOpenChange={(open) => !open && setReplanTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Regenerate {replanTarget && DAYS[replanTarget.day]} {replanTarget?.slot}
+            </DialogTitle>
+            <DialogDescription>
+              Alternatives that fit around the rest of your week. Locked meals stay as they are.
+            </DialogDescription>
+          </DialogHeader>
+          {alternatives === null ? (
+            <div className="py-8 text-center text-sm text-muted-foreground">Finding alternatives...</div>
+          ) : alternatives.length === 0 ? (
+            <div className="py-8 text-center text-sm text-muted-foreground">
+              No other recipes fit here with your pantry and settings.
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {alternatives.map((alternative, index) => (
+                <div key={index} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Option {index + 1}</span>
+                    <Badge variant="secondary">
+                      {overallAccuracy(alternative.dayBreakdown.accuracy)}% accurate
+                    </Badge>
+                  </div>
+                  {alternative.meals.map(meal => (
+                    <div key={meal.slot} className="flex justify-between text-sm">
+                      <span>
+                        <span className="capitalize text-muted-foreground">{meal.slot}:</span> {meal.recipeName}
+                        {meal.servings !== 1 && ` (${formatServings(meal.servings)})`}
+                      </span>
+                      <span className="text-muted-foreground">{meal.macros.calories} kcal · {meal.macros.protein}g P</span>
+                    </div>
+                  ))}
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    disabled={isReplanning}
+                    onClick={() => handleChooseAlternative(alternative)}
+                  >
+                    {isReplanning ? 'Saving...' : 'Use this'}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </>
   )
 }
\ No newline at end of file
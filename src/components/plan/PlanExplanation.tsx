@@ -0,0 +1,225 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { HelpCircle } from 'lucide-react'
+import { MacroProfile } from '@/lib/planner/types'
+import { PlanTrace } from '@/lib/macroTetris'
+import { PICK_STEP_LABELS, REJECTION_LABELS } from '@/lib/planTrace'
+
+interface PlanExplanationProps {
+  trace: PlanTrace | null
+}
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const formatMacros = (macros: MacroProfile) =>
+  `${macros.calories} kcal · ${macros.protein}P ${macros.carbs}C ${macros.fat}F`
+
+export default function PlanExplanation({ trace }: PlanExplanationProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <HelpCircle className="h-5 w-5" />
+            Why this plan?
+          </div>
+          {trace && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsOpen((open) => !open)}
+            >
+              {isOpen ? 'Hide' : 'Show'}
+            </Button>
+          )}
+        </CardTitle>
+        <CardDescription>
+          {trace
+            ? 'What Macro Tetris considered, why it picked each meal and what it left out'
+            : 'No explanation for this plan. Plans made before explanations, or with a day or meal regenerated since, have none.'}
+        </CardDescription>
+      </CardHeader>
+      {trace && isOpen && (
+        <CardContent>
+          <Tabs defaultValue="picked">
+            <TabsList className="mb-4">
+              <TabsTrigger value="picked">
+                Picked ({trace.picked.length})
+              </TabsTrigger>
+              <TabsTrigger value="considered">Considered</TabsTrigger>
+              <TabsTrigger value="rejected">
+                Left out ({trace.rejected.length})
+              </TabsTrigger>
+              <TabsTrigger value="fine-tuned">
+                Fine tuning ({trace.fineTuned.length})
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="picked">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Meal</TableHead>
+                    <TableHead>Recipe</TableHead>
+                    <TableHead>Why</TableHead>
+                    <TableHead>Protein density</TableHead>
+                    <TableHead>Still needed</TableHead>
+                    <TableHead>Meal gives</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trace.picked.map((pick) => (
+                    <TableRow key={`${pick.day}-${pick.slot}`}>
+                      <TableCell className="capitalize">
+                        {DAYS[pick.day]} {pick.slot}
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {pick.recipeName}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {PICK_STEP_LABELS[pick.step]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{pick.proteinDensity}g / 100 kcal</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {pick.gap ? formatMacros(pick.gap) : '–'}
+                      </TableCell>
+                      <TableCell>{formatMacros(pick.macros)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="considered" className="space-y-2">
+              {trace.searches
+                .filter((search) => !search.optimal)
+                .map((search) => (
+                  <p
+                    key={`search-${search.day}`}
+                    className="text-sm text-amber-600"
+                  >
+                    {DAYS[search.day]}: the search stopped after{' '}
+                    {search.nodesExplored.toLocaleString('en-US')} steps, so
+                    this is the best day it found rather than a proven best.
+                  </p>
+                ))}
+              {trace.considered.map((candidates) => (
+                <div
+                  key={`${candidates.day}-${candidates.slot}`}
+                  className="text-sm"
+                >
+                  <span className="font-medium capitalize">
+                    {candidates.day === null
+                      ? 'Whole week, by protein density'
+                      : `${DAYS[candidates.day]} ${candidates.slot}`}
+                    :
+                  </span>{' '}
+                  <span className="text-muted-foreground">
+                    {candidates.recipes.map((recipe) => recipe.name).join(', ')}
+                  </span>
+                </div>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="rejected">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recipe</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trace.rejected.map((rejection) => (
+                    <TableRow
+                      key={`${rejection.recipeId}-${rejection.day}-${rejection.slot}`}
+                    >
+                      <TableCell className="font-medium">
+                        {rejection.recipeName}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            rejection.reason === 'outranked'
+                              ? 'secondary'
+                              : 'outline'
+                          }
+                        >
+                          {REJECTION_LABELS[rejection.reason]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {rejection.day !== undefined &&
+                          `Locked for ${DAYS[rejection.day]} ${rejection.slot}, left out: `}
+                        {rejection.detail}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="fine-tuned">
+              {trace.fineTuned.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Fine tuning didn&apos;t change any ingredient quantities.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Meal</TableHead>
+                      <TableHead>Recipe</TableHead>
+                      <TableHead>Ingredient</TableHead>
+                      <TableHead>Per serving</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {trace.fineTuned.map((change) => (
+                      <TableRow
+                        key={`${change.day}-${change.slot}-${change.ingredientName}`}
+                      >
+                        <TableCell className="capitalize">
+                          {DAYS[change.day]} {change.slot}
+                        </TableCell>
+                        <TableCell>{change.recipeName}</TableCell>
+                        <TableCell>{change.ingredientName}</TableCell>
+                        <TableCell>
+                          {change.from} → {change.to} {change.unit}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
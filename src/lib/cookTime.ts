@@ -0,0 +1,135 @@
+/**
+ * Cooking Time
+ *
+ * A recipe's cooking time is the sum of its steps' timers (`time_s`). Users
+ * can cap the minutes of cooking on each day of the week, e.g. 20 minutes on
+ * weeknights and no limit at the weekend, and the planner only schedules
+ * meals whose cooking fits. A recipe is cooked once per day it's cooked on:
+ * with prep days that's its prep session, so a batch-cooked recipe eaten on
+ * three days counts once, on the prep day. Limits apply per session; the
+ * session on the Sunday before the week is its own, so it counts towards a
+ * Sunday limit but not towards this week's Sunday.
+ */
+
+import { Database } from '@/lib/types/database'
+import { cookingSession, sessionWeekday } from '@/lib/prepSessions'
+
+type Recipe = Database['public']['Tables']['recipes']['Row']
+
+// A recipe eaten on a day of the week (0 = Monday)
+interface CookedMeal {
+  day: number
+  recipe: Pick<Recipe, 'id' | 'steps'> | null
+}
+
+const DAYS_IN_WEEK = 7
+
+/**
+ * Total time of a recipe's timed steps, in seconds
+ */
+export function recipeCookTime(recipe: Pick<Recipe, 'steps'>): number {
+  if (!Array.isArray(recipe.steps)) return 0
+  return recipe.steps.reduce((total, step) => total + (step.time_s ?? 0), 0)
+}
+
+/**
+ * Cooking limit in minutes for each day of the week (0 = Monday), null where
+ * there's no limit or the stored value isn't a non-negative number
+ */
+export function resolveCookTimeLimits(limits: unknown): Array<number | null> {
+  return Array.from({ length: DAYS_IN_WEEK }, (_, day) => {
+    const limit = Array.isArray(limits) ? limits[day] : null
+    return typeof limit === 'number' && Number.isFinite(limit) && limit >= 0
+      ? limit
+      : null
+  })
+}
+
+/**
+ * Seconds of cooking in each cooking session (see `cookingSession`). Each
+ * recipe is counted once per prep session, or once per day without prep
+ * days.
+ */
+export function sessionCookTimes(
+  meals: CookedMeal[],
+  prepDays: number[]
+): Map<number, number> {
+  const times = new Map<number, number>()
+  const cooked = new Set<string>()
+
+  meals.forEach(({ day, recipe }) => {
+    if (!recipe) return
+    const session = cookingSession(day, prepDays)
+    const key = `${session}:${recipe.id}`
+    if (cooked.has(key)) return
+    cooked.add(key)
+    times.set(session, (times.get(session) ?? 0) + recipeCookTime(recipe))
+  })
+
+  return times
+}
+
+/**
+ * Seconds of cooking on each day of the week (0 = Monday). Cooking in the
+ * session before the week happens on the previous week's Sunday, so it's on
+ * none of them.
+ */
+export function dailyCookTimes(
+  meals: CookedMeal[],
+  prepDays: number[]
+): number[] {
+  const sessions = sessionCookTimes(meals, prepDays)
+  return Array.from(
+    { length: DAYS_IN_WEEK },
+    (_, day) => sessions.get(day) ?? 0
+  )
+}
+
+/**
+ * Seconds of cooking the meals need in all, the session before the week
+ * included
+ */
+export function totalCookTime(meals: CookedMeal[], prepDays: number[]): number {
+  let total = 0
+  sessionCookTimes(meals, prepDays).forEach((time) => {
+    total += time
+  })
+  return total
+}
+
+/**
+ * Minutes allowed in a cooking session: the limit of the weekday it falls
+ * on, or null without one
+ */
+export function sessionCookTimeLimit(
+  session: number,
+  cookTimeLimits: Array<number | null>
+): number | null {
+  return cookTimeLimits[sessionWeekday(session)] ?? null
+}
+
+/**
+ * Seconds of cooking that adding `meal` to `meals` adds to its cooking
+ * session: nothing if the recipe is already cooked in the same session
+ */
+export function additionalCookTime(
+  meal: CookedMeal,
+  meals: CookedMeal[],
+  prepDays: number[]
+): number {
+  const session = cookingSession(meal.day, prepDays)
+  return (
+    (sessionCookTimes([...meals, meal], prepDays).get(session) ?? 0) -
+    (sessionCookTimes(meals, prepDays).get(session) ?? 0)
+  )
+}
+
+/**
+ * "45 min" or "1 h 20 min"
+ */
+export function formatCookTime(seconds: number): string {
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`
+}
@@ -0,0 +1,73 @@
+/**
+ * Day-Type Profiles
+ *
+ * Calorie cycling: users can define named day types (e.g. "training" and
+ * "rest"), each with its own calorie target and macro split, and assign one
+ * to each day of the week. Days without a type use the base targets on the
+ * user's profile.
+ */
+
+import { Database } from '@/lib/types/database'
+import { calculateDailyTargets } from '@/lib/nutrition'
+import { MacroProfile } from '@/lib/planner/types'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+
+export type DayProfile = Pick<
+  UserProfile,
+  'kcal_target' | 'protein_pct' | 'carb_pct' | 'fat_pct'
+>
+
+export type DayProfiles = Record<string, DayProfile>
+
+export const DAYS_IN_WEEK = 7
+
+/**
+ * Drop profiles with a missing calorie target or a split that doesn't add up
+ * to 100%, so a half-edited profile never reaches the planner
+ */
+export function sanitizeDayProfiles(profiles: unknown): DayProfiles {
+  const clean: DayProfiles = {}
+  if (!profiles || typeof profiles !== 'object') return clean
+
+  Object.entries(profiles as Record<string, DayProfile>).forEach(
+    ([name, profile]) => {
+      if (!name.trim() || !profile || typeof profile !== 'object') return
+      const { kcal_target, protein_pct, carb_pct, fat_pct } = profile
+      const values = [kcal_target, protein_pct, carb_pct, fat_pct]
+      if (values.some((value) => typeof value !== 'number' || value < 0)) {
+        return
+      }
+      if (kcal_target <= 0 || protein_pct + carb_pct + fat_pct !== 100) return
+      clean[name] = { kcal_target, protein_pct, carb_pct, fat_pct }
+    }
+  )
+
+  return clean
+}
+
+/**
+ * Day type assigned to each day of the week (0 = Monday), null where the
+ * schedule is empty or names a profile that no longer exists
+ */
+export function resolveDaySchedule(
+  user: Pick<UserProfile, 'day_profiles' | 'day_schedule'>
+): Array<string | null> {
+  const profiles = sanitizeDayProfiles(user.day_profiles)
+  return Array.from({ length: DAYS_IN_WEEK }, (_, day) => {
+    const dayType = user.day_schedule?.[day]
+    return dayType && profiles[dayType] ? dayType : null
+  })
+}
+
+/**
+ * Daily macro targets for each day of the week (0 = Monday)
+ */
+export function calculateWeekTargets(
+  user: DayProfile & Pick<UserProfile, 'day_profiles' | 'day_schedule'>
+): MacroProfile[] {
+  const profiles = sanitizeDayProfiles(user.day_profiles)
+  return resolveDaySchedule(user).map((dayType) =>
+    calculateDailyTargets(dayType ? profiles[dayType] : user)
+  )
+}
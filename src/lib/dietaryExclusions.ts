@@ -0,0 +1,130 @@
+/**
+ * Dietary Exclusions
+ *
+ * Ingredients are tagged with the allergens they contain and the diets they
+ * fit. Users list their allergies and diets in their preferences, and any
+ * recipe with an ingredient that contains one of the allergies, or doesn't
+ * fit one of the diets, is never planned. An ingredient without diet tags
+ * fits no diet, so a new, untagged one is left out rather than risked.
+ */
+
+import { Database } from '@/lib/types/database'
+
+type Ingredient = Database['public']['Tables']['ingredients']['Row']
+type UserPreference = Database['public']['Tables']['user_preferences']['Row']
+
+export const ALLERGENS = [
+  'peanuts',
+  'tree-nuts',
+  'dairy',
+  'egg',
+  'gluten',
+  'soy',
+  'fish',
+  'shellfish',
+  'sesame',
+] as const
+
+export const DIETS = ['vegetarian', 'vegan', 'pescatarian', 'halal'] as const
+
+export type Allergen = (typeof ALLERGENS)[number]
+export type Diet = (typeof DIETS)[number]
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  peanuts: 'Peanuts',
+  'tree-nuts': 'Tree nuts',
+  dairy: 'Dairy',
+  egg: 'Egg',
+  gluten: 'Gluten',
+  soy: 'Soy',
+  fish: 'Fish',
+  shellfish: 'Shellfish',
+  sesame: 'Sesame',
+}
+
+export const DIET_LABELS: Record<Diet, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  pescatarian: 'Pescatarian',
+  halal: 'Halal', // no pork or alcohol
+}
+
+// user_preferences types the exclusions are stored as
+export const ALLERGY_PREFERENCE = 'allergy'
+export const DIET_PREFERENCE = 'dietary_restriction'
+
+export interface DietaryExclusions {
+  allergens: Allergen[] // never plan anything containing these
+  diets: Diet[] // only plan what fits all of these
+}
+
+type TaggedRecipe = {
+  recipe_ingredients: Array<{
+    ingredients: Pick<Ingredient, 'name' | 'allergens' | 'diets'>
+  }>
+}
+
+/**
+ * The user's exclusions from their preferences. Only what they entered
+ * themselves counts; inferred preferences and unknown values are ignored.
+ */
+export function resolveDietaryExclusions(
+  preferences: Array<
+    Pick<UserPreference, 'preference_type' | 'preference_value' | 'source'>
+  > | null
+): DietaryExclusions {
+  const entered = (preferences ?? []).filter(
+    (preference) => preference.source === 'user_input'
+  )
+  const values = (type: string) =>
+    entered
+      .filter((preference) => preference.preference_type === type)
+      .map((preference) => preference.preference_value)
+
+  return {
+    allergens: ALLERGENS.filter((allergen) =>
+      values(ALLERGY_PREFERENCE).includes(allergen)
+    ),
+    diets: DIETS.filter((diet) => values(DIET_PREFERENCE).includes(diet)),
+  }
+}
+
+/**
+ * Whether there's anything to exclude
+ */
+export function hasExclusions(exclusions: DietaryExclusions): boolean {
+  return exclusions.allergens.length > 0 || exclusions.diets.length > 0
+}
+
+/**
+ * Why a recipe can't be planned for the user, or null if it can: the first
+ * allergen it contains or diet it breaks, with the ingredients responsible
+ */
+export function recipeViolation(
+  recipe: TaggedRecipe,
+  exclusions: DietaryExclusions
+): string | null {
+  const ingredients = recipe.recipe_ingredients.map(
+    (ingredient) => ingredient.ingredients
+  )
+
+  for (const allergen of exclusions.allergens) {
+    const containing = ingredients
+      .filter((ingredient) => (ingredient.allergens ?? []).includes(allergen))
+      .map((ingredient) => ingredient.name)
+    if (containing.length > 0) {
+      return `Contains ${ALLERGEN_LABELS[allergen].toLowerCase()} (${containing.join(', ')})`
+    }
+  }
+
+  for (const diet of exclusions.diets) {
+    const breaking = ingredients
+      .filter((ingredient) => !(ingredient.diets ?? []).includes(diet))
+      .map((ingredient) => ingredient.name)
+    if (breaking.length > 0) {
+      return `${breaking.join(', ')} ${breaking.length === 1 ? "isn't" : "aren't"} ${DIET_LABELS[diet].toLowerCase()}`
+    }
+  }
+
+  return null
+}
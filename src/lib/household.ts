@@ -0,0 +1,114 @@
+/**
+ * Household Planning
+ *
+ * Besides themselves, a user can plan for the members of their household,
+ * each with their own calorie target and split, who eat some of the meal
+ * slots with them (e.g. dinner). A shared meal is one recipe cooked once and
+ * split into portions: the user's own servings, plus for each member the
+ * servings that give them the same share of their day's targets as the meal
+ * gives the user. Shopping and cooking go by everything that's cooked.
+ */
+
+import { Database } from '@/lib/types/database'
+import { MacroProfile } from '@/lib/planner/types'
+import { roundServings, SERVING_STEP } from '@/lib/servings'
+
+type MealPortionRow = Database['public']['Tables']['meal_portions']['Row']
+
+export interface HouseholdMember {
+  id: string
+  name: string
+  dailyTargets: MacroProfile
+  sharedSlots: string[] // meal slots they eat with the household
+}
+
+export interface MealPortion {
+  memberId: string
+  servings: number
+}
+
+/**
+ * Servings of a meal that come closest to a target, every macro counting by
+ * how far off it is in percent, before rounding to serving steps. Grows in
+ * proportion to the target.
+ */
+export function exactPortion(
+  perServing: MacroProfile,
+  target: MacroProfile
+): number {
+  const ratios = (['calories', 'protein', 'carbs', 'fat'] as const)
+    .filter((key) => target[key] > 0)
+    .map((key) => perServing[key] / target[key])
+  const squares = ratios.reduce((sum, ratio) => sum + ratio * ratio, 0)
+  if (squares === 0) return 0
+
+  return ratios.reduce((sum, ratio) => sum + ratio, 0) / squares
+}
+
+/**
+ * The exact portion rounded to serving steps; never less than one step,
+ * since the member shares the meal. At most one step more than the exact
+ * portion.
+ */
+export function fitPortion(
+  perServing: MacroProfile,
+  target: MacroProfile
+): number {
+  return Math.max(SERVING_STEP, roundServings(exactPortion(perServing, target)))
+}
+
+/**
+ * Every member's portion of a meal in one of their shared slots: the
+ * servings that give them the same share of their day's targets as the
+ * user's `servings` give the user of `dayTarget`
+ */
+export function sharedPortions(
+  perServing: MacroProfile,
+  servings: number,
+  slot: string,
+  dayTarget: MacroProfile,
+  household: HouseholdMember[]
+): MealPortion[] {
+  const share =
+    dayTarget.calories > 0
+      ? (perServing.calories * servings) / dayTarget.calories
+      : 0
+
+  return household
+    .filter((member) => member.sharedSlots.includes(slot))
+    .map((member) => ({
+      memberId: member.id,
+      servings: fitPortion(perServing, {
+        calories: member.dailyTargets.calories * share,
+        protein: member.dailyTargets.protein * share,
+        carbs: member.dailyTargets.carbs * share,
+        fat: member.dailyTargets.fat * share,
+      }),
+    }))
+}
+
+/**
+ * Servings cooked for a meal: the user's own plus every member's portion
+ */
+export function cookedServings(meal: {
+  servings: number
+  meal_portions?: Array<Pick<MealPortionRow, 'servings'>> | null
+}): number {
+  return (meal.meal_portions ?? []).reduce(
+    (total, portion) => total + portion.servings,
+    meal.servings
+  )
+}
+
+/**
+ * A meal with the servings cooked for the whole household, for shopping
+ * lists, costs and cooking
+ */
+export function forHousehold<
+  T extends {
+    servings: number
+    meal_portions?: Array<Pick<MealPortionRow, 'servings'>> | null
+  },
+>(meal: T): T {
+  return { ...meal, servings: cookedServings(meal) }
+}
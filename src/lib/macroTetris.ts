@@ -5,94 +5,438 @@
  * optimized weekly meal plans based on user macro targets and pantry availability.
  *
  * Algorithm Overview:
- * 1. Fetch user targets + pantry + recipe pool
+ * 1. Take daily targets (per day, for calorie cycling) + pantry + recipe pool
  * 2. Greedy fill: loop through recipes sorted by protein density, add servings until daily protein ≥ target
  * 3. Fill remaining C/F via complementary recipes/snacks
- * 4. Fine-tune by scaling servings (±10g) to hit macros within ±5%
- * 5. Return plan + list of missing pantry quantities
+ * 4. Fine-tune individual ingredient quantities (small steps within each
+ *    ingredient's flex bounds) to hit macros within ±5%
+ * 5. Return plan + list of missing pantry quantities, priced where known,
+ *    and a trace of why the plan looks the way it does
+ *
+ * The default "optimal" strategy replaces steps 2-3 with an exact
+ * branch-and-bound search over servings (see `planner/solver.ts`), solved
+ * day by day against each day's own targets. The greedy chain above stays
+ * available as the "greedy" strategy and as a fallback. With a weekly budget
+ * the optimizer may also plan recipes that need priced ingredients the pantry
+ * doesn't have, as long as buying them stays within the budget. Pantry
+ * ingredients that expire during the week are scheduled on the days before
+ * they go off, with prep days every meal stays within its recipe's fridge
+ * life after the session it's cooked in, no day gets more cooking than
+ * its cooking time limit, and recipes above the user's skill level are
+ * limited to the weekly stretch allowance. Meals the user locked are kept as
+ * they are, and the rest of the week is planned around them. Recipes that
+ * contain one of the user's allergens or break one of their diets are taken
+ * out before any of this, locked or not.
+ *
+ * Meals in the slots the user shares with their household are split into
+ * portions for each member's own targets once the week is planned. The
+ * optimizer plans the user's own servings; what the members' portions need
+ * beyond that counts towards the missing ingredients and shopping cost.
+ *
+ * Besides the macros, the optimizer can favor the lowest shopping cost, the
+ * least cooking or using up the pantry. `planAlternatives` plans the week
+ * once per objective so the user can compare the results side by side.
+ *
+ * `planWeek` is pure: it never touches the database, so it runs the same in
+ * API routes, scripts and tests. Loading inputs and saving the resulting
+ * proposal lives in `mealPlanStore.ts`.
  */
 
-import { createClient } from '@/lib/supabase/server'
 import { Database } from '@/lib/types/database'
-
-type Recipe = Database['public']['Tables']['recipes']['Row'] & {
+import {
+  macroDeviation,
+  nutrientBoundPenalty,
+  solveAllocation,
+} from '@/lib/planner/solver'
+import { createRandom, generateSeed, RandomSource } from '@/lib/planner/random'
+import {
+  COOK_TIME_WEIGHT,
+  COST_WEIGHT,
+  MacroProfile,
+  NutrientTargets,
+  NutritionProfile,
+  PLAN_OBJECTIVES,
+  PlanningStrategy,
+  PlanObjective,
+} from '@/lib/planner/types'
+import { toIngredientUnit } from '@/lib/units'
+import { addNutrients, boundStatus } from '@/lib/nutrients'
+import {
+  addIngredientNutrition,
+  calculateMacroAccuracy,
+  calculateMacroDeviation,
+  calculatePantryUse,
+  emptyNutrition,
+  KCAL_PER_GRAM,
+  overallAccuracy,
+  roundMacros,
+  ScoredMeal,
+} from '@/lib/nutrition'
+import { UnitPrices } from '@/lib/prices'
+import { cookingSession, fitsPrepSchedule } from '@/lib/prepSessions'
+import {
+  additionalCookTime,
+  dailyCookTimes,
+  sessionCookTimeLimit,
+  sessionCookTimes,
+  totalCookTime,
+  formatCookTime,
+  recipeCookTime,
+} from '@/lib/cookTime'
+import {
+  isStretch,
+  levelsAbove,
+  SkillLevel,
+  withinSkill,
+} from '@/lib/skillLevels'
+import {
+  DEFAULT_MEAL_SLOTS,
+  MealSlotConfig,
+  slotRecipeTypes,
+} from '@/lib/mealSlots'
+import {
+  ceilServings,
+  floorServings,
+  roundServings,
+  SERVING_STEP,
+} from '@/lib/servings'
+import {
+  exactPortion,
+  HouseholdMember,
+  MealPortion,
+  sharedPortions,
+} from '@/lib/household'
+import { DietaryExclusions, recipeViolation } from '@/lib/dietaryExclusions'
+
+export type Recipe = Database['public']['Tables']['recipes']['Row'] & {
   recipe_ingredients: Array<
     Database['public']['Tables']['recipe_ingredients']['Row'] & {
       ingredients: Database['public']['Tables']['ingredients']['Row']
     }
   >
 }
-type PantryItem = Database['public']['Tables']['pantry_items']['Row'] & {
+export type PantryItem = Database['public']['Tables']['pantry_items']['Row'] & {
   ingredients: Database['public']['Tables']['ingredients']['Row']
 }
-type MealPlan = Database['public']['Tables']['meal_plans']['Row']
-type Meal = Database['public']['Tables']['meals']['Row']
-
-interface MacroProfile {
-  calories: number
-  protein: number
-  carbs: number
-  fat: number
-}
+type RecipeIngredient = Recipe['recipe_ingredients'][number]
+
+const MAX_CANDIDATES_PER_SLOT = 6
+const MAX_SERVINGS_PER_MEAL = 2
+const MAX_PURCHASED_SERVINGS = MAX_SERVINGS_PER_MEAL * 7 // one meal a day
+const TUNE_STEP = 10 // g/ml per adjustment
+const TUNE_TOLERANCE = 0.05
+const MAX_TUNE_ITERATIONS = 200
+const SLOT_CALORIE_TOLERANCE = 0.1 // ± around a slot's share of daily calories
+const COOK_TIME = 'cook-time' // solver resource: seconds of cooking left today
+const STRETCH = 'stretch' // solver resource: stretch meals left this week
+const DEFAULT_ALTERNATIVES = 3
 
 interface RecipeWithMacros extends Recipe {
-  macros: MacroProfile
+  macros: NutritionProfile // per serving
   proteinDensity: number // protein per 100 calories
   availableServings: number // based on pantry availability
 }
 
-interface OptimizationResult {
-  mealPlan: MealPlan
-  meals: Meal[]
-  missingIngredients: Array<{
+// When meals can be cooked and eaten, and by whom
+interface PlanConstraints {
+  prepDays: number[] // batch-cooking days (0 = Monday), none = cook daily
+  cookTimeLimits: Array<number | null> // minutes per day, null = no limit
+  skillLevel: SkillLevel | null // null = any recipe
+  stretchMeals: number // meals a week one level above skillLevel
+}
+
+interface MealSelection {
+  recipe: RecipeWithMacros
+  servings: number
+  day: number
+  slot: string
+  quantities?: Record<string, number> // tuned per-serving quantity by ingredient
+  locked?: boolean // kept as is: never re-planned or tuned
+  portions?: MealPortion[] // household members' servings on top of these
+  pick: Pick<PickedMeal, 'step' | 'gap'> // why it's in the plan
+}
+
+// A plan's inputs with defaults resolved, shared by week and day planning
+interface PlanningContext {
+  objective: PlanObjective
+  constraints: PlanConstraints
+  pantryItems: PantryItem[] // without stock that expired before the week
+  pantryExpiry: Record<string, number>
+  nutrientTargets: NutrientTargets
+  mealSlots: MealSlotConfig[]
+  unitPrices: UnitPrices
+  budget: number
+  dayTargets: MacroProfile[]
+  household: HouseholdMember[]
+  recipes: RecipeWithMacros[]
+  excludedRecipes: RejectedRecipe[] // break the user's allergies or diets
+  lockedMeals: MealSelection[]
+  droppedLockedMeals: RejectedRecipe[] // locked, but break allergies or diets
+  plannablePantry: PantryItem[] // what the locked meals leave
+  plannableBudget: number // what the locked meals leave
+}
+
+export interface NutrientReport {
+  key: string
+  actual: number
+  min?: number
+  max?: number
+  status: 'low' | 'high' | 'ok'
+}
+
+export interface DailyMacroBreakdown {
+  day: number // 0 = Monday
+  actual: MacroProfile
+  target: MacroProfile
+  deviation: MacroProfile // signed percentage off target
+  accuracy: MacroProfile // percentage accuracy
+  nutrients: NutrientReport[] // one per nutrient with a daily limit
+  cookTime: number // seconds of cooking done on this day
+  cookTimeLimit: number | null // minutes
+}
+
+export interface MissingIngredient {
+  ingredientId: string
+  ingredientName: string
+  neededQuantity: number
+  unit: string
+  availableQuantity: number
+  estimatedCost: number | null // null when the ingredient has no price
+}
+
+// How a meal got into the plan: kept as locked, chosen by the solver, or by
+// one of the greedy chain's protein, carb and fat passes
+export type PickStep = 'locked' | 'optimal' | 'protein' | 'carbs' | 'fat'
+
+export interface PickedMeal {
+  day: number // 0 = Monday
+  slot: string
+  recipeId: string
+  recipeName: string
+  step: PickStep
+  proteinDensity: number // g protein per 100 kcal
+  gap: MacroProfile | null // what the day still needed when it was picked
+  macros: MacroProfile // whole meal, all servings
+}
+
+export interface ConsideredRecipes {
+  day: number | null // null for the greedy chain, which fills the whole week
+  slot: string | null
+  recipes: Array<{ id: string; name: string }> // in the order they ranked
+}
+
+export type RejectionReason =
+  | 'diet' // contains an allergen or breaks a diet
+  | 'slot' // suits none of the meal slots
+  | 'skill' // above the cook's level
+  | 'pantry' // not enough stock, and nothing that can be bought
+  | 'prep' // doesn't keep until any day after a prep session
+  | 'cook-time' // takes longer than any day allows
+  | 'outranked' // could have been planned, other recipes fit better
+
+export interface RejectedRecipe {
+  recipeId: string
+  recipeName: string
+  reason: RejectionReason
+  detail: string
+  day?: number // set for a locked meal left out, 0 = Monday
+  slot?: string
+}
+
+// One day of the exact optimizer's search
+export interface SolverSearch {
+  day: number // 0 = Monday
+  optimal: boolean // false when it hit the node limit: best found, not proven
+  nodesExplored: number
+}
+
+export interface FineTuneChange {
+  day: number // 0 = Monday
+  slot: string
+  recipeName: string
+  ingredientName: string
+  from: number // per serving, in the recipe's unit
+  to: number
+  unit: string
+}
+
+// Why the plan looks the way it does
+export interface PlanTrace {
+  considered: ConsideredRecipes[]
+  picked: PickedMeal[]
+  rejected: RejectedRecipe[]
+  fineTuned: FineTuneChange[]
+  searches: SolverSearch[] // per day the optimizer solved, none for greedy
+}
+
+export interface LockedMeal {
+  recipeId: string
+  servings: number
+  day: number // 0 = Monday
+  slot: string
+  quantities?: Record<string, number> // tuned per-serving quantity by ingredient
+  portions?: MealPortion[] // stored household portions, kept as they are
+}
+
+export interface PlanWeekInput {
+  dailyTargets: MacroProfile
+  dayTargets?: MacroProfile[] // per day (0 = Monday), falls back to dailyTargets
+  nutrientTargets?: NutrientTargets // optional daily min/max per nutrient
+  mealSlots?: MealSlotConfig[] // in order, defaults to breakfast/lunch/dinner/snack
+  unitPrices?: UnitPrices // per unit of each ingredient's own unit
+  weeklyBudget?: number | null // may be spent on ingredients not in the pantry
+  pantryExpiry?: Record<string, number> // last usable day (0 = Monday)
+  prepDays?: number[] // batch-cooking days (0 = Monday), none = cook daily
+  cookTimeLimits?: Array<number | null> // max minutes of cooking per day
+  skillLevel?: SkillLevel | null // the cook's level, null = any recipe
+  stretchMeals?: number // meals a week one level above skillLevel
+  lockedMeals?: LockedMeal[] // kept in place, the rest is planned around them
+  objective?: PlanObjective // favored besides the macros, defaults to accuracy
+  household?: HouseholdMember[] // share some slots' meals with the user
+  exclusions?: DietaryExclusions // recipes breaking these are never planned
+  pantryItems: PantryItem[]
+  recipes: Recipe[] // order matters: same order + same seed = same plan
+  strategy?: PlanningStrategy
+  seed?: number
+}
+
+export interface ProposedMeal {
+  recipeId: string
+  recipeName: string
+  servings: number
+  day: number // 0 = Monday
+  slot: string
+  locked: boolean
+  macros: MacroProfile // whole meal, all servings
+  portions: MealPortion[] // household members' servings, cooked with it
+  ingredientOverrides: Array<{
     ingredientId: string
-    ingredientName: string
-    neededQuantity: number
+    quantity: number // per serving
     unit: string
-    availableQuantity: number
   }>
-  macroAccuracy: {
-    calories: number // percentage accuracy
-    protein: number
-    carbs: number
-    fat: number
-  }
+}
+
+export interface ReplanInput extends PlanWeekInput {
+  day: number // 0 = Monday
+  slot?: string // just this slot, otherwise the whole day
+  alternatives?: number // how many to offer, defaults to 3
+  excludeRecipes?: string[] // not offered, e.g. the meals being replaced
+}
+
+export interface DayAlternative {
+  meals: ProposedMeal[] // the new meals for the day or slot
+  weeklyTotals: NutritionProfile // the whole week with these meals
+  missingIngredients: MissingIngredient[]
+  shoppingCost: number
+  dayBreakdown: DailyMacroBreakdown
+}
+
+export interface PlanScore {
+  macroAccuracy: number // percentage, averaged over macros and days
+  shoppingCost: number
+  cookTime: number // seconds of cooking the week's meals need
+  pantryUse: number // percentage of the pantry's stock the plan uses
+}
+
+export interface PlanProposal {
+  strategy: PlanningStrategy
+  objective: PlanObjective
+  seed: number
+  prepDays: number[]
+  meals: ProposedMeal[]
+  weeklyTotals: NutritionProfile
+  missingIngredients: MissingIngredient[]
+  shoppingCost: number // estimated cost of the priced missing ingredients
+  macroAccuracy: MacroProfile // percentage accuracy, averaged over days
+  dailyBreakdown: DailyMacroBreakdown[]
+  score: PlanScore
+  trace: PlanTrace
+}
+
+export interface PlanAlternative {
+  objectives: PlanObjective[] // every objective that led to this plan
+  proposal: PlanProposal
 }
 
 /**
- * Calculate nutrition profile for a recipe based on its ingredients
+ * A recipe quantity in the ingredient's own unit, or null if the units can't
+ * be converted (such recipes are treated as unavailable, never guessed at)
  */
-function calculateRecipeMacros(recipe: Recipe): MacroProfile {
-  let calories = 0
-  let protein = 0
-  let carbs = 0
-  let fat = 0
+function ingredientAmount(
+  ingredient: RecipeIngredient,
+  quantity: number = ingredient.quantity
+): number | null {
+  return toIngredientUnit(quantity, ingredient.unit, ingredient.ingredients)
+}
+
+/**
+ * Pantry stock in the ingredient's own unit (0 if it can't be converted)
+ */
+function pantryAmount(item: PantryItem): number {
+  return toIngredientUnit(item.quantity, item.unit, item.ingredients) ?? 0
+}
+
+/**
+ * Pantry stock left once the given meals are cooked, in each ingredient's
+ * own unit
+ */
+function remainingPantry(
+  pantryItems: PantryItem[],
+  selections: MealSelection[]
+): PantryItem[] {
+  return pantryItems.map((item) => {
+    let used = 0
+    selections.forEach((selection) => {
+      selection.recipe.recipe_ingredients.forEach((ingredient) => {
+        if (ingredient.ingredient_id !== item.ingredient_id) return
+        used +=
+          (ingredientAmount(
+            ingredient,
+            selectionQuantity(selection, ingredient)
+          ) ?? 0) * selection.servings
+      })
+    })
+    return {
+      ...item,
+      quantity: Math.max(0, pantryAmount(item) - used),
+      unit: item.ingredients.unit,
+    }
+  })
+}
 
+/**
+ * Calculate nutrition profile for a recipe based on its ingredients
+ */
+function calculateRecipeMacros(recipe: Recipe): NutritionProfile {
+  const totals = emptyNutrition()
   recipe.recipe_ingredients.forEach((ingredient) => {
-    const quantity = ingredient.quantity
-    const nutrition = ingredient.ingredients
-
-    // Calculate nutrition based on ingredient quantity (per 100g)
-    calories += (nutrition.kcal * quantity) / 100
-    protein += (nutrition.protein * quantity) / 100
-    carbs += (nutrition.carbs * quantity) / 100
-    fat += (nutrition.fat * quantity) / 100
+    addIngredientNutrition(
+      totals,
+      ingredient.ingredients,
+      ingredientAmount(ingredient) ?? 0
+    )
   })
 
   return {
-    calories: Math.round(calories),
-    protein: Math.round(protein),
-    carbs: Math.round(carbs),
-    fat: Math.round(fat),
+    ...roundMacros(totals),
+    nutrients: Object.fromEntries(
+      Object.entries(totals.nutrients).map(([key, value]) => [
+        key,
+        Math.round(value * 10) / 10,
+      ])
+    ),
   }
 }
 
 /**
- * Calculate how many servings of a recipe can be made with available pantry items
+ * Calculate how many servings of a recipe can be made with available pantry items.
+ * Ingredients that can be bought (`purchasable`) don't limit the count; the
+ * solver keeps their cost within the budget instead.
  */
 function calculateAvailableServings(
   recipe: Recipe,
-  pantryItems: PantryItem[]
+  pantryItems: PantryItem[],
+  purchasable: Set<string> = new Set()
 ): number {
   let maxServings = Infinity
 
@@ -101,20 +445,117 @@ function calculateAvailableServings(
       (p) => p.ingredient_id === recipeIngredient.ingredient_id
     )
 
+    if (purchasable.has(recipeIngredient.ingredient_id)) {
+      if (ingredientAmount(recipeIngredient) === null) maxServings = 0
+      return
+    }
+
     if (!pantryItem) {
       maxServings = 0
       return
     }
 
-    // Convert units if needed (simplified - in production would need proper unit conversion)
-    const availableQuantity = pantryItem.quantity
-    const requiredQuantity = recipeIngredient.quantity
+    // Compare both sides in the ingredient's own unit
+    const availableQuantity = pantryAmount(pantryItem)
+    const requiredQuantity = ingredientAmount(recipeIngredient)
+
+    if (requiredQuantity === null) {
+      maxServings = 0
+      return
+    }
 
-    const possibleServings = Math.floor(availableQuantity / requiredQuantity)
+    const possibleServings = floorServings(availableQuantity / requiredQuantity)
     maxServings = Math.min(maxServings, possibleServings)
   })
 
-  return maxServings === Infinity ? 0 : maxServings
+  if (maxServings === Infinity) {
+    return recipe.recipe_ingredients.length > 0 ? MAX_PURCHASED_SERVINGS : 0
+  }
+  return maxServings
+}
+
+/**
+ * Whether a recipe may be served in the given meal slot
+ */
+function isSuitableForSlot(recipe: Recipe, slot: MealSlotConfig): boolean {
+  return slotRecipeTypes(slot).some((type) => recipe.meal_types.includes(type))
+}
+
+/**
+ * Stretch meals among the meals already planned
+ */
+function countStretchMeals(
+  selections: Array<{ recipe: Recipe }>,
+  constraints: PlanConstraints
+): number {
+  return selections.filter((s) =>
+    isStretch(s.recipe.skill_level, constraints.skillLevel)
+  ).length
+}
+
+/**
+ * Whether a recipe can be eaten on `day` next to the meals already planned:
+ * within the user's skill (or the stretch allowance left), within its fridge
+ * life after the prep session, and without taking the day it's cooked on
+ * past its cooking time limit
+ */
+function fitsConstraints(
+  recipe: Recipe,
+  day: number,
+  selections: Array<{ recipe: Recipe; day: number }>,
+  constraints: PlanConstraints
+): boolean {
+  const { prepDays, cookTimeLimits, skillLevel, stretchMeals } = constraints
+  if (
+    !withinSkill(
+      recipe.skill_level,
+      skillLevel,
+      stretchMeals,
+      countStretchMeals(selections, constraints)
+    )
+  ) {
+    return false
+  }
+  if (!fitsPrepSchedule(recipe, day, prepDays)) return false
+
+  const session = cookingSession(day, prepDays)
+  const limit = sessionCookTimeLimit(session, cookTimeLimits)
+  if (limit === null) return true
+  return (
+    (sessionCookTimes(selections, prepDays).get(session) ?? 0) +
+      additionalCookTime({ day, recipe }, selections, prepDays) <=
+    limit * 60
+  )
+}
+
+/**
+ * Find a free day/slot the recipe is suitable for, scanning `days` in order
+ * and skipping days that don't fit the cooking constraints.
+ * With a `random` source the slot is picked at random among the free ones.
+ */
+function findFreeSlot(
+  recipe: Recipe,
+  slots: MealSlotConfig[],
+  constraints: PlanConstraints,
+  selections: MealSelection[],
+  days: number[],
+  random?: RandomSource
+): { day: number; slot: string } | null {
+  const free: Array<{ day: number; slot: string }> = []
+
+  for (const day of days) {
+    if (!fitsConstraints(recipe, day, selections, constraints)) continue
+    for (const slot of slots) {
+      if (!isSuitableForSlot(recipe, slot)) continue
+      if (selections.some((s) => s.day === day && s.slot === slot.name)) {
+        continue
+      }
+      free.push({ day, slot: slot.name })
+    }
+  }
+
+  if (free.length === 0) return null
+  return random ? free[Math.floor(random() * free.length)] : free[0]
 }
 
 /**
@@ -127,77 +568,96 @@ function sortByProteinDensity(recipes: RecipeWithMacros[]): RecipeWithMacros[] {
 }
 
 /**
- * Greedy algorithm: Fill daily protein target first
+ * Days still short of a macro, each against its own target
+ */
+function daysShortOf(
+  key: keyof MacroProfile,
+  dayTargets: MacroProfile[],
+  dayMacros: MacroProfile[]
+): number[] {
+  return dayTargets
+    .map((_, day) => day)
+    .filter((day) => dayTargets[day][key] - dayMacros[day][key] > 0)
+}
+
+/**
+ * Add a recipe's macros to its day's running totals
+ */
+function addToDay(
+  dayMacros: MacroProfile[],
+  day: number,
+  recipe: RecipeWithMacros,
+  servings: number
+): void {
+  dayMacros[day] = {
+    calories: dayMacros[day].calories + recipe.macros.calories * servings,
+    protein: dayMacros[day].protein + recipe.macros.protein * servings,
+    carbs: dayMacros[day].carbs + recipe.macros.carbs * servings,
+    fat: dayMacros[day].fat + recipe.macros.fat * servings,
+  }
+}
+
+/**
+ * Greedy algorithm: Fill each day's protein target first
  */
 function greedyProteinFill(
   recipes: RecipeWithMacros[],
-  dailyTargets: MacroProfile,
-  daysInWeek: number = 7
+  dayTargets: MacroProfile[],
+  mealSlots: MealSlotConfig[],
+  constraints: PlanConstraints,
+  lockedMeals: MealSelection[]
 ): {
-  selectedRecipes: Array<{
-    recipe: RecipeWithMacros
-    servings: number
-    day: number
-    slot: string
-  }>
-  currentMacros: MacroProfile
+  selectedRecipes: MealSelection[]
+  dayMacros: MacroProfile[]
 } {
   const sortedRecipes = sortByProteinDensity(recipes)
-  const selectedRecipes: Array<{
-    recipe: RecipeWithMacros
-    servings: number
-    day: number
-    slot: string
-  }> = []
-  const currentMacros: MacroProfile = {
-    calories: 0,
-    protein: 0,
-    carbs: 0,
-    fat: 0,
-  }
-
-  const mealSlots = ['breakfast', 'lunch', 'dinner']
-  let currentDay = 0
-  let currentSlot = 0
-
-  // TODO: Implement more sophisticated meal slot assignment based on recipe types
-  // e.g., breakfast recipes in breakfast slots, etc.
+  // Locked meals already fill their slots and count towards their days
+  const selectedRecipes: MealSelection[] = [...lockedMeals]
+  const dayMacros: MacroProfile[] = dayTargets.map((_, day) =>
+    scaleProfile(
+      sumSelectionMacros(lockedMeals.filter((s) => s.day === day)),
+      1
+    )
+  )
 
   for (const recipe of sortedRecipes) {
-    // Calculate how many servings we need to hit protein target
-    const dailyProteinNeeded = Math.max(
-      0,
-      dailyTargets.protein - currentMacros.protein / daysInWeek
+    const shortDays = daysShortOf('protein', dayTargets, dayMacros)
+    if (shortDays.length === 0) break
+
+    // Next free main-meal slot this recipe is suitable for, on a day that
+    // still needs protein
+    const position = findFreeSlot(
+      recipe,
+      mealSlots,
+      constraints,
+      selectedRecipes,
+      shortDays
     )
+    if (!position) continue
 
-    if (dailyProteinNeeded <= 0) break
-
-    const servingsNeeded = Math.ceil(dailyProteinNeeded / recipe.macros.protein)
+    // Calculate how many servings we need to hit the day's protein target
+    const { day } = position
+    const servingsNeeded = ceilServings(
+      (dayTargets[day].protein - dayMacros[day].protein) / recipe.macros.protein
+    )
     const servingsToAdd = Math.min(servingsNeeded, recipe.availableServings, 3) // Max 3 servings per recipe
 
     if (servingsToAdd > 0) {
       selectedRecipes.push({
         recipe,
         servings: servingsToAdd,
-        day: currentDay % daysInWeek,
-        slot: mealSlots[currentSlot % mealSlots.length],
+        day,
+        slot: position.slot,
+        pick: {
+          step: 'protein',
+          gap: remainingGap(dayTargets[day], dayMacros[day]),
+        },
       })
-
-      // Update current macros
-      currentMacros.calories += recipe.macros.calories * servingsToAdd
-      currentMacros.protein += recipe.macros.protein * servingsToAdd
-      currentMacros.carbs += recipe.macros.carbs * servingsToAdd
-      currentMacros.fat += recipe.macros.fat * servingsToAdd
-
-      // Move to next meal slot
-      currentSlot++
-      if (currentSlot % mealSlots.length === 0) {
-        currentDay++
-      }
+      addToDay(dayMacros, day, recipe, servingsToAdd)
     }
   }
 
-  return { selectedRecipes, currentMacros }
+  return { selectedRecipes, dayMacros }
 }
 
 /**
@@ -205,38 +665,24 @@ function greedyProteinFill(
  */
 function fillRemainingMacros(
   recipes: RecipeWithMacros[],
-  selectedRecipes: Array<{
-    recipe: RecipeWithMacros
-    servings: number
-    day: number
-    slot: string
-  }>,
-  currentMacros: MacroProfile,
-  dailyTargets: MacroProfile,
-  daysInWeek: number = 7
-): Array<{
-  recipe: RecipeWithMacros
-  servings: number
-  day: number
-  slot: string
-}> {
+  selectedRecipes: MealSelection[],
+  dayMacros: MacroProfile[],
+  dayTargets: MacroProfile[],
+  topUpSlots: MealSlotConfig[],
+  constraints: PlanConstraints,
+  random: RandomSource
+): MealSelection[] {
   const usedRecipeIds = new Set(selectedRecipes.map((s) => s.recipe.id))
   const availableRecipes = recipes.filter(
-    (r) => !usedRecipeIds.has(r.id) && r.availableServings > 0
+    (r) =>
+      !usedRecipeIds.has(r.id) &&
+      r.availableServings > 0 &&
+      topUpSlots.some((slot) => isSuitableForSlot(r, slot))
   )
 
   // TODO: Implement sophisticated carb/fat filling algorithm
   // For now, add simple complementary recipes based on macro gaps
 
-  const dailyCarbGap = Math.max(
-    0,
-    dailyTargets.carbs - currentMacros.carbs / daysInWeek
-  )
-  const dailyFatGap = Math.max(
-    0,
-    dailyTargets.fat - currentMacros.fat / daysInWeek
-  )
-
   // Sort by carb density for carb filling, fat density for fat filling
   const carbRichRecipes = availableRecipes
     .filter((r) => r.macros.carbs > r.macros.fat)
@@ -254,30 +700,27 @@ function fillRemainingMacros(
 
   const additionalRecipes = [...selectedRecipes]
 
-  // Add carb-rich recipes if needed
-  if (dailyCarbGap > 0 && carbRichRecipes.length > 0) {
-    const recipe = carbRichRecipes[0]
-    const servingsNeeded = Math.min(
-      Math.ceil(dailyCarbGap / recipe.macros.carbs),
-      recipe.availableServings,
-      2
+  // Top up one day still short of the macro with the richest recipe for it
+  const topUp = (key: 'carbs' | 'fat', richRecipes: RecipeWithMacros[]) => {
+    const shortDays = daysShortOf(key, dayTargets, dayMacros)
+    if (shortDays.length === 0 || richRecipes.length === 0) return
+
+    const recipe = richRecipes[0]
+    const position = findFreeSlot(
+      recipe,
+      topUpSlots,
+      constraints,
+      additionalRecipes,
+      shortDays,
+      random
     )
+    if (!position) return
 
-    if (servingsNeeded > 0) {
-      additionalRecipes.push({
-        recipe,
-        servings: servingsNeeded,
-        day: Math.floor(Math.random() * daysInWeek),
-        slot: 'snack',
-      })
-    }
-  }
-
-  // Add fat-rich recipes if needed
-  if (dailyFatGap > 0 && fatRichRecipes.length > 0) {
-    const recipe = fatRichRecipes[0]
+    const { day } = position
     const servingsNeeded = Math.min(
-      Math.ceil(dailyFatGap / recipe.macros.fat),
+      ceilServings(
+        (dayTargets[day][key] - dayMacros[day][key]) / recipe.macros[key]
+      ),
       recipe.availableServings,
       2
     )
@@ -286,58 +729,43 @@ function fillRemainingMacros(
       additionalRecipes.push({
         recipe,
         servings: servingsNeeded,
-        day: Math.floor(Math.random() * daysInWeek),
-        slot: 'snack',
+        day,
+        slot: position.slot,
+        pick: { step: key, gap: remainingGap(dayTargets[day], dayMacros[day]) },
       })
+      addToDay(dayMacros, day, recipe, servingsNeeded)
     }
   }
 
+  // Add carb-rich recipes if needed, then fat-rich ones
+  topUp('carbs', carbRichRecipes)
+  topUp('fat', fatRichRecipes)
+
   return additionalRecipes
 }
 
 /**
- * Fine-tune servings to hit macro targets within ±5%
+ * Fine-tune servings to hit each day's calories within ±15%
  */
 function fineTuneMacros(
-  selectedRecipes: Array<{
-    recipe: RecipeWithMacros
-    servings: number
-    day: number
-    slot: string
-  }>,
-  dailyTargets: MacroProfile,
-  daysInWeek: number = 7
-): Array<{
-  recipe: RecipeWithMacros
-  servings: number
-  day: number
-  slot: string
-}> {
-  // Calculate current weekly macros
-  const weeklyMacros = { calories: 0, protein: 0, carbs: 0, fat: 0 }
+  selectedRecipes: MealSelection[],
+  dayTargets: MacroProfile[]
+): MealSelection[] {
+  // Calculate each day's current calories
+  const dayCalories = dayTargets.map(() => 0)
   selectedRecipes.forEach((selection) => {
-    weeklyMacros.calories +=
+    dayCalories[selection.day] +=
       selection.recipe.macros.calories * selection.servings
-    weeklyMacros.protein += selection.recipe.macros.protein * selection.servings
-    weeklyMacros.carbs += selection.recipe.macros.carbs * selection.servings
-    weeklyMacros.fat += selection.recipe.macros.fat * selection.servings
   })
 
-  const dailyMacros = {
-    calories: weeklyMacros.calories / daysInWeek,
-    protein: weeklyMacros.protein / daysInWeek,
-    carbs: weeklyMacros.carbs / daysInWeek,
-    fat: weeklyMacros.fat / daysInWeek,
-  }
-
-  // TODO: Implement fine-tuning algorithm that scales servings by ±10g
-  // to hit macros within ±5% of targets
-
-  // For now, return as-is with a simple adjustment
+  // Coarse serving adjustment only; ingredient-level tuning happens afterwards
+  // in fineTuneIngredients
   const adjustedRecipes = selectedRecipes.map((selection) => {
+    if (selection.locked) return selection
+
+    const target = dayTargets[selection.day].calories
     const calorieAccuracy =
-      Math.abs(dailyMacros.calories - dailyTargets.calories) /
-      dailyTargets.calories
+      Math.abs(dayCalories[selection.day] - target) / target
 
     if (calorieAccuracy > 0.15) {
       // More than 15% off
@@ -345,7 +773,10 @@ function fineTuneMacros(
       const scaleFactor = calorieAccuracy > 0.5 ? 0.8 : 0.9
       return {
         ...selection,
-        servings: Math.max(1, Math.round(selection.servings * scaleFactor)),
+        servings: Math.max(
+          SERVING_STEP,
+          roundServings(selection.servings * scaleFactor)
+        ),
       }
     }
 
@@ -355,33 +786,753 @@ function fineTuneMacros(
   return adjustedRecipes
 }
 
+/**
+ * Original greedy chain: protein fill, carb/fat top-up, then fine-tune, each
+ * day against its own targets.
+ * Protein goes into the main meals and top-ups into the snack slots; with no
+ * snack slot configured, top-ups take whatever slots are still free. Locked
+ * meals are part of the result from the start.
+ */
+function generateGreedySelections(
+  recipes: RecipeWithMacros[],
+  dayTargets: MacroProfile[],
+  mealSlots: MealSlotConfig[],
+  constraints: PlanConstraints,
+  lockedMeals: MealSelection[],
+  random: RandomSource
+): MealSelection[] {
+  const snackSlots = mealSlots.filter((slot) =>
+    slotRecipeTypes(slot).includes('snack')
+  )
+  const mainSlots = mealSlots.filter((slot) => !snackSlots.includes(slot))
+
+  const { selectedRecipes: proteinFilledRecipes, dayMacros } =
+    greedyProteinFill(
+      recipes,
+      dayTargets,
+      mainSlots.length > 0 ? mainSlots : mealSlots,
+      constraints,
+      lockedMeals
+    )
+
+  const filledRecipes = fillRemainingMacros(
+    recipes,
+    proteinFilledRecipes,
+    dayMacros,
+    dayTargets,
+    snackSlots.length > 0 ? snackSlots : mealSlots,
+    constraints,
+    random
+  )
+
+  return fineTuneMacros(filledRecipes, dayTargets)
+}
+
+/**
+ * Pick a manageable, macro-diverse candidate pool for the exact solver.
+ * Takes the best protein, carb and fat sources in turn so every macro has
+ * something to close its gap with. Preferred recipes (e.g. ones that use up
+ * expiring stock) get up to half of the pool first.
+ */
+function selectCandidates(
+  recipes: RecipeWithMacros[],
+  preferred: (recipe: RecipeWithMacros) => boolean = () => false,
+  limit: number = MAX_CANDIDATES_PER_SLOT
+): RecipeWithMacros[] {
+  const available = recipes.filter(
+    (recipe) => recipe.availableServings > 0 && recipe.macros.calories > 0
+  )
+  const share = (recipe: RecipeWithMacros, key: 'protein' | 'carbs' | 'fat') =>
+    (recipe.macros[key] * KCAL_PER_GRAM[key]) / recipe.macros.calories
+
+  const rankings = (['protein', 'carbs', 'fat'] as const).map((key) =>
+    [...available].sort((a, b) => share(b, key) - share(a, key))
+  )
+
+  const selected = new Map<string, RecipeWithMacros>(
+    available
+      .filter(preferred)
+      .slice(0, Math.floor(limit / 2))
+      .map((recipe) => [recipe.id, recipe])
+  )
+  for (let rank = 0; selected.size < limit && rank < available.length; rank++) {
+    for (const ranking of rankings) {
+      if (selected.size >= limit) break
+      const recipe = ranking[rank]
+      if (!selected.has(recipe.id)) selected.set(recipe.id, recipe)
+    }
+  }
+
+  return Array.from(selected.values())
+}
+
+function scaleProfile(profile: MacroProfile, factor: number): MacroProfile {
+  return {
+    calories: profile.calories * factor,
+    protein: profile.protein * factor,
+    carbs: profile.carbs * factor,
+    fat: profile.fat * factor,
+  }
+}
+
+/**
+ * How far each macro still is below its target
+ */
+function remainingGap(
+  target: MacroProfile,
+  actual: MacroProfile
+): MacroProfile {
+  return {
+    calories: Math.max(0, target.calories - actual.calories),
+    protein: Math.max(0, target.protein - actual.protein),
+    carbs: Math.max(0, target.carbs - actual.carbs),
+    fat: Math.max(0, target.fat - actual.fat),
+  }
+}
+
+/**
+ * Pantry consumption of one serving, keyed by ingredient
+ */
+function recipeResources(recipe: Recipe): Record<string, number> {
+  const resources: Record<string, number> = {}
+  recipe.recipe_ingredients.forEach((ingredient) => {
+    resources[ingredient.ingredient_id] =
+      (resources[ingredient.ingredient_id] ?? 0) +
+      (ingredientAmount(ingredient) ?? 0)
+  })
+  return resources
+}
+
+/**
+ * How the servings cooked of a recipe grow with the user's servings in a
+ * slot: each member who shares the slot eats in proportion to the user
+ * (`perServing` includes the user's own serving), plus up to a serving step
+ * each (`fixed`) from rounding their portion.
+ */
+function householdScaling(
+  recipe: RecipeWithMacros,
+  slot: string,
+  dayTarget: MacroProfile,
+  household: HouseholdMember[]
+): { perServing: number; fixed: number } {
+  const members = household.filter((member) =>
+    member.sharedSlots.includes(slot)
+  )
+  const share =
+    dayTarget.calories > 0 ? recipe.macros.calories / dayTarget.calories : 0
+
+  return {
+    perServing: members.reduce(
+      (total, member) =>
+        total +
+        exactPortion(recipe.macros, scaleProfile(member.dailyTargets, share)),
+      1
+    ),
+    fixed: members.length * SERVING_STEP,
+  }
+}
+
+/**
+ * Exact optimization, one day at a time: for each day choose the recipes and
+ * servings that minimize weighted deviation from that day's own macro
+ * targets. Pantry stock and recipe availability are shared across the week,
+ * so each day only sees what earlier days left behind.
+ *
+ * Slots with a share of daily calories get it as a soft bound, handled by the
+ * solver like a nutrient limit (±10% of the share).
+ *
+ * With a weekly budget, priced ingredients can be bought beyond the pantry
+ * stock. Each day may spend an even share of what's left of the budget over
+ * the days left to plan, so what a day doesn't spend carries over and a week
+ * the budget can't cover falls short on every day rather than the last ones.
+ *
+ * Pantry stock that expires during the week is gone after its last day, and
+ * until then each day gets a soft goal to use its share of what's left, so
+ * the solver schedules it on the earlier days.
+ *
+ * With prep days, a day only sees recipes that are still within their fridge
+ * life after the prep session (or that can be frozen). With a cooking time
+ * limit on the day a meal is cooked, each recipe not yet cooked that day uses
+ * its cooking time once, whatever its servings. Stretch recipes likewise use
+ * one of the week's stretch meals each.
+ *
+ * Meals are cooked for the household members who share their slot too, so
+ * a recipe's ingredients and what they cost are counted for every portion
+ * (see `householdScaling`).
+ *
+ * Locked meals keep their slots; their macros and nutrients are the base the
+ * day's other meals are added to. `pantryItems` should already be what the
+ * locked meals leave behind. Only `days` are planned, and never with the
+ * `excluded` recipes. Also returns the candidates each slot was solved with
+ * and how each day's search went.
+ *
+ * The objective adds the day's cooking time or shopping cost to what the
+ * solver minimizes; using up the pantry is set up as expiring stock instead
+ * (see `preparePlanning`).
+ *
+ * Each day is solved twice: first in whole servings to pick the recipes,
+ * then in serving steps (quarter servings) over just the picked recipes.
+ * Searching every candidate in quarter steps multiplies the search space
+ * and runs out of nodes long before proving anything.
+ */
+function optimizeServings(
+  recipes: RecipeWithMacros[],
+  pantryItems: PantryItem[],
+  dayTargets: MacroProfile[],
+  nutrientTargets: NutrientTargets,
+  mealSlots: MealSlotConfig[],
+  unitPrices: UnitPrices,
+  budget: number,
+  pantryExpiry: Record<string, number>,
+  constraints: PlanConstraints,
+  lockedMeals: MealSelection[],
+  days: number[] = dayTargets.map((_, day) => day),
+  excluded: Set<string> = new Set(),
+  objective: PlanObjective = 'accuracy',
+  household: HouseholdMember[] = []
+): {
+  selections: MealSelection[]
+  considered: ConsideredRecipes[]
+  searches: SolverSearch[]
+} {
+  const resourceLimits: Record<string, number> = {}
+  if (budget > 0) {
+    Object.keys(unitPrices).forEach((ingredientId) => {
+      resourceLimits[ingredientId] = 0
+    })
+  }
+  pantryItems.forEach((item) => {
+    resourceLimits[item.ingredient_id] = pantryAmount(item)
+  })
+  let remainingBudget = budget
+  const remainingServings = new Map(
+    recipes.map((recipe) => [recipe.id, recipe.availableServings])
+  )
+
+  const selections: MealSelection[] = [...lockedMeals]
+  const considered: ConsideredRecipes[] = []
+  const searches: SolverSearch[] = []
+
+  for (const [position, day] of days.entries()) {
+    const lockedToday = lockedMeals.filter((s) => s.day === day)
+    const freeSlots = mealSlots.filter(
+      (slot) => !lockedToday.some((s) => s.slot === slot.name)
+    )
+    const available = recipes
+      .filter((recipe) => !lockedToday.some((s) => s.recipe.id === recipe.id))
+      .filter((recipe) => fitsConstraints(recipe, day, selections, constraints))
+      .map((recipe) => ({
+        ...recipe,
+        availableServings: remainingServings.get(recipe.id) ?? 0,
+      }))
+
+    // Spread what's left of expiring stock over the days it has left
+    const goals: Record<string, number> = {}
+    Object.entries(pantryExpiry).forEach(([ingredientId, lastDay]) => {
+      if (resourceLimits[ingredientId] === undefined) return
+      if (lastDay < day) {
+        resourceLimits[ingredientId] = 0
+      } else if (lastDay < dayTargets.length) {
+        goals[ingredientId] = resourceLimits[ingredientId] / (lastDay - day + 1)
+      }
+    })
+
+    // One option per (recipe, slot) pair, limited to suitable recipes. Groups
+    // keep it to one recipe per slot and one slot per recipe each day.
+    const usesExpiringStock = (recipe: RecipeWithMacros) =>
+      recipe.recipe_ingredients.some(
+        (ingredient) => goals[ingredient.ingredient_id] > 0
+      )
+    const options = freeSlots.flatMap((slot) =>
+      selectCandidates(
+        available.filter(
+          (recipe) =>
+            isSuitableForSlot(recipe, slot) && !excluded.has(recipe.id)
+        ),
+        usesExpiringStock
+      ).map((recipe) => ({
+        recipe,
+        slot: slot.name,
+        resources: recipeResources(recipe),
+        scaling: householdScaling(
+          recipe,
+          slot.name,
+          dayTargets[day],
+          household
+        ),
+        cookTime: additionalCookTime(
+          { day, recipe },
+          selections,
+          constraints.prepDays
+        ),
+      }))
+    )
+    if (options.length === 0) continue
+
+    freeSlots.forEach((slot) => {
+      const candidates = options.filter((option) => option.slot === slot.name)
+      if (candidates.length === 0) return
+      considered.push({
+        day,
+        slot: slot.name,
+        recipes: candidates.map(({ recipe }) => ({
+          id: recipe.id,
+          name: recipe.name,
+        })),
+      })
+    })
+
+    // Cooking time left in the session today's meals are cooked in
+    const session = cookingSession(day, constraints.prepDays)
+    const cookTimeLimit = sessionCookTimeLimit(
+      session,
+      constraints.cookTimeLimits
+    )
+    const dayLimits: Record<string, number> = {
+      ...resourceLimits,
+      [STRETCH]:
+        constraints.stretchMeals - countStretchMeals(selections, constraints),
+    }
+    if (cookTimeLimit !== null) {
+      dayLimits[COOK_TIME] =
+        cookTimeLimit * 60 -
+        (sessionCookTimes(selections, constraints.prepDays).get(session) ?? 0)
+    }
+
+    const bounds: NutrientTargets = { ...nutrientTargets }
+    freeSlots.forEach((slot) => {
+      if (!slot.calorie_pct) return
+      const share = (dayTargets[day].calories * slot.calorie_pct) / 100
+      bounds[`slot:${slot.name}`] = {
+        min: share * (1 - SLOT_CALORIE_TOLERANCE),
+        max: share * (1 + SLOT_CALORIE_TOLERANCE),
+      }
+    })
+
+    const lockedTotals = sumSelectionMacros(lockedToday)
+    const gap = remainingGap(dayTargets[day], lockedTotals)
+
+    // An even share of what's left, so the days after this one get theirs
+    const dayBudget = remainingBudget / (days.length - position)
+
+    // The solver counts whole units; `unit` is how many servings one is
+    const solveDay = (chosen: typeof options, unit: number, budget: number) =>
+      solveAllocation({
+        items: chosen.map(({ recipe, slot, resources, scaling, cookTime }) => ({
+          id: `${recipe.id}:${slot}`,
+          macros: scaleProfile(recipe.macros, unit),
+          maxUnits: Math.floor(
+            floorServings(
+              Math.min(
+                recipe.availableServings / scaling.perServing,
+                MAX_SERVINGS_PER_MEAL
+              )
+            ) /
+              unit +
+              1e-9
+          ),
+          resources: Object.fromEntries(
+            Object.entries(resources).map(([id, perServing]) => [
+              id,
+              perServing * scaling.perServing * unit,
+            ])
+          ),
+          fixedResources: {
+            ...Object.fromEntries(
+              Object.entries(resources).map(([id, perServing]) => [
+                id,
+                perServing * scaling.fixed,
+              ])
+            ),
+            [COOK_TIME]: cookTime,
+            [STRETCH]: isStretch(recipe.skill_level, constraints.skillLevel)
+              ? 1
+              : 0,
+          },
+          groups: [`slot:${slot}`, `recipe:${recipe.id}`],
+          nutrients: {
+            ...Object.fromEntries(
+              Object.keys(nutrientTargets).map((key) => [
+                key,
+                (recipe.macros.nutrients[key] ?? 0) * unit,
+              ])
+            ),
+            [`slot:${slot}`]: recipe.macros.calories * unit,
+          },
+        })),
+        target: dayTargets[day],
+        baseTotals: scaleProfile(lockedTotals, 1),
+        baseNutrients: lockedTotals.nutrients,
+        resourceLimits: dayLimits,
+        nutrientBounds: bounds,
+        resourcePrices: unitPrices,
+        budget,
+        resourceGoals: goals,
+        resourceWeights:
+          objective === 'cook-time' ? { [COOK_TIME]: COOK_TIME_WEIGHT } : {},
+        costWeight: objective === 'cost' ? COST_WEIGHT : 0,
+      })
+
+    // A day's share may not buy a whole serving of anything, so the recipes
+    // are picked against what the share buys in serving steps, as if each
+    // were a whole serving; only the serving steps have to fit the share
+    const coarse = solveDay(options, 1, dayBudget / SERVING_STEP)
+    const picked = options.filter((_, index) => coarse.units[index] > 0)
+    const fine = solveDay(picked, SERVING_STEP, dayBudget)
+    searches.push({
+      day,
+      optimal: coarse.optimal && fine.optimal,
+      nodesExplored: coarse.nodesExplored + fine.nodesExplored,
+    })
+
+    picked.forEach(({ recipe, slot, resources }, index) => {
+      const servings = fine.units[index] * SERVING_STEP
+      if (servings === 0) return
+
+      const selection = withPortions(
+        { recipe, servings, day, slot, pick: { step: 'optimal', gap } },
+        dayTargets,
+        household
+      )
+      selections.push(selection)
+
+      // What the household's portions actually take, which the solver only
+      // allowed for
+      const cooked = cookedSelection(selection).servings
+      remainingServings.set(
+        recipe.id,
+        (remainingServings.get(recipe.id) ?? 0) - cooked
+      )
+      // Anything bought beyond the stock is used up the same day
+      Object.entries(resources).forEach(([ingredientId, perServing]) => {
+        const limit = resourceLimits[ingredientId]
+        if (limit === undefined) return
+        const needed = perServing * cooked
+        if (budget > 0) {
+          remainingBudget -=
+            (unitPrices[ingredientId] ?? 0) * Math.max(0, needed - limit)
+        }
+        resourceLimits[ingredientId] = Math.max(0, limit - needed)
+      })
+    })
+  }
+
+  return { selections, considered, searches }
+}
+
+/**
+ * Sum the macros of a set of selections (weekly totals)
+ */
+function sumSelectionMacros(selections: MealSelection[]): NutritionProfile {
+  return selections.reduce<NutritionProfile>(
+    (totals, selection) => {
+      const macros = selectionMacros(selection)
+      return {
+        calories: totals.calories + macros.calories * selection.servings,
+        protein: totals.protein + macros.protein * selection.servings,
+        carbs: totals.carbs + macros.carbs * selection.servings,
+        fat: totals.fat + macros.fat * selection.servings,
+        nutrients: addNutrients(
+          { ...totals.nutrients },
+          macros.nutrients,
+          selection.servings
+        ),
+      }
+    },
+    { calories: 0, protein: 0, carbs: 0, fat: 0, nutrients: {} }
+  )
+}
+
+/**
+ * Per-day totals and deviation from that day's targets
+ */
+function calculateDailyBreakdown(
+  selections: MealSelection[],
+  dayTargets: MacroProfile[],
+  nutrientTargets: NutrientTargets,
+  constraints: PlanConstraints
+): DailyMacroBreakdown[] {
+  const cookTimes = dailyCookTimes(selections, constraints.prepDays)
+  return dayTargets.map((dailyTargets, day) => {
+    const totals = sumSelectionMacros(selections.filter((s) => s.day === day))
+
+    return {
+      day,
+      actual: roundMacros(totals),
+      target: dailyTargets,
+      deviation: calculateMacroDeviation(totals, dailyTargets),
+      accuracy: calculateMacroAccuracy(totals, dailyTargets),
+      nutrients: Object.entries(nutrientTargets).map(([key, bound]) => {
+        const actual = Math.round((totals.nutrients[key] ?? 0) * 10) / 10
+        return { key, actual, ...bound, status: boundStatus(actual, bound) }
+      }),
+      cookTime: cookTimes[day],
+      cookTimeLimit: constraints.cookTimeLimits[day] ?? null,
+    }
+  })
+}
+
+/**
+ * Per-serving quantity of an ingredient in a selection, tuned if adjusted
+ */
+function selectionQuantity(
+  selection: MealSelection,
+  ingredient: Recipe['recipe_ingredients'][number]
+): number {
+  return selection.quantities?.[ingredient.ingredient_id] ?? ingredient.quantity
+}
+
+/**
+ * Per-serving macros of a selection, honouring tuned ingredient quantities
+ */
+function selectionMacros(selection: MealSelection): NutritionProfile {
+  if (!selection.quantities) return selection.recipe.macros
+
+  const macros = emptyNutrition()
+  selection.recipe.recipe_ingredients.forEach((ingredient) => {
+    addIngredientNutrition(
+      macros,
+      ingredient.ingredients,
+      ingredientAmount(ingredient, selectionQuantity(selection, ingredient)) ??
+        0
+    )
+  })
+  return macros
+}
+
+/**
+ * Ingredient-level fine tuning: nudge individual ingredient quantities in
+ * small steps, within each ingredient's flex bounds (`flex_pct`) and the
+ * remaining pantry stock, until every macro of the day is within ±5% and
+ * every nutrient within its limits, or no step improves the day any further.
+ * With a budget, priced ingredients may go past their stock as long as what
+ * has to be bought still fits the budget. Locked meals are counted but never
+ * changed.
+ *
+ * The household's portions are settled before tuning and returned with the
+ * meals, so the stock and budget cover everything that's cooked.
+ */
+function fineTuneIngredients(
+  selections: MealSelection[],
+  dayTargets: MacroProfile[],
+  nutrientTargets: NutrientTargets,
+  pantryItems: PantryItem[],
+  unitPrices: UnitPrices = {},
+  budget: number = 0,
+  household: HouseholdMember[] = []
+): MealSelection[] {
+  const tuned = selections.map((selection) => ({
+    ...(selection.locked
+      ? selection
+      : withPortions(selection, dayTargets, household)),
+    quantities: Object.fromEntries(
+      selection.recipe.recipe_ingredients.map((ingredient) => [
+        ingredient.ingredient_id,
+        selectionQuantity(selection, ingredient),
+      ])
+    ),
+  }))
+
+  // Pantry stock left after the untuned plan, in each ingredient's own unit.
+  // Below zero for ingredients that have to be bought.
+  const prices = budget > 0 ? unitPrices : {}
+  const remainingStock = new Map(
+    Object.keys(prices).map((ingredientId) => [ingredientId, 0])
+  )
+  pantryItems.forEach((item) => {
+    remainingStock.set(item.ingredient_id, pantryAmount(item))
+  })
+  tuned.forEach((selection) => {
+    selection.recipe.recipe_ingredients.forEach((ingredient) => {
+      const stock = remainingStock.get(ingredient.ingredient_id)
+      const used = ingredientAmount(
+        ingredient,
+        selection.quantities[ingredient.ingredient_id]
+      )
+      if (stock !== undefined && used !== null) {
+        remainingStock.set(
+          ingredient.ingredient_id,
+          stock - used * cookedSelection(selection).servings
+        )
+      }
+    })
+  })
+
+  // Cost of what has to be bought, and how a stock change would alter it
+  const purchaseCost = (ingredientId: string, stock: number) =>
+    (prices[ingredientId] ?? 0) * Math.max(0, -stock)
+  let spent = 0
+  remainingStock.forEach((stock, ingredientId) => {
+    spent += purchaseCost(ingredientId, stock)
+  })
+
+  const withinTolerance = (totals: NutritionProfile, target: MacroProfile) =>
+    (['calories', 'protein', 'carbs', 'fat'] as const).every(
+      (key) =>
+        target[key] <= 0 ||
+        Math.abs(totals[key] - target[key]) / target[key] <= TUNE_TOLERANCE
+    ) && nutrientBoundPenalty(totals.nutrients, nutrientTargets) === 0
+
+  const score = (totals: NutritionProfile, target: MacroProfile) =>
+    macroDeviation(totals, target) +
+    nutrientBoundPenalty(totals.nutrients, nutrientTargets)
+
+  dayTargets.forEach((target, day) => {
+    const dayMeals = tuned.filter((selection) => selection.day === day)
+    if (dayMeals.length === 0) return
+
+    for (let iteration = 0; iteration < MAX_TUNE_ITERATIONS; iteration++) {
+      const totals = sumSelectionMacros(dayMeals)
+      if (withinTolerance(totals, target)) break
+
+      const currentDeviation = score(totals, target)
+      let bestMove: {
+        selection: (typeof tuned)[number]
+        ingredientId: string
+        delta: number
+        stockDelta: number // delta in the ingredient's own unit
+        costDelta: number
+        deviation: number
+      } | null = null
+
+      for (const selection of dayMeals) {
+        if (selection.locked) continue
+        for (const ingredient of selection.recipe.recipe_ingredients) {
+          const base = ingredient.quantity
+          const flex = (ingredient.flex_pct ?? 0) / 100
+          if (flex <= 0 || base <= 0) continue
+
+          const step = Math.min(TUNE_STEP, base * 0.1)
+          const quantity = selection.quantities[ingredient.ingredient_id]
+          const nutrition = ingredient.ingredients
+          const unitFactor = ingredientAmount(ingredient, 1)
+          if (unitFactor === null) continue
+          const cooked = cookedSelection(selection).servings
+
+          for (const delta of [step, -step]) {
+            const next = quantity + delta
+            if (next < base * (1 - flex) - 1e-9) continue
+            if (next > base * (1 + flex) + 1e-9) continue
+
+            const stockDelta = delta * unitFactor
+            const stock = remainingStock.get(ingredient.ingredient_id)
+            const priced = prices[ingredient.ingredient_id] !== undefined
+            if (
+              delta > 0 &&
+              !priced &&
+              stock !== undefined &&
+              stock < stockDelta * cooked
+            ) {
+              continue
+            }
+
+            const costDelta =
+              stock === undefined
+                ? 0
+                : purchaseCost(
+                    ingredient.ingredient_id,
+                    stock - stockDelta * cooked
+                  ) - purchaseCost(ingredient.ingredient_id, stock)
+            if (costDelta > 0 && spent + costDelta > budget + 1e-9) continue
+
+            const deviation = score(
+              addIngredientNutrition(
+                { ...totals, nutrients: { ...totals.nutrients } },
+                nutrition,
+                stockDelta * selection.servings
+              ),
+              target
+            )
+
+            if (!bestMove || deviation < bestMove.deviation) {
+              bestMove = {
+                selection,
+                ingredientId: ingredient.ingredient_id,
+                delta,
+                stockDelta,
+                costDelta,
+                deviation,
+              }
+            }
+          }
+        }
+      }
+
+      if (!bestMove || bestMove.deviation >= currentDeviation - 1e-9) break
+
+      const { selection, ingredientId, delta, stockDelta, costDelta } = bestMove
+      selection.quantities[ingredientId] += delta
+      spent += costDelta
+      const stock = remainingStock.get(ingredientId)
+      if (stock !== undefined) {
+        remainingStock.set(
+          ingredientId,
+          stock - stockDelta * cookedSelection(selection).servings
+        )
+      }
+    }
+  })
+
+  return tuned
+}
+
+/**
+ * Split a meal into household portions: every member who shares its slot
+ * gets the servings closest to the share of their day's targets that the
+ * meal is of the user's day
+ */
+function withPortions(
+  selection: MealSelection,
+  dayTargets: MacroProfile[],
+  household: HouseholdMember[]
+): MealSelection {
+  return {
+    ...selection,
+    portions: sharedPortions(
+      selectionMacros(selection),
+      selection.servings,
+      selection.slot,
+      dayTargets[selection.day],
+      household
+    ),
+  }
+}
+
+/**
+ * A selection with the servings cooked for the whole household, for what
+ * the plan needs from the pantry and the shops
+ */
+function cookedSelection(selection: MealSelection): MealSelection {
+  return {
+    ...selection,
+    servings: (selection.portions ?? []).reduce(
+      (total, portion) => total + portion.servings,
+      selection.servings
+    ),
+  }
+}
+
 /**
  * Calculate missing ingredients needed for the meal plan
  */
 function calculateMissingIngredients(
-  selectedRecipes: Array<{
-    recipe: RecipeWithMacros
-    servings: number
-    day: number
-    slot: string
-  }>,
-  pantryItems: PantryItem[]
-): Array<{
-  ingredientId: string
-  ingredientName: string
-  neededQuantity: number
-  unit: string
-  availableQuantity: number
-}> {
+  selectedRecipes: MealSelection[],
+  pantryItems: PantryItem[],
+  unitPrices: UnitPrices
+): MissingIngredient[] {
   const ingredientNeeds = new Map<
     string,
     { needed: number; unit: string; name: string; available: number }
   >()
 
-  // Calculate total ingredient needs
+  // Calculate total ingredient needs in each ingredient's own unit
   selectedRecipes.forEach((selection) => {
     selection.recipe.recipe_ingredients.forEach((ingredient) => {
-      const totalNeeded = ingredient.quantity * selection.servings
+      const totalNeeded =
+        (ingredientAmount(
+          ingredient,
+          selectionQuantity(selection, ingredient)
+        ) ?? 0) * selection.servings
       const key = ingredient.ingredient_id
 
       if (ingredientNeeds.has(key)) {
@@ -391,31 +1542,31 @@ function calculateMissingIngredients(
         const pantryItem = pantryItems.find((p) => p.ingredient_id === key)
         ingredientNeeds.set(key, {
           needed: totalNeeded,
-          unit: ingredient.unit,
+          unit: ingredient.ingredients.unit,
           name: ingredient.ingredients.name,
-          available: pantryItem?.quantity || 0,
+          available: pantryItem ? pantryAmount(pantryItem) : 0,
         })
       }
     })
   })
 
   // Find missing ingredients
-  const missingIngredients: Array<{
-    ingredientId: string
-    ingredientName: string
-    neededQuantity: number
-    unit: string
-    availableQuantity: number
-  }> = []
+  const missingIngredients: MissingIngredient[] = []
 
   ingredientNeeds.forEach((need, ingredientId) => {
     if (need.needed > need.available) {
+      const neededQuantity = need.needed - need.available
+      const price = unitPrices[ingredientId]
       missingIngredients.push({
         ingredientId,
         ingredientName: need.name,
-        neededQuantity: need.needed - need.available,
+        neededQuantity,
         unit: need.unit,
         availableQuantity: need.available,
+        estimatedCost:
+          price !== undefined
+            ? Math.round(price * neededQuantity * 100) / 100
+            : null,
       })
     }
   })
@@ -424,227 +1575,679 @@ function calculateMissingIngredients(
 }
 
 /**
- * Main Macro Tetris Algorithm
- * Generates an optimized weekly meal plan based on user targets and pantry availability
- */
-export async function generatePlan(
-  userId: string,
-  weekStart: Date
-): Promise<OptimizationResult> {
-  const supabase = await createClient()
-
-  try {
-    // 1. Fetch user targets + pantry + recipe pool
-    const { data: userProfile, error: userError } = await supabase
-      .from('users')
-      .select('*')
-      .eq('id', userId)
-      .single()
-
-    if (userError || !userProfile) {
-      throw new Error('User profile not found')
-    }
+ * What buying the missing ingredients costs, to the cent. Summed before
+ * rounding, so the per-ingredient estimates can't round a plan over budget.
+ */
+function shoppingCostOf(
+  missingIngredients: MissingIngredient[],
+  unitPrices: UnitPrices
+): number {
+  const cost = missingIngredients.reduce(
+    (sum, item) =>
+      sum + (unitPrices[item.ingredientId] ?? 0) * item.neededQuantity,
+    0
+  )
+  return Math.round(cost * 100) / 100
+}
+
+/**
+ * Convert a selection into a plain meal, keeping only tuned quantities that
+ * differ from the recipe defaults
+ */
+function toProposedMeal(selection: MealSelection): ProposedMeal {
+  const macros = selectionMacros(selection)
 
-    const { data: pantryItems, error: pantryError } = await supabase
-      .from('pantry_items')
-      .select(
-        `
-        *,
-        ingredients (*)
-      `
+  return {
+    recipeId: selection.recipe.id,
+    recipeName: selection.recipe.name,
+    servings: selection.servings,
+    day: selection.day,
+    slot: selection.slot,
+    locked: selection.locked ?? false,
+    macros: roundMacros(scaleProfile(macros, selection.servings)),
+    portions: selection.portions ?? [],
+    ingredientOverrides: selection.recipe.recipe_ingredients
+      .filter(
+        (ingredient) =>
+          Math.abs(
+            selectionQuantity(selection, ingredient) - ingredient.quantity
+          ) > 1e-6
       )
-      .eq('user_id', userId)
+      .map((ingredient) => ({
+        ingredientId: ingredient.ingredient_id,
+        quantity:
+          Math.round(selectionQuantity(selection, ingredient) * 100) / 100,
+        unit: ingredient.unit,
+      })),
+  }
+}
+
+/**
+ * Key of the meals a plan would store, equal for plans with the same meals
+ */
+export function mealsKey(meals: ProposedMeal[]): string {
+  return JSON.stringify(
+    meals.map((meal) => [
+      meal.recipeId,
+      meal.servings,
+      meal.day,
+      meal.slot,
+      meal.locked,
+      meal.ingredientOverrides,
+      meal.portions,
+    ])
+  )
+}
 
-    if (pantryError) {
-      throw new Error('Failed to fetch pantry items')
+/**
+ * Resolve a plan's inputs and defaults, work out each recipe's macros, and
+ * take the locked meals out of the pantry and budget
+ */
+function preparePlanning(input: PlanWeekInput): PlanningContext {
+  const objective = input.objective ?? 'accuracy'
+  // Using up the pantry treats all of it like stock that expires on Sunday,
+  // so each day aims to use its share of what's left
+  const pantryExpiry =
+    objective === 'pantry'
+      ? {
+          ...Object.fromEntries(
+            input.pantryItems.map((item) => [item.ingredient_id, 6])
+          ),
+          ...input.pantryExpiry,
+        }
+      : (input.pantryExpiry ?? {})
+  // Stock that went off before the week starts can't be planned with
+  const pantryItems = input.pantryItems.filter(
+    (item) => (pantryExpiry[item.ingredient_id] ?? 0) >= 0
+  )
+  const unitPrices = input.unitPrices ?? {}
+  const budget = input.weeklyBudget ?? 0
+  const dayTargets = Array.from(
+    { length: 7 },
+    (_, day) => input.dayTargets?.[day] ?? input.dailyTargets
+  )
+  const household = input.household ?? []
+
+  // Allergies and diets are hard limits: recipes that break them are out
+  // before anything is planned
+  const excludedRecipes: RejectedRecipe[] = []
+  const allowedRecipes = input.recipes.filter((recipe) => {
+    const violation = input.exclusions
+      ? recipeViolation(recipe, input.exclusions)
+      : null
+    if (violation !== null) {
+      excludedRecipes.push({
+        recipeId: recipe.id,
+        recipeName: recipe.name,
+        reason: 'diet',
+        detail: violation,
+      })
     }
+    return violation === null
+  })
 
-    const { data: recipes, error: recipesError } = await supabase.from(
-      'recipes'
-    ).select(`
-        *,
-        recipe_ingredients (
-          *,
-          ingredients (*)
-        )
-      `)
+  const recipes: RecipeWithMacros[] = allowedRecipes.map((recipe) => {
+    const macros = calculateRecipeMacros(recipe)
+    const availableServings = calculateAvailableServings(recipe, pantryItems)
+    const proteinDensity =
+      macros.calories > 0 ? (macros.protein / macros.calories) * 100 : 0
 
-    if (recipesError) {
-      throw new Error('Failed to fetch recipes')
+    return {
+      ...recipe,
+      macros,
+      proteinDensity,
+      availableServings,
     }
+  })
 
-    // Calculate daily macro targets
-    const dailyTargets: MacroProfile = {
-      calories: userProfile.kcal_target,
-      protein: Math.round(
-        (userProfile.kcal_target * userProfile.protein_pct) / 100 / 4
-      ),
-      carbs: Math.round(
-        (userProfile.kcal_target * userProfile.carb_pct) / 100 / 4
-      ),
-      fat: Math.round(
-        (userProfile.kcal_target * userProfile.fat_pct) / 100 / 9
-      ),
+  // Locked meals stay as they are. Whatever they use of the pantry, and of
+  // the budget, isn't there for the rest of the plan, household portions
+  // included. A locked meal whose recipe now breaks an allergy or diet is
+  // left out, and said so for its day and slot.
+  const droppedLockedMeals: RejectedRecipe[] = []
+  const lockedMeals: MealSelection[] = (input.lockedMeals ?? []).flatMap(
+    (meal) => {
+      const recipe = recipes.find((r) => r.id === meal.recipeId)
+      if (!recipe) {
+        const excluded = excludedRecipes.find(
+          (rejection) => rejection.recipeId === meal.recipeId
+        )
+        if (excluded) {
+          droppedLockedMeals.push({
+            ...excluded,
+            day: meal.day,
+            slot: meal.slot,
+          })
+        }
+        return []
+      }
+      const selection: MealSelection = {
+        recipe,
+        servings: meal.servings,
+        day: meal.day,
+        slot: meal.slot,
+        quantities: meal.quantities,
+        locked: true,
+        pick: { step: 'locked', gap: null },
+      }
+      // Portions already stored stay as they are
+      return [
+        meal.portions
+          ? { ...selection, portions: meal.portions }
+          : withPortions(selection, dayTargets, household),
+      ]
     }
+  )
+  const lockedCost = shoppingCostOf(
+    calculateMissingIngredients(
+      lockedMeals.map(cookedSelection),
+      pantryItems,
+      unitPrices
+    ),
+    unitPrices
+  )
+
+  return {
+    objective,
+    constraints: {
+      prepDays: input.prepDays ?? [],
+      cookTimeLimits: input.cookTimeLimits ?? [],
+      skillLevel: input.skillLevel ?? null,
+      stretchMeals: input.stretchMeals ?? 0,
+    },
+    pantryItems,
+    pantryExpiry,
+    nutrientTargets: input.nutrientTargets ?? {},
+    mealSlots: input.mealSlots ?? DEFAULT_MEAL_SLOTS,
+    unitPrices,
+    budget,
+    dayTargets,
+    household,
+    recipes,
+    excludedRecipes,
+    lockedMeals,
+    droppedLockedMeals,
+    plannablePantry: remainingPantry(
+      pantryItems,
+      lockedMeals.map(cookedSelection)
+    ),
+    plannableBudget: Math.max(0, budget - lockedCost),
+  }
+}
 
-    // 2. Process recipes with macro calculations and availability
-    const recipesWithMacros: RecipeWithMacros[] = recipes.map((recipe) => {
-      const macros = calculateRecipeMacros(recipe)
-      const availableServings = calculateAvailableServings(
+/**
+ * Ingredients the optimizer may buy: every priced one while there's budget
+ * left after the locked meals
+ */
+function purchasableIngredients(context: PlanningContext): Set<string> {
+  return new Set(
+    context.plannableBudget > 0 ? Object.keys(context.unitPrices) : []
+  )
+}
+
+/**
+ * Run the exact optimizer around the locked meals. Only the optimizer can
+ * keep purchases within a budget, so only it may plan recipes that need
+ * ingredients from the store.
+ */
+function optimizeAroundLocked(
+  context: PlanningContext,
+  mealSlots: MealSlotConfig[],
+  days?: number[],
+  excluded?: Set<string>
+): ReturnType<typeof optimizeServings> {
+  const purchasable = purchasableIngredients(context)
+  return optimizeServings(
+    context.recipes.map((recipe) => ({
+      ...recipe,
+      availableServings: calculateAvailableServings(
         recipe,
-        pantryItems || []
-      )
-      const proteinDensity =
-        macros.calories > 0 ? (macros.protein / macros.calories) * 100 : 0
+        context.plannablePantry,
+        purchasable
+      ),
+    })),
+    context.plannablePantry,
+    context.dayTargets,
+    context.nutrientTargets,
+    mealSlots,
+    context.unitPrices,
+    context.plannableBudget,
+    context.pantryExpiry,
+    context.constraints,
+    context.lockedMeals,
+    days,
+    excluded,
+    context.objective,
+    context.household
+  )
+}
 
-      return {
-        ...recipe,
-        macros,
-        proteinDensity,
-        availableServings,
+/**
+ * Why each recipe that isn't in the plan was left out: the user's allergies
+ * or diets, the first constraint that rules it out for the whole week, or
+ * else that other recipes fit the targets better. `purchasable` is what the
+ * strategy was allowed to buy.
+ */
+function explainRejections(
+  context: PlanningContext,
+  selections: MealSelection[],
+  purchasable: Set<string>
+): RejectedRecipe[] {
+  const { constraints, mealSlots, plannablePantry } = context
+  const days = context.dayTargets.map((_, day) => day)
+
+  return context.recipes
+    .filter((recipe) => !selections.some((s) => s.recipe.id === recipe.id))
+    .map((recipe): RejectedRecipe => {
+      const reject = (reason: RejectionReason, detail: string) => ({
+        recipeId: recipe.id,
+        recipeName: recipe.name,
+        reason,
+        detail,
+      })
+
+      if (!mealSlots.some((slot) => isSuitableForSlot(recipe, slot))) {
+        return reject('slot', "Doesn't suit any of your meal slots")
       }
-    })
 
-    // 3. Greedy fill: protein first
-    const { selectedRecipes: proteinFilledRecipes, currentMacros } =
-      greedyProteinFill(recipesWithMacros, dailyTargets)
+      const allowedAbove = constraints.stretchMeals > 0 ? 1 : 0
+      if (
+        levelsAbove(recipe.skill_level, constraints.skillLevel) > allowedAbove
+      ) {
+        return reject(
+          'skill',
+          `Rated ${recipe.skill_level}, above your ${constraints.skillLevel} level`
+        )
+      }
 
-    // 4. Fill remaining carbs/fat
-    const filledRecipes = fillRemainingMacros(
-      recipesWithMacros,
-      proteinFilledRecipes,
-      currentMacros,
-      dailyTargets
-    )
+      if (
+        calculateAvailableServings(recipe, plannablePantry, purchasable) === 0
+      ) {
+        const short = recipe.recipe_ingredients
+          .filter((ingredient) => {
+            if (purchasable.has(ingredient.ingredient_id)) return false
+            const item = plannablePantry.find(
+              (p) => p.ingredient_id === ingredient.ingredient_id
+            )
+            const required = ingredientAmount(ingredient)
+            return (
+              !item ||
+              required === null ||
+              floorServings(pantryAmount(item) / required) === 0
+            )
+          })
+          .map((ingredient) => ingredient.ingredients.name)
+        return reject(
+          'pantry',
+          short.length > 0
+            ? `Not enough ${short.join(', ')} in the pantry`
+            : 'Has no ingredients'
+        )
+      }
 
-    // 5. Fine-tune servings
-    const finalRecipes = fineTuneMacros(filledRecipes, dailyTargets)
+      if (
+        !days.some((day) => fitsPrepSchedule(recipe, day, constraints.prepDays))
+      ) {
+        return reject(
+          'prep',
+          `Keeps ${recipe.fridge_days} days in the fridge, too short after your prep days`
+        )
+      }
 
-    // 6. Calculate missing ingredients
-    const missingIngredients = calculateMissingIngredients(
-      finalRecipes,
-      pantryItems || []
-    )
+      const cookTime = recipeCookTime(recipe)
+      if (
+        days.every((day) => {
+          const limit = sessionCookTimeLimit(
+            cookingSession(day, constraints.prepDays),
+            constraints.cookTimeLimits
+          )
+          return limit !== null && limit * 60 < cookTime
+        })
+      ) {
+        return reject(
+          'cook-time',
+          `Takes ${formatCookTime(cookTime)}, more than any day allows`
+        )
+      }
 
-    // 7. Create meal plan in database (replace existing if any)
-    const weekStartStr = weekStart.toISOString().split('T')[0]
+      return reject('outranked', 'Other recipes fit your targets better')
+    })
+    .concat(context.excludedRecipes, context.droppedLockedMeals)
+}
 
-    // First, delete any existing meal plan and its associated meals
-    const { error: deleteError } = await supabase
-      .from('meal_plans')
-      .delete()
-      .eq('user_id', userId)
-      .eq('week_start', weekStartStr)
+/**
+ * Ingredient quantities the fine tuning changed, comparing each selection
+ * before and after it
+ */
+function fineTuneChanges(
+  before: MealSelection[],
+  after: MealSelection[]
+): FineTuneChange[] {
+  return after.flatMap((selection, index) =>
+    selection.recipe.recipe_ingredients
+      .map((ingredient) => ({
+        ingredient,
+        from: selectionQuantity(before[index], ingredient),
+        to: selectionQuantity(selection, ingredient),
+      }))
+      .filter(({ from, to }) => Math.abs(to - from) > 1e-6)
+      .map(({ ingredient, from, to }) => ({
+        day: selection.day,
+        slot: selection.slot,
+        recipeName: selection.recipe.name,
+        ingredientName: ingredient.ingredients.name,
+        from: Math.round(from * 100) / 100,
+        to: Math.round(to * 100) / 100,
+        unit: ingredient.unit,
+      }))
+  )
+}
 
-    if (deleteError) {
-      console.warn(
-        'No existing meal plan to delete or deletion failed:',
-        deleteError
-      )
-    }
+/**
+ * A selection in the shape plan scoring takes, like a stored meal
+ */
+function toScoredMeal(selection: MealSelection): ScoredMeal {
+  return {
+    day_of_week: selection.day,
+    servings: selection.servings,
+    recipe_id: selection.recipe.id,
+    meal_ingredients: Object.entries(selection.quantities ?? {}).map(
+      ([ingredient_id, quantity]) => ({ ingredient_id, quantity })
+    ),
+    recipes: selection.recipe,
+  }
+}
 
-    const { data: mealPlan, error: planError } = await supabase
-      .from('meal_plans')
-      .insert({
-        user_id: userId,
-        week_start: weekStartStr,
-        total_kcal: Math.round(currentMacros.calories),
-        total_protein: Math.round(currentMacros.protein),
-        total_carbs: Math.round(currentMacros.carbs),
-        total_fat: Math.round(currentMacros.fat),
-      })
-      .select()
-      .single()
+/**
+ * A selection as a traced pick, with the meal's macros as planned
+ */
+function toPickedMeal(selection: MealSelection): PickedMeal {
+  const macros = selectionMacros(selection)
 
-    if (planError || !mealPlan) {
-      console.error('Meal plan creation error:', planError)
-      throw new Error(
-        `Failed to create meal plan: ${planError?.message || 'Unknown error'}`
-      )
-    }
+  return {
+    day: selection.day,
+    slot: selection.slot,
+    recipeId: selection.recipe.id,
+    recipeName: selection.recipe.name,
+    step: selection.pick.step,
+    proteinDensity: Math.round(selection.recipe.proteinDensity * 10) / 10,
+    gap: selection.pick.gap && roundMacros(selection.pick.gap),
+    macros: roundMacros(scaleProfile(macros, selection.servings)),
+  }
+}
 
-    // 8. Create individual meals
-    const meals: Meal[] = []
-    for (const selection of finalRecipes) {
-      const { data: meal, error: mealError } = await supabase
-        .from('meals')
-        .insert({
-          meal_plan_id: mealPlan.id,
-          recipe_id: selection.recipe.id,
-          servings: selection.servings,
-          day_of_week: selection.day,
-          meal_slot: selection.slot,
-        })
-        .select()
-        .single()
+/**
+ * Main Macro Tetris Algorithm
+ * Plans a week of meals from plain targets, pantry and recipes
+ *
+ * The week is solved a day at a time, so aiming at the macros alone can use
+ * up the pantry and budget on the first days and leave the last ones short,
+ * where another objective would have saved some for them. Planning for
+ * accuracy therefore plans the week for every objective and keeps the most
+ * accurate plan.
+ */
+export function planWeek(input: PlanWeekInput): PlanProposal {
+  if ((input.objective ?? 'accuracy') !== 'accuracy') return proposeWeek(input)
 
-      if (mealError || !meal) {
-        console.error('Failed to create meal:', mealError)
-        continue
-      }
+  const seed = input.seed ?? generateSeed()
+  return mostAccurate(
+    PLAN_OBJECTIVES.map((objective) =>
+      proposeWeek({ ...input, seed, objective })
+    )
+  )
+}
 
-      meals.push(meal)
-    }
+/**
+ * The most accurate of the week's plans, as the plan for accuracy. Ties go
+ * to the earlier plan, so the plan aiming at accuracy itself wins them.
+ */
+function mostAccurate(proposals: PlanProposal[]): PlanProposal {
+  const best = proposals.reduce((best, proposal) =>
+    proposal.score.macroAccuracy > best.score.macroAccuracy ? proposal : best
+  )
+  return { ...best, objective: 'accuracy' }
+}
 
-    // 9. Calculate final macro accuracy
-    const finalMacros = {
-      calories:
-        finalRecipes.reduce(
-          (sum, s) => sum + s.recipe.macros.calories * s.servings,
-          0
-        ) / 7,
-      protein:
-        finalRecipes.reduce(
-          (sum, s) => sum + s.recipe.macros.protein * s.servings,
-          0
-        ) / 7,
-      carbs:
-        finalRecipes.reduce(
-          (sum, s) => sum + s.recipe.macros.carbs * s.servings,
-          0
-        ) / 7,
-      fat:
-        finalRecipes.reduce(
-          (sum, s) => sum + s.recipe.macros.fat * s.servings,
-          0
-        ) / 7,
+/**
+ * Plan the week for one objective
+ */
+function proposeWeek(input: PlanWeekInput): PlanProposal {
+  const context = preparePlanning(input)
+  const {
+    constraints,
+    pantryItems,
+    nutrientTargets,
+    mealSlots,
+    unitPrices,
+    budget,
+    dayTargets,
+    lockedMeals,
+  } = context
+  let strategy: PlanningStrategy = input.strategy ?? 'optimal'
+  const seed = input.seed ?? generateSeed()
+  const random = createRandom(seed)
+
+  // 1. Exact optimization, falling back to the greedy chain
+  let finalRecipes: MealSelection[] = []
+  let considered: ConsideredRecipes[] = []
+  let searches: SolverSearch[] = []
+  if (strategy === 'optimal') {
+    const optimized = optimizeAroundLocked(context, mealSlots)
+    finalRecipes = optimized.selections
+    considered = optimized.considered
+    searches = optimized.searches
+    if (finalRecipes.length === lockedMeals.length) {
+      strategy = 'greedy'
+      searches = []
     }
+  }
 
-    const macroAccuracy = {
-      calories: Math.round(
-        (1 -
-          Math.abs(finalMacros.calories - dailyTargets.calories) /
-            dailyTargets.calories) *
-          100
-      ),
-      protein: Math.round(
-        (1 -
-          Math.abs(finalMacros.protein - dailyTargets.protein) /
-            dailyTargets.protein) *
-          100
+  // The greedy chain fills the week as a whole, each day towards its own
+  // targets
+  if (strategy === 'greedy') {
+    const greedyRecipes = context.recipes.map((recipe) => ({
+      ...recipe,
+      availableServings: calculateAvailableServings(
+        recipe,
+        context.plannablePantry
       ),
-      carbs: Math.round(
-        (1 -
-          Math.abs(finalMacros.carbs - dailyTargets.carbs) /
-            dailyTargets.carbs) *
-          100
+    }))
+    finalRecipes = generateGreedySelections(
+      greedyRecipes,
+      dayTargets,
+      mealSlots,
+      constraints,
+      lockedMeals,
+      random
+    )
+    considered = [
+      {
+        day: null,
+        slot: null,
+        recipes: sortByProteinDensity(greedyRecipes).map((recipe) => ({
+          id: recipe.id,
+          name: recipe.name,
+        })),
+      },
+    ]
+  }
+
+  // 2. Ingredient-level fine tuning towards each day's targets, with the
+  // household's portions of the shared meals
+  const untuned = finalRecipes
+  finalRecipes = fineTuneIngredients(
+    finalRecipes,
+    dayTargets,
+    nutrientTargets,
+    pantryItems,
+    unitPrices,
+    strategy === 'optimal' ? budget : 0,
+    context.household
+  )
+
+  // 3. Calculate missing ingredients for everything cooked and what the
+  // priced ones cost
+  const missingIngredients = calculateMissingIngredients(
+    finalRecipes.map(cookedSelection),
+    pantryItems,
+    unitPrices
+  )
+  const shoppingCost = shoppingCostOf(missingIngredients, unitPrices)
+
+  // 4. Calculate macro accuracy day by day, so a 3,500 kcal Monday can't
+  // hide behind an 800 kcal Thursday in the weekly average
+  const dailyBreakdown = calculateDailyBreakdown(
+    finalRecipes,
+    dayTargets,
+    nutrientTargets,
+    constraints
+  )
+  const averageAccuracy = (key: keyof MacroProfile) =>
+    Math.round(
+      dailyBreakdown.reduce((sum, day) => sum + day.accuracy[key], 0) /
+        dailyBreakdown.length
+    )
+  const macroAccuracy: MacroProfile = {
+    calories: averageAccuracy('calories'),
+    protein: averageAccuracy('protein'),
+    carbs: averageAccuracy('carbs'),
+    fat: averageAccuracy('fat'),
+  }
+
+  return {
+    strategy,
+    objective: context.objective,
+    seed,
+    prepDays: constraints.prepDays,
+    meals: finalRecipes.map(toProposedMeal),
+    weeklyTotals: sumSelectionMacros(finalRecipes),
+    missingIngredients,
+    shoppingCost,
+    macroAccuracy,
+    dailyBreakdown,
+    score: {
+      macroAccuracy: overallAccuracy(macroAccuracy),
+      shoppingCost,
+      cookTime: totalCookTime(finalRecipes, constraints.prepDays),
+      pantryUse: calculatePantryUse(
+        finalRecipes.map(cookedSelection).map(toScoredMeal),
+        pantryItems
       ),
-      fat: Math.round(
-        (1 - Math.abs(finalMacros.fat - dailyTargets.fat) / dailyTargets.fat) *
-          100
+    },
+    trace: {
+      considered,
+      picked: finalRecipes.map(toPickedMeal),
+      rejected: explainRejections(
+        context,
+        finalRecipes,
+        strategy === 'optimal' ? purchasableIngredients(context) : new Set()
       ),
+      fineTuned: fineTuneChanges(untuned, finalRecipes),
+      searches,
+    },
+  }
+}
+
+/**
+ * Plan the week once per objective, for the user to compare side by side.
+ * Every plan uses the same seed, and objectives that lead to the same meals
+ * share one alternative, so no two alternatives are the same food. Each
+ * proposal commits like any other: re-running it with its own objective
+ * gives the same plan.
+ */
+export function planAlternatives(input: PlanWeekInput): PlanAlternative[] {
+  const seed = input.seed ?? generateSeed()
+  const alternatives: PlanAlternative[] = []
+
+  // Planning for accuracy picks from the other objectives' plans (see
+  // `planWeek`), so each objective's plan is only made once
+  const proposals = PLAN_OBJECTIVES.map((objective) =>
+    proposeWeek({ ...input, seed, objective })
+  )
+  PLAN_OBJECTIVES.forEach((objective, index) => {
+    const proposal =
+      objective === 'accuracy' ? mostAccurate(proposals) : proposals[index]
+    const same = alternatives.find(
+      (alternative) =>
+        mealsKey(alternative.proposal.meals) === mealsKey(proposal.meals)
+    )
+    if (same) {
+      same.objectives.push(objective)
+    } else {
+      alternatives.push({ objectives: [objective], proposal })
     }
+  })
 
-    return {
-      mealPlan,
-      meals,
+  return alternatives
+}
+
+/**
+ * Re-plan one day, or one slot of it, around the rest of the week. The
+ * rest of the week comes in as `lockedMeals` and stays as it is; so do any
+ * locked meals on the day itself. The day aims at what its targets leave
+ * after the meals it keeps.
+ *
+ * Returns up to `alternatives` options, best first. Each one is solved
+ * without the recipes the ones before it used, so every option is new food
+ * rather than the same meals moved around.
+ */
+export function replanDay(input: ReplanInput): DayAlternative[] {
+  const context = preparePlanning(input)
+  const { pantryItems, unitPrices, budget, dayTargets, nutrientTargets } =
+    context
+  // A slot since removed from the configuration can still be re-planned
+  const mealSlots = input.slot
+    ? [
+        context.mealSlots.find((slot) => slot.name === input.slot) ?? {
+          name: input.slot,
+        },
+      ]
+    : context.mealSlots
+
+  const alternatives: DayAlternative[] = []
+  const excluded = new Set(input.excludeRecipes ?? [])
+
+  for (let i = 0; i < (input.alternatives ?? DEFAULT_ALTERNATIVES); i++) {
+    const { selections: planned } = optimizeAroundLocked(
+      context,
+      mealSlots,
+      [input.day],
+      excluded
+    )
+    const newMeals = planned.filter((selection) => !selection.locked)
+    if (newMeals.length === 0) break
+    newMeals.forEach((selection) => excluded.add(selection.recipe.id))
+
+    const tuned = fineTuneIngredients(
+      planned,
+      dayTargets,
+      nutrientTargets,
+      pantryItems,
+      unitPrices,
+      budget,
+      context.household
+    )
+    const missingIngredients = calculateMissingIngredients(
+      tuned.map(cookedSelection),
+      pantryItems,
+      unitPrices
+    )
+
+    alternatives.push({
+      meals: tuned.filter((selection) => !selection.locked).map(toProposedMeal),
+      weeklyTotals: sumSelectionMacros(tuned),
       missingIngredients,
-      macroAccuracy,
-    }
-  } catch (error) {
-    console.error('Macro Tetris algorithm failed:', error)
-    throw error
+      shoppingCost: shoppingCostOf(missingIngredients, unitPrices),
+      dayBreakdown: calculateDailyBreakdown(
+        tuned,
+        dayTargets,
+        nutrientTargets,
+        context.constraints
+      )[input.day],
+    })
   }
+
+  return alternatives
 }
 
 /**
@@ -662,7 +2265,7 @@ export async function generatePlan(
  *
  * 3. Advanced Optimization:
  *    - Implement genetic algorithm for meal plan optimization
- *    - Consider cook time, difficulty, and variety constraints
+ *    - Consider difficulty and variety constraints
  *    - Optimize for minimal food waste
  *
  * 4. Seasonal and Cost Optimization:
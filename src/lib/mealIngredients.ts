@@ -0,0 +1,46 @@
+/**
+ * Tuned Meal Ingredients
+ *
+ * The planner's fine-tuning pass stores adjusted per-serving quantities in
+ * `meal_ingredients`. Anything that cooks, shops for or counts a meal should
+ * resolve quantities through here instead of reading the recipe defaults.
+ */
+
+import { Database } from '@/lib/types/database'
+import { IngredientUnitData, toIngredientUnit } from '@/lib/units'
+
+type MealIngredient = Database['public']['Tables']['meal_ingredients']['Row']
+type TunedQuantity = Pick<MealIngredient, 'ingredient_id' | 'quantity'>
+
+/**
+ * Per-serving quantity of a recipe ingredient for a specific meal
+ */
+export function resolveIngredientQuantity(
+  meal: { meal_ingredients?: TunedQuantity[] | null },
+  ingredient: { ingredient_id: string; quantity: number }
+): number {
+  const override = meal.meal_ingredients?.find(
+    (tuned) => tuned.ingredient_id === ingredient.ingredient_id
+  )
+  return override ? override.quantity : ingredient.quantity
+}
+
+/**
+ * Per-serving quantity in the ingredient's own unit, which is what its
+ * nutrition values refer to. Units that can't be converted are taken as-is.
+ */
+export function resolveIngredientAmount(
+  meal: { meal_ingredients?: TunedQuantity[] | null },
+  ingredient: {
+    ingredient_id: string
+    quantity: number
+    unit: string
+    ingredients: IngredientUnitData
+  }
+): number {
+  const quantity = resolveIngredientQuantity(meal, ingredient)
+  return (
+    toIngredientUnit(quantity, ingredient.unit, ingredient.ingredients) ??
+    quantity
+  )
+}
@@ -0,0 +1,708 @@
+/**
+ * Meal Plan Store - Supabase adapter for the Macro Tetris planner
+ *
+ * Loads a user's targets, pantry and recipes, hands them to the pure
+ * `planWeek` core and writes the resulting proposal back as a meal plan.
+ * Meals the user locked in the week's current plan are carried over as they
+ * are and the planner fills in around them.
+ * Proposals can also be previewed without writing anything and committed
+ * later, once the user has compared them against their current week or
+ * against alternative plans made for other objectives. A single day or slot
+ * of a stored plan can be re-planned the same way, from a few alternatives.
+ * Any stored plan can be scored against the user's current targets, pantry
+ * and prices. Meals shared with the user's household are stored with each
+ * member's portion. Recipes that break the user's allergies or diets are
+ * never planned.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { Database } from '@/lib/types/database'
+import {
+  DailyMacroBreakdown,
+  DayAlternative,
+  LockedMeal,
+  mealsKey,
+  MissingIngredient,
+  PlanAlternative,
+  planAlternatives,
+  PlanProposal,
+  PlanTrace,
+  planWeek,
+  PlanWeekInput,
+  Recipe,
+  replanDay,
+  ReplanInput,
+} from '@/lib/macroTetris'
+import { calculateWeekTargets } from '@/lib/dayProfiles'
+import {
+  calculateDailyTargets,
+  PlanEvaluation,
+  scorePlan,
+} from '@/lib/nutrition'
+import { resolveMealSlots } from '@/lib/mealSlots'
+import { sanitizeNutrientTargets } from '@/lib/nutrients'
+import { resolveUnitPrices } from '@/lib/prices'
+import { pantryExpiryDays } from '@/lib/pantryExpiry'
+import { resolveCookTimeLimits } from '@/lib/cookTime'
+import { resolveSkillLevel } from '@/lib/skillLevels'
+import { sanitizePrepDays } from '@/lib/prepSessions'
+import { HouseholdMember } from '@/lib/household'
+import { resolveDietaryExclusions } from '@/lib/dietaryExclusions'
+import {
+  MacroProfile,
+  PlanningStrategy,
+  PlanObjective,
+} from '@/lib/planner/types'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+type MealPlan = Database['public']['Tables']['meal_plans']['Row']
+type Meal = Database['public']['Tables']['meals']['Row']
+type MealIngredient = Database['public']['Tables']['meal_ingredients']['Row']
+type MealPortion = Database['public']['Tables']['meal_portions']['Row']
+type HouseholdMemberRow =
+  Database['public']['Tables']['household_members']['Row']
+
+interface GeneratePlanOptions {
+  strategy?: PlanningStrategy
+  objective?: PlanObjective // favored besides the macros
+  seed?: number // same seed + same inputs = same plan
+  prepDays?: number[] // batch-cooking days (0 = Monday)
+}
+
+interface ReplanTarget {
+  day: number // 0 = Monday
+  slot?: string // just this slot, otherwise the whole day
+}
+
+interface PlanPreview {
+  proposal: PlanProposal
+  currentPlan: MealPlan | null // existing plan the proposal would replace
+}
+
+interface AlternativesPreview {
+  alternatives: PlanAlternative[]
+  currentPlan: MealPlan | null // existing plan the chosen one would replace
+}
+
+interface OptimizationResult {
+  mealPlan: MealPlan
+  meals: Meal[]
+  strategy: PlanningStrategy
+  objective: PlanObjective
+  seed: number
+  missingIngredients: MissingIngredient[]
+  shoppingCost: number
+  macroAccuracy: MacroProfile // percentage accuracy, averaged over days
+  dailyBreakdown: DailyMacroBreakdown[]
+  trace: PlanTrace // why the plan looks the way it does
+}
+
+/**
+ * A stored meal as a locked meal for the planner, with its tuned quantities
+ * and household portions
+ */
+function toLockedMeal(
+  meal: Meal & {
+    meal_ingredients: MealIngredient[] | null
+    meal_portions: MealPortion[] | null
+  }
+): LockedMeal {
+  return {
+    recipeId: meal.recipe_id,
+    servings: meal.servings,
+    day: meal.day_of_week,
+    slot: meal.meal_slot,
+    quantities: Object.fromEntries(
+      (meal.meal_ingredients || []).map((ingredient) => [
+        ingredient.ingredient_id,
+        ingredient.quantity,
+      ])
+    ),
+    portions: (meal.meal_portions || []).map((portion) => ({
+      memberId: portion.member_id,
+      servings: portion.servings,
+    })),
+  }
+}
+
+function toHouseholdMember(member: HouseholdMemberRow): HouseholdMember {
+  return {
+    id: member.id,
+    name: member.name,
+    dailyTargets: calculateDailyTargets(member),
+    sharedSlots: member.shared_slots,
+  }
+}
+
+/**
+ * Fetch everything `planWeek` needs for a user's week
+ */
+export async function loadPlanningInput(
+  supabase: SupabaseClient,
+  userId: string,
+  weekStart: Date
+): Promise<
+  Pick<
+    PlanWeekInput,
+    | 'dailyTargets'
+    | 'dayTargets'
+    | 'nutrientTargets'
+    | 'mealSlots'
+    | 'unitPrices'
+    | 'weeklyBudget'
+    | 'pantryExpiry'
+    | 'cookTimeLimits'
+    | 'skillLevel'
+    | 'stretchMeals'
+    | 'prepDays'
+    | 'lockedMeals'
+    | 'household'
+    | 'exclusions'
+    | 'pantryItems'
+    | 'recipes'
+  >
+> {
+  const { data: userProfile, error: userError } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .single()
+
+  if (userError || !userProfile) {
+    throw new Error('User profile not found')
+  }
+
+  const { data: pantryItems, error: pantryError } = await supabase
+    .from('pantry_items')
+    .select(
+      `
+      *,
+      ingredients (*)
+    `
+    )
+    .eq('user_id', userId)
+    .order('ingredient_id')
+
+  if (pantryError) {
+    throw new Error('Failed to fetch pantry items')
+  }
+
+  // Shared prices plus the user's own
+  const { data: prices, error: pricesError } = await supabase
+    .from('ingredient_prices')
+    .select(
+      `
+      *,
+      ingredients (*)
+    `
+    )
+    .or(`user_id.is.null,user_id.eq.${userId}`)
+    .order('id')
+
+  if (pricesError) {
+    throw new Error('Failed to fetch ingredient prices')
+  }
+
+  // A regenerated week keeps its plan's prep days unless given new ones
+  const currentPlan = await fetchCurrentPlan(supabase, userId, weekStart)
+
+  // Meals the user locked in the week's current plan stay as they are
+  const { data: lockedMeals, error: lockedError } = await supabase
+    .from('meals')
+    .select(
+      `
+      *,
+      meal_plans!inner (user_id, week_start),
+      meal_ingredients (*),
+      meal_portions (*)
+    `
+    )
+    .eq('locked', true)
+    .eq('meal_plans.user_id', userId)
+    .eq('meal_plans.week_start', weekStart.toISOString().split('T')[0])
+    .order('day_of_week')
+    .order('meal_slot')
+
+  if (lockedError) {
+    throw new Error('Failed to fetch locked meals')
+  }
+
+  // Household members share some of the user's meal slots
+  const { data: members, error: membersError } = await supabase
+    .from('household_members')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at')
+    .order('id')
+
+  if (membersError) {
+    throw new Error('Failed to fetch household members')
+  }
+
+  // Allergies and diets rule recipes out entirely
+  const { data: preferences, error: preferencesError } = await supabase
+    .from('user_preferences')
+    .select('*')
+    .eq('user_id', userId)
+
+  if (preferencesError) {
+    throw new Error('Failed to fetch dietary preferences')
+  }
+
+  // Stable ordering so a seed always reproduces the same plan
+  const { data: recipes, error: recipesError } = await supabase
+    .from('recipes')
+    .select(
+      `
+      *,
+      recipe_ingredients (
+        *,
+        ingredients (*)
+      )
+    `
+    )
+    .order('id')
+    .order('ingredient_id', { referencedTable: 'recipe_ingredients' })
+
+  if (recipesError) {
+    throw new Error('Failed to fetch recipes')
+  }
+
+  return {
+    dailyTargets: calculateDailyTargets(userProfile),
+    dayTargets: calculateWeekTargets(userProfile),
+    nutrientTargets: sanitizeNutrientTargets(userProfile.nutrient_targets),
+    mealSlots: resolveMealSlots(userProfile.meal_slots),
+    unitPrices: resolveUnitPrices(prices || []),
+    weeklyBudget: userProfile.weekly_budget,
+    pantryExpiry: pantryExpiryDays(
+      pantryItems || [],
+      weekStart.toISOString().split('T')[0]
+    ),
+    cookTimeLimits: resolveCookTimeLimits(userProfile.cook_time_limits),
+    skillLevel: resolveSkillLevel(userProfile.skill_level),
+    stretchMeals: userProfile.stretch_meals,
+    prepDays: sanitizePrepDays(currentPlan?.prep_days),
+    lockedMeals: (lockedMeals || []).map(toLockedMeal),
+    household: (members || []).map(toHouseholdMember),
+    exclusions: resolveDietaryExclusions(preferences),
+    pantryItems: pantryItems || [],
+    recipes: recipes || [],
+  }
+}
+
+/**
+ * Replace the user's plan for the week with a proposal. The whole plan goes
+ * through the `replace_meal_plan` database function in one transaction, so
+ * a failure leaves the previous plan untouched instead of half a new one.
+ */
+export async function savePlanProposal(
+  supabase: SupabaseClient,
+  userId: string,
+  weekStart: Date,
+  proposal: PlanProposal
+): Promise<{ mealPlan: MealPlan; meals: Meal[] }> {
+  const { data: mealPlanId, error: replaceError } = await supabase.rpc(
+    'replace_meal_plan',
+    {
+      p_user_id: userId,
+      p_week_start: weekStart.toISOString().split('T')[0],
+      p_plan: {
+        total_kcal: Math.round(proposal.weeklyTotals.calories),
+        total_protein: Math.round(proposal.weeklyTotals.protein),
+        total_carbs: Math.round(proposal.weeklyTotals.carbs),
+        total_fat: Math.round(proposal.weeklyTotals.fat),
+        seed: proposal.seed,
+        prep_days: proposal.prepDays,
+        trace: proposal.trace,
+      },
+      p_meals: proposal.meals.map((meal) => ({
+        recipe_id: meal.recipeId,
+        servings: meal.servings,
+        day_of_week: meal.day,
+        meal_slot: meal.slot,
+        locked: meal.locked,
+        // Tuned quantities that differ from the recipe defaults
+        ingredients: meal.ingredientOverrides.map((override) => ({
+          ingredient_id: override.ingredientId,
+          quantity: override.quantity,
+          unit: override.unit,
+        })),
+        portions: meal.portions.map((portion) => ({
+          member_id: portion.memberId,
+          servings: portion.servings,
+        })),
+      })),
+    }
+  )
+
+  if (replaceError || !mealPlanId) {
+    console.error('Meal plan save error:', replaceError)
+    throw new Error(
+      `Failed to save meal plan, the previous plan was kept: ${replaceError?.message || 'Unknown error'}`
+    )
+  }
+
+  const { data: mealPlan, error: planError } = await supabase
+    .from('meal_plans')
+    .select('*')
+    .eq('id', mealPlanId)
+    .single()
+
+  const { data: meals, error: mealsError } = await supabase
+    .from('meals')
+    .select('*')
+    .eq('meal_plan_id', mealPlanId)
+    .order('day_of_week')
+
+  if (planError || !mealPlan || mealsError) {
+    throw new Error('Meal plan was saved but could not be loaded')
+  }
+
+  return { mealPlan, meals: meals || [] }
+}
+
+/**
+ * The user's existing plan for a week, if any
+ */
+async function fetchCurrentPlan(
+  supabase: SupabaseClient,
+  userId: string,
+  weekStart: Date
+): Promise<MealPlan | null> {
+  const { data, error } = await supabase
+    .from('meal_plans')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('week_start', weekStart.toISOString().split('T')[0])
+    .maybeSingle()
+
+  if (error) {
+    throw new Error('Failed to fetch current meal plan')
+  }
+
+  return data
+}
+
+/**
+ * A stored plan's meals with their tuned quantities, in the shape the plan
+ * page shows them
+ */
+async function fetchPlanMeals(
+  supabase: SupabaseClient,
+  mealPlanId: string
+): Promise<
+  Array<
+    Meal & {
+      meal_ingredients: MealIngredient[] | null
+      meal_portions: MealPortion[] | null
+      recipes: Recipe | null
+    }
+  >
+> {
+  const { data, error } = await supabase
+    .from('meals')
+    .select(
+      `
+      *,
+      recipes (
+        *,
+        recipe_ingredients (
+          *,
+          ingredients (*)
+        )
+      ),
+      meal_ingredients (*),
+      meal_portions (*)
+    `
+    )
+    .eq('meal_plan_id', mealPlanId)
+    .order('day_of_week')
+    .order('meal_slot')
+
+  if (error) {
+    throw new Error('Failed to fetch meal plan meals')
+  }
+
+  return data || []
+}
+
+/**
+ * Whether two proposals would store the same meals
+ */
+function isSameProposal(a: PlanProposal, b: PlanProposal): boolean {
+  return mealsKey(a.meals) === mealsKey(b.meals)
+}
+
+function toOptimizationResult(
+  proposal: PlanProposal,
+  saved: { mealPlan: MealPlan; meals: Meal[] }
+): OptimizationResult {
+  return {
+    mealPlan: saved.mealPlan,
+    meals: saved.meals,
+    strategy: proposal.strategy,
+    objective: proposal.objective,
+    seed: proposal.seed,
+    missingIngredients: proposal.missingIngredients,
+    shoppingCost: proposal.shoppingCost,
+    macroAccuracy: proposal.macroAccuracy,
+    dailyBreakdown: proposal.dailyBreakdown,
+    trace: proposal.trace,
+  }
+}
+
+/**
+ * Plan a week without writing anything, alongside the plan it would replace
+ */
+export async function previewPlan(
+  userId: string,
+  weekStart: Date,
+  options: GeneratePlanOptions = {}
+): Promise<PlanPreview> {
+  const supabase = await createClient()
+
+  const input = await loadPlanningInput(supabase, userId, weekStart)
+  const proposal = planWeek({
+    ...input,
+    ...options,
+    prepDays: options.prepDays ?? input.prepDays,
+  })
+  const currentPlan = await fetchCurrentPlan(supabase, userId, weekStart)
+
+  return { proposal, currentPlan }
+}
+
+/**
+ * Plan a week once per objective without writing anything, alongside the
+ * plan the chosen one would replace. Commit the chosen proposal with
+ * `commitPlan`.
+ */
+export async function previewPlanAlternatives(
+  userId: string,
+  weekStart: Date,
+  options: GeneratePlanOptions = {}
+): Promise<AlternativesPreview> {
+  const supabase = await createClient()
+
+  const input = await loadPlanningInput(supabase, userId, weekStart)
+  const alternatives = planAlternatives({
+    ...input,
+    ...options,
+    prepDays: options.prepDays ?? input.prepDays,
+  })
+  const currentPlan = await fetchCurrentPlan(supabase, userId, weekStart)
+
+  return { alternatives, currentPlan }
+}
+
+/**
+ * Store a previewed proposal. The plan is re-run server-side from the
+ * proposal's seed, strategy and objective rather than trusting the
+ * submitted meals; returns null when the pantry or recipes changed since the
+ * preview and the re-run no longer matches what the user accepted.
+ */
+export async function commitPlan(
+  userId: string,
+  weekStart: Date,
+  accepted: PlanProposal
+): Promise<OptimizationResult | null> {
+  const supabase = await createClient()
+
+  const input = await loadPlanningInput(supabase, userId, weekStart)
+  const proposal = planWeek({
+    ...input,
+    strategy: accepted.strategy,
+    objective: accepted.objective,
+    seed: accepted.seed,
+    prepDays: accepted.prepDays,
+  })
+
+  if (!isSameProposal(proposal, accepted)) {
+    return null
+  }
+
+  const saved = await savePlanProposal(supabase, userId, weekStart, proposal)
+  return toOptimizationResult(proposal, saved)
+}
+
+/**
+ * Generate and store a user's meal plan for the week
+ */
+export async function generatePlan(
+  userId: string,
+  weekStart: Date,
+  options: GeneratePlanOptions = {}
+): Promise<OptimizationResult> {
+  try {
+    const supabase = await createClient()
+
+    const input = await loadPlanningInput(supabase, userId, weekStart)
+    const proposal = planWeek({
+      ...input,
+      ...options,
+      prepDays: options.prepDays ?? input.prepDays,
+    })
+    const saved = await savePlanProposal(supabase, userId, weekStart, proposal)
+
+    return toOptimizationResult(proposal, saved)
+  } catch (error) {
+    console.error('Macro Tetris algorithm failed:', error)
+    throw error
+  }
+}
+
+/**
+ * Planner input for re-planning one day or slot of a stored plan: every
+ * other meal of the week stays, and so do locked meals on the day. The
+ * meals being replaced aren't offered again.
+ */
+function replanInput(
+  mealPlan: MealPlan,
+  meals: Array<
+    Meal & {
+      meal_ingredients: MealIngredient[] | null
+      meal_portions: MealPortion[] | null
+    }
+  >,
+  target: ReplanTarget
+): Pick<
+  ReplanInput,
+  'day' | 'slot' | 'prepDays' | 'lockedMeals' | 'excludeRecipes'
+> {
+  const isReplaced = (meal: Meal) =>
+    !meal.locked &&
+    meal.day_of_week === target.day &&
+    (!target.slot || meal.meal_slot === target.slot)
+
+  return {
+    day: target.day,
+    slot: target.slot,
+    prepDays: sanitizePrepDays(mealPlan.prep_days),
+    lockedMeals: meals.filter((meal) => !isReplaced(meal)).map(toLockedMeal),
+    excludeRecipes: meals.filter(isReplaced).map((meal) => meal.recipe_id),
+  }
+}
+
+/**
+ * Alternatives for one day or slot of the user's plan for the week, without
+ * writing anything. Null when there is no plan for the week.
+ */
+export async function previewAlternatives(
+  userId: string,
+  weekStart: Date,
+  target: ReplanTarget
+): Promise<DayAlternative[] | null> {
+  const supabase = await createClient()
+
+  const currentPlan = await fetchCurrentPlan(supabase, userId, weekStart)
+  if (!currentPlan) return null
+
+  const input = await loadPlanningInput(supabase, userId, weekStart)
+  const meals = await fetchPlanMeals(supabase, currentPlan.id)
+
+  return replanDay({
+    ...input,
+    ...replanInput(currentPlan, meals, target),
+  })
+}
+
+/**
+ * Replace one day or slot of the user's plan with an accepted alternative.
+ * Like `commitPlan`, the alternatives are re-run server-side and the
+ * accepted one has to be among them; returns null when it isn't, because
+ * the plan, pantry or recipes changed since the preview. Otherwise returns
+ * the plan's meals after the change.
+ */
+export async function commitAlternative(
+  userId: string,
+  weekStart: Date,
+  target: ReplanTarget,
+  accepted: DayAlternative
+): Promise<Meal[] | null> {
+  const supabase = await createClient()
+
+  const currentPlan = await fetchCurrentPlan(supabase, userId, weekStart)
+  if (!currentPlan) return null
+
+  const input = await loadPlanningInput(supabase, userId, weekStart)
+  const meals = await fetchPlanMeals(supabase, currentPlan.id)
+  const alternative = replanDay({
+    ...input,
+    ...replanInput(currentPlan, meals, target),
+  }).find((option) => mealsKey(option.meals) === mealsKey(accepted.meals))
+
+  if (!alternative) {
+    return null
+  }
+
+  // Swaps the replaced meals in one transaction, like `replace_meal_plan`
+  const { error } = await supabase.rpc('replace_plan_meals', {
+    p_meal_plan_id: currentPlan.id,
+    p_day: target.day,
+    p_slot: target.slot ?? null,
+    p_plan: {
+      total_kcal: Math.round(alternative.weeklyTotals.calories),
+      total_protein: Math.round(alternative.weeklyTotals.protein),
+      total_carbs: Math.round(alternative.weeklyTotals.carbs),
+      total_fat: Math.round(alternative.weeklyTotals.fat),
+    },
+    p_meals: alternative.meals.map((meal) => ({
+      recipe_id: meal.recipeId,
+      servings: meal.servings,
+      day_of_week: meal.day,
+      meal_slot: meal.slot,
+      ingredients: meal.ingredientOverrides.map((override) => ({
+        ingredient_id: override.ingredientId,
+        quantity: override.quantity,
+        unit: override.unit,
+      })),
+      portions: meal.portions.map((portion) => ({
+        member_id: portion.memberId,
+        servings: portion.servings,
+      })),
+    })),
+  })
+
+  if (error) {
+    console.error('Meal replace error:', error)
+    throw new Error(
+      `Failed to replace meals, the previous ones were kept: ${error.message}`
+    )
+  }
+
+  return fetchPlanMeals(supabase, currentPlan.id)
+}
+
+/**
+ * Score one of the user's stored plans, however it was made, against their
+ * current targets, pantry and prices. Null when the plan isn't theirs or
+ * doesn't exist.
+ */
+export async function scoreMealPlan(
+  userId: string,
+  mealPlanId: string
+): Promise<PlanEvaluation | null> {
+  const supabase = await createClient()
+
+  const { data: mealPlan, error } = await supabase
+    .from('meal_plans')
+    .select('*')
+    .eq('id', mealPlanId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error('Failed to fetch meal plan')
+  }
+  if (!mealPlan) return null
+
+  const input = await loadPlanningInput(
+    supabase,
+    userId,
+    new Date(mealPlan.week_start)
+  )
+  const meals = await fetchPlanMeals(supabase, mealPlan.id)
+
+  return scorePlan(meals, input)
+}
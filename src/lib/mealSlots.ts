@@ -0,0 +1,83 @@
+/**
+ * Meal Slots
+ *
+ * The meals a user eats in a day, in order. Each slot can carry a time, a
+ * share of the day's calories for the planner to aim at, and the recipe meal
+ * types it accepts (a "pre-workout" slot might take recipes tagged "snack").
+ * Users without a configuration get breakfast, lunch, dinner and a snack.
+ */
+
+import { Database } from '@/lib/types/database'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+
+export type MealSlotConfig = UserProfile['meal_slots'][number]
+
+// Meal types recipes are tagged with out of the box
+export const RECIPE_MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack']
+
+export const DEFAULT_MEAL_SLOTS: MealSlotConfig[] = RECIPE_MEAL_TYPES.map(
+  (name) => ({ name })
+)
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+/**
+ * A user's meal slots in order, dropping malformed and duplicate entries.
+ * Falls back to the default slots when nothing usable is configured.
+ */
+export function resolveMealSlots(slots: unknown): MealSlotConfig[] {
+  if (!Array.isArray(slots)) return DEFAULT_MEAL_SLOTS
+
+  const clean: MealSlotConfig[] = []
+  slots.forEach((slot) => {
+    if (!slot || typeof slot !== 'object') return
+    const name = typeof slot.name === 'string' ? slot.name.trim() : ''
+    if (!name || clean.some((existing) => existing.name === name)) return
+
+    const next: MealSlotConfig = { name }
+    if (typeof slot.time === 'string' && TIME_PATTERN.test(slot.time)) {
+      next.time = slot.time
+    }
+    if (
+      typeof slot.calorie_pct === 'number' &&
+      slot.calorie_pct > 0 &&
+      slot.calorie_pct <= 100
+    ) {
+      next.calorie_pct = slot.calorie_pct
+    }
+    if (Array.isArray(slot.recipe_types)) {
+      const types = slot.recipe_types.filter(
+        (type: unknown): type is string =>
+          typeof type === 'string' && type.trim() !== ''
+      )
+      if (types.length > 0) next.recipe_types = types
+    }
+    clean.push(next)
+  })
+
+  return clean.length > 0 ? clean : DEFAULT_MEAL_SLOTS
+}
+
+/**
+ * Recipe meal types a slot accepts, defaulting to its own name
+ */
+export function slotRecipeTypes(slot: MealSlotConfig): string[] {
+  return slot.recipe_types ?? [slot.name]
+}
+
+/**
+ * Sort position of a meal slot; slots that are no longer configured go last
+ */
+export function slotOrder(slots: MealSlotConfig[], name: string): number {
+  const index = slots.findIndex((slot) => slot.name === name)
+  return index === -1 ? slots.length : index
+}
+
+/**
+ * "Lunch", "Pre-workout · 17:30"
+ */
+export function formatSlot(slot: MealSlotConfig): string {
+  const label = slot.name.charAt(0).toUpperCase() + slot.name.slice(1)
+  return slot.time ? `${label} · ${slot.time}` : label
+}
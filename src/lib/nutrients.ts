@@ -0,0 +1,87 @@
+/**
+ * Nutrient Catalogue
+ *
+ * Display names and units for the nutrients tracked beyond the four macros.
+ * Ingredient data is open-ended (`ingredients.nutrients` may carry any key,
+ * per 100 of the ingredient's unit); these are the ones users can set daily
+ * limits for.
+ */
+
+import {
+  NutrientBound,
+  NutrientProfile,
+  NutrientTargets,
+} from '@/lib/planner/types'
+
+export interface NutrientInfo {
+  key: string
+  label: string
+  unit: string
+}
+
+export const NUTRIENTS: NutrientInfo[] = [
+  { key: 'fiber_g', label: 'Fiber', unit: 'g' },
+  { key: 'sugar_g', label: 'Sugar', unit: 'g' },
+  { key: 'saturated_fat_g', label: 'Saturated Fat', unit: 'g' },
+  { key: 'sodium_mg', label: 'Sodium', unit: 'mg' },
+  { key: 'potassium_mg', label: 'Potassium', unit: 'mg' },
+  { key: 'calcium_mg', label: 'Calcium', unit: 'mg' },
+  { key: 'iron_mg', label: 'Iron', unit: 'mg' },
+  { key: 'vitamin_c_mg', label: 'Vitamin C', unit: 'mg' },
+]
+
+export function nutrientInfo(key: string): NutrientInfo {
+  return (
+    NUTRIENTS.find((nutrient) => nutrient.key === key) ?? {
+      key,
+      label: key,
+      unit: '',
+    }
+  )
+}
+
+/**
+ * Add `factor` times a nutrient profile into another, in place
+ */
+export function addNutrients(
+  into: NutrientProfile,
+  from: NutrientProfile | null | undefined,
+  factor: number = 1
+): NutrientProfile {
+  Object.entries(from ?? {}).forEach(([key, value]) => {
+    into[key] = (into[key] ?? 0) + value * factor
+  })
+  return into
+}
+
+/**
+ * Where a value falls relative to its daily bound
+ */
+export function boundStatus(
+  value: number,
+  bound: NutrientBound
+): 'low' | 'high' | 'ok' {
+  if (bound.min !== undefined && value < bound.min) return 'low'
+  if (bound.max !== undefined && value > bound.max) return 'high'
+  return 'ok'
+}
+
+/**
+ * Drop malformed or non-positive limits so the planner never divides by zero
+ */
+export function sanitizeNutrientTargets(targets: unknown): NutrientTargets {
+  const clean: NutrientTargets = {}
+  if (!targets || typeof targets !== 'object') return clean
+
+  Object.entries(targets as Record<string, NutrientBound>).forEach(
+    ([key, bound]) => {
+      if (!bound || typeof bound !== 'object') return
+      const next: NutrientBound = {}
+      if (typeof bound.min === 'number' && bound.min > 0) next.min = bound.min
+      if (typeof bound.max === 'number' && bound.max > 0) next.max = bound.max
+      if (next.min !== undefined || next.max !== undefined) clean[key] = next
+    }
+  )
+
+  return clean
+}
@@ -0,0 +1,342 @@
+/**
+ * Nutrition and Plan Scoring
+ *
+ * The one place macros are calculated: ingredient nutrition is per 100 of the
+ * ingredient's own unit, and macro targets come from a calorie target split
+ * by percentage at 4 kcal per gram of protein and carbs and 9 per gram of
+ * fat. The planner, the plan page and the dashboard all go through here, so
+ * a plan scores the same wherever it's looked at.
+ *
+ * `scorePlan` evaluates any set of meals, planned or built by hand: how far
+ * each day is off its targets per macro, how varied the meals are, how much
+ * of the pantry they use and what they cost. Macros are the user's own
+ * servings; pantry use and cost include the household's portions.
+ */
+
+import { Database } from '@/lib/types/database'
+import { MacroProfile, NutritionProfile } from '@/lib/planner/types'
+import { addNutrients } from '@/lib/nutrients'
+import { resolveIngredientAmount } from '@/lib/mealIngredients'
+import { mealCost, shoppingCost, UnitPrices } from '@/lib/prices'
+import { IngredientUnitData, toIngredientUnit } from '@/lib/units'
+import { forHousehold } from '@/lib/household'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+type Ingredient = Database['public']['Tables']['ingredients']['Row']
+
+export type MacroSplit = Pick<
+  UserProfile,
+  'kcal_target' | 'protein_pct' | 'carb_pct' | 'fat_pct'
+>
+
+// A stored or planned meal with its recipe and tuned quantities
+export type ScoredMeal = Parameters<typeof resolveIngredientAmount>[0] & {
+  day_of_week: number // 0 = Monday
+  servings: number
+  recipe_id: string
+  meal_portions?: Array<{ servings: number }> | null // household members'
+  recipes: {
+    recipe_ingredients: Array<
+      Parameters<typeof resolveIngredientAmount>[1] & {
+        ingredients: Ingredient
+      }
+    >
+  } | null
+}
+
+export interface ScoredPantryItem {
+  ingredient_id: string
+  quantity: number
+  unit: string
+  ingredients: IngredientUnitData
+}
+
+export interface ScoringContext {
+  dailyTargets: MacroProfile
+  dayTargets?: MacroProfile[] // per day (0 = Monday), falls back to dailyTargets
+  pantryItems?: ScoredPantryItem[]
+  unitPrices?: UnitPrices
+}
+
+export interface DayScore {
+  day: number // 0 = Monday
+  actual: MacroProfile
+  target: MacroProfile
+  deviation: MacroProfile // signed percentage off target
+  accuracy: MacroProfile // percentage accuracy
+}
+
+export interface VarietyScore {
+  meals: number
+  recipes: number // distinct recipes among the meals
+  score: number // distinct recipes per meal, percentage
+}
+
+export interface PlanEvaluation {
+  days: DayScore[]
+  deviation: MacroProfile // average distance from target, percentage
+  accuracy: MacroProfile // percentage accuracy, averaged over days
+  macroAccuracy: number // all four macros averaged
+  variety: VarietyScore
+  pantryUse: number // percentage of the pantry's stock the meals use
+  cost: {
+    total: number // every priced ingredient the meals use
+    toBuy: number // just what's missing from the pantry
+    unpricedMeals: number // meals without any priced ingredient
+  }
+}
+
+export const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 }
+
+export const DEFAULT_MACRO_SPLIT: MacroSplit = {
+  kcal_target: 2000,
+  protein_pct: 30,
+  carb_pct: 40,
+  fat_pct: 30,
+}
+
+const DAYS_IN_WEEK = 7
+
+/**
+ * A user's calorie target and split, with the defaults for anything unset
+ */
+export function resolveMacroSplit(
+  profile: Partial<MacroSplit> | null
+): MacroSplit {
+  return {
+    kcal_target: profile?.kcal_target || DEFAULT_MACRO_SPLIT.kcal_target,
+    protein_pct: profile?.protein_pct || DEFAULT_MACRO_SPLIT.protein_pct,
+    carb_pct: profile?.carb_pct || DEFAULT_MACRO_SPLIT.carb_pct,
+    fat_pct: profile?.fat_pct || DEFAULT_MACRO_SPLIT.fat_pct,
+  }
+}
+
+/**
+ * Daily macro targets in grams from a calorie target and split
+ */
+export function calculateDailyTargets(split: MacroSplit): MacroProfile {
+  const grams = (pct: number, kcalPerGram: number) =>
+    Math.round((split.kcal_target * pct) / 100 / kcalPerGram)
+
+  return {
+    calories: split.kcal_target,
+    protein: grams(split.protein_pct, KCAL_PER_GRAM.protein),
+    carbs: grams(split.carb_pct, KCAL_PER_GRAM.carbs),
+    fat: grams(split.fat_pct, KCAL_PER_GRAM.fat),
+  }
+}
+
+export function emptyNutrition(): NutritionProfile {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0, nutrients: {} }
+}
+
+/**
+ * Add the nutrition of `amount` of an ingredient, in the ingredient's own
+ * unit, into a running total, in place
+ */
+export function addIngredientNutrition(
+  into: NutritionProfile,
+  ingredient: Pick<
+    Ingredient,
+    'kcal' | 'protein' | 'carbs' | 'fat' | 'nutrients'
+  >,
+  amount: number
+): NutritionProfile {
+  const factor = amount / 100
+  into.calories += ingredient.kcal * factor
+  into.protein += ingredient.protein * factor
+  into.carbs += ingredient.carbs * factor
+  into.fat += ingredient.fat * factor
+  addNutrients(into.nutrients, ingredient.nutrients, factor)
+  return into
+}
+
+/**
+ * Nutrition of a whole meal, all servings, with its tuned quantities
+ */
+export function mealNutrition(meal: ScoredMeal): NutritionProfile {
+  const totals = emptyNutrition()
+  meal.recipes?.recipe_ingredients.forEach((ingredient) => {
+    addIngredientNutrition(
+      totals,
+      ingredient.ingredients,
+      resolveIngredientAmount(meal, ingredient) * meal.servings
+    )
+  })
+  return totals
+}
+
+/**
+ * Sum of several nutrition profiles
+ */
+export function sumNutrition(profiles: NutritionProfile[]): NutritionProfile {
+  return profiles.reduce<NutritionProfile>(
+    (totals, profile) => ({
+      calories: totals.calories + profile.calories,
+      protein: totals.protein + profile.protein,
+      carbs: totals.carbs + profile.carbs,
+      fat: totals.fat + profile.fat,
+      nutrients: addNutrients({ ...totals.nutrients }, profile.nutrients),
+    }),
+    emptyNutrition()
+  )
+}
+
+export function roundMacros(profile: MacroProfile): MacroProfile {
+  return {
+    calories: Math.round(profile.calories),
+    protein: Math.round(profile.protein),
+    carbs: Math.round(profile.carbs),
+    fat: Math.round(profile.fat),
+  }
+}
+
+/**
+ * Signed percentage each macro is off target (+10 = 10% over). Macros with
+ * no target count as on target.
+ */
+export function calculateMacroDeviation(
+  actual: MacroProfile,
+  target: MacroProfile
+): MacroProfile {
+  const deviation = (value: number, goal: number) =>
+    goal > 0 ? Math.round(((value - goal) / goal) * 100) : 0
+
+  return {
+    calories: deviation(actual.calories, target.calories),
+    protein: deviation(actual.protein, target.protein),
+    carbs: deviation(actual.carbs, target.carbs),
+    fat: deviation(actual.fat, target.fat),
+  }
+}
+
+/**
+ * Percentage accuracy per macro (100 = exactly on target)
+ */
+export function calculateMacroAccuracy(
+  actual: MacroProfile,
+  target: MacroProfile
+): MacroProfile {
+  const accuracy = (value: number, goal: number) =>
+    goal > 0 ? Math.round((1 - Math.abs(value - goal) / goal) * 100) : 100
+
+  return {
+    calories: accuracy(actual.calories, target.calories),
+    protein: accuracy(actual.protein, target.protein),
+    carbs: accuracy(actual.carbs, target.carbs),
+    fat: accuracy(actual.fat, target.fat),
+  }
+}
+
+/**
+ * One accuracy figure: the four macros' accuracies averaged
+ */
+export function overallAccuracy(accuracy: MacroProfile): number {
+  return Math.round(
+    (accuracy.calories + accuracy.protein + accuracy.carbs + accuracy.fat) / 4
+  )
+}
+
+/**
+ * Percentage of the pantry's stock the meals use, averaged over pantry items
+ * so a big bag of rice doesn't outweigh everything else
+ */
+export function calculatePantryUse(
+  meals: ScoredMeal[],
+  pantryItems: ScoredPantryItem[]
+): number {
+  if (pantryItems.length === 0) return 0
+
+  const needed = new Map<string, number>()
+  meals.forEach((meal) => {
+    meal.recipes?.recipe_ingredients.forEach((ingredient) => {
+      needed.set(
+        ingredient.ingredient_id,
+        (needed.get(ingredient.ingredient_id) ?? 0) +
+          resolveIngredientAmount(meal, ingredient) * meal.servings
+      )
+    })
+  })
+
+  const used = pantryItems.reduce((sum, item) => {
+    const available =
+      toIngredientUnit(item.quantity, item.unit, item.ingredients) ?? 0
+    if (available <= 0) return sum
+    return sum + Math.min(1, (needed.get(item.ingredient_id) ?? 0) / available)
+  }, 0)
+  return Math.round((used / pantryItems.length) * 100)
+}
+
+/**
+ * How many different recipes the meals are made of
+ */
+export function calculateVariety(meals: ScoredMeal[]): VarietyScore {
+  const recipes = new Set(meals.map((meal) => meal.recipe_id)).size
+  return {
+    meals: meals.length,
+    recipes,
+    score: meals.length > 0 ? Math.round((recipes / meals.length) * 100) : 0,
+  }
+}
+
+/**
+ * Score a week of meals against each day's targets, the pantry and prices
+ */
+export function scorePlan(
+  meals: ScoredMeal[],
+  context: ScoringContext
+): PlanEvaluation {
+  const pantryItems = context.pantryItems ?? []
+  const unitPrices = context.unitPrices ?? {}
+
+  const days: DayScore[] = Array.from({ length: DAYS_IN_WEEK }, (_, day) => {
+    const target = context.dayTargets?.[day] ?? context.dailyTargets
+    const actual = roundMacros(
+      sumNutrition(
+        meals.filter((meal) => meal.day_of_week === day).map(mealNutrition)
+      )
+    )
+    return {
+      day,
+      actual,
+      target,
+      deviation: calculateMacroDeviation(actual, target),
+      accuracy: calculateMacroAccuracy(actual, target),
+    }
+  })
+  const average = (of: (day: DayScore) => number) =>
+    Math.round(days.reduce((sum, day) => sum + of(day), 0) / days.length)
+  const accuracy: MacroProfile = {
+    calories: average((day) => day.accuracy.calories),
+    protein: average((day) => day.accuracy.protein),
+    carbs: average((day) => day.accuracy.carbs),
+    fat: average((day) => day.accuracy.fat),
+  }
+
+  // What's cooked for the whole household is what's shopped for
+  const cooked = meals.map(forHousehold)
+  const mealCosts = cooked.map((meal) => mealCost(meal, unitPrices))
+  const pricedCosts = mealCosts.filter((cost): cost is number => cost !== null)
+
+  return {
+    days,
+    deviation: {
+      calories: average((day) => Math.abs(day.deviation.calories)),
+      protein: average((day) => Math.abs(day.deviation.protein)),
+      carbs: average((day) => Math.abs(day.deviation.carbs)),
+      fat: average((day) => Math.abs(day.deviation.fat)),
+    },
+    accuracy,
+    macroAccuracy: overallAccuracy(accuracy),
+    variety: calculateVariety(meals),
+    pantryUse: calculatePantryUse(cooked, pantryItems),
+    cost: {
+      total:
+        Math.round(pricedCosts.reduce((sum, cost) => sum + cost, 0) * 100) /
+        100,
+      toBuy:
+        Math.round(shoppingCost(cooked, pantryItems, unitPrices) * 100) / 100,
+      unpricedMeals: mealCosts.length - pricedCosts.length,
+    },
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Pantry Expiry
+ *
+ * Pantry items can carry the last date they're still good (`expires_on`).
+ * The planner works in days of the planned week, so expiry dates are turned
+ * into day indices (0 = Monday) relative to the week's start. The dashboard
+ * compares expiry dates against planned meals to show what will spoil before
+ * it's eaten.
+ */
+
+import { Database } from '@/lib/types/database'
+import { resolveIngredientAmount } from '@/lib/mealIngredients'
+import { IngredientUnitData, toIngredientUnit } from '@/lib/units'
+import { cookedServings } from '@/lib/household'
+
+type PantryItem = Database['public']['Tables']['pantry_items']['Row'] & {
+  ingredients: IngredientUnitData & { name: string }
+}
+
+// A meal on a calendar date, with what it uses of each ingredient
+type DatedMeal = Parameters<typeof resolveIngredientAmount>[0] & {
+  date: string // YYYY-MM-DD
+  servings: number
+  meal_portions?: Array<{ servings: number }> | null // household members'
+  recipes: {
+    recipe_ingredients: Array<Parameters<typeof resolveIngredientAmount>[1]>
+  } | null
+}
+
+export interface SpoilageWarning {
+  ingredientId: string
+  ingredientName: string
+  expiresOn: string
+  unusedQuantity: number // in the ingredient's own unit
+  unit: string
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY)
+}
+
+/**
+ * Date `days` after a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * MS_PER_DAY)
+    .toISOString()
+    .split('T')[0]
+}
+
+/**
+ * Last day of the week (0 = Monday) each pantry ingredient can be used,
+ * for items with an expiry date. Negative when it expired before the week
+ * starts.
+ */
+export function pantryExpiryDays(
+  pantryItems: Array<Pick<PantryItem, 'ingredient_id' | 'expires_on'>>,
+  weekStart: string
+): Record<string, number> {
+  const expiry: Record<string, number> = {}
+  pantryItems.forEach((item) => {
+    if (item.expires_on) {
+      expiry[item.ingredient_id] = daysBetween(weekStart, item.expires_on)
+    }
+  })
+  return expiry
+}
+
+/**
+ * Pantry items expiring within `horizonDays` of today, with how much of each
+ * the planned meals between today and its expiry date leave unused. Items
+ * that already expired are listed with their whole stock.
+ */
+export function forecastSpoilage(
+  pantryItems: PantryItem[],
+  meals: DatedMeal[],
+  today: string,
+  horizonDays: number = 7
+): SpoilageWarning[] {
+  const warnings: SpoilageWarning[] = []
+
+  pantryItems.forEach((item) => {
+    if (!item.expires_on) return
+    if (daysBetween(today, item.expires_on) > horizonDays) return
+
+    const stock =
+      toIngredientUnit(item.quantity, item.unit, item.ingredients) ??
+      item.quantity
+
+    let used = 0
+    meals.forEach((meal) => {
+      if (meal.date < today || meal.date > item.expires_on!) return
+      meal.recipes?.recipe_ingredients.forEach((ingredient) => {
+        if (ingredient.ingredient_id !== item.ingredient_id) return
+        used += resolveIngredientAmount(meal, ingredient) * cookedServings(meal)
+      })
+    })
+
+    const unusedQuantity = Math.round((stock - used) * 10) / 10
+    if (unusedQuantity <= 0) return
+
+    warnings.push({
+      ingredientId: item.ingredient_id,
+      ingredientName: item.ingredients.name,
+      expiresOn: item.expires_on,
+      unusedQuantity,
+      unit: item.ingredients.unit,
+    })
+  })
+
+  return warnings.sort((a, b) => a.expiresOn.localeCompare(b.expiresOn))
+}
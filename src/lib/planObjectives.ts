@@ -0,0 +1,24 @@
+/**
+ * Plan Objectives
+ *
+ * Besides hitting the macros, the planner can favor the lowest shopping
+ * cost, the least cooking or using up the pantry. The dashboard plans the
+ * week once per objective (`planAlternatives`) and lets the user compare the
+ * plans side by side before committing one.
+ */
+
+import { PLAN_OBJECTIVES, PlanObjective } from '@/lib/planner/types'
+
+export const PLAN_OBJECTIVE_LABELS: Record<PlanObjective, string> = {
+  accuracy: 'Most accurate',
+  cost: 'Cheapest',
+  'cook-time': 'Least cooking',
+  pantry: 'Most pantry use',
+}
+
+/**
+ * Whether a value is one of the planner's objectives
+ */
+export function isPlanObjective(value: unknown): value is PlanObjective {
+  return PLAN_OBJECTIVES.includes(value as PlanObjective)
+}
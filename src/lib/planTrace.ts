@@ -0,0 +1,47 @@
+/**
+ * Plan Traces
+ *
+ * `planWeek` explains every plan it makes in a `PlanTrace`: the candidates
+ * it considered, why each meal was picked, why the other recipes were left
+ * out, what fine tuning changed and whether the optimizer's search finished
+ * or stopped at its node limit. The trace is stored with the plan
+ * (`meal_plans.trace`) for the plan page's "Why this plan?" panel.
+ */
+
+import { PickStep, PlanTrace, RejectionReason } from '@/lib/macroTetris'
+
+export const PICK_STEP_LABELS: Record<PickStep, string> = {
+  locked: 'Locked by you',
+  optimal: 'Best fit for the day',
+  protein: 'Protein fill',
+  carbs: 'Carb top-up',
+  fat: 'Fat top-up',
+}
+
+export const REJECTION_LABELS: Record<RejectionReason, string> = {
+  diet: 'Allergy or diet',
+  slot: 'No matching slot',
+  skill: 'Skill level',
+  pantry: 'Pantry',
+  prep: 'Fridge life',
+  'cook-time': 'Cooking time',
+  outranked: 'Outranked',
+}
+
+/**
+ * A stored trace, or null for plans without one (made before traces, or
+ * re-planned by day since). Traces stored before searches were recorded
+ * have none.
+ */
+export function resolvePlanTrace(trace: unknown): PlanTrace | null {
+  if (!trace || typeof trace !== 'object') return null
+  const { considered, picked, rejected, fineTuned, searches } =
+    trace as Partial<PlanTrace>
+  if (![considered, picked, rejected, fineTuned].every(Array.isArray)) {
+    return null
+  }
+  return {
+    ...(trace as PlanTrace),
+    searches: Array.isArray(searches) ? searches : [],
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Seeded Random Numbers
+ *
+ * Small deterministic PRNG (mulberry32) so the same inputs and seed always
+ * produce the same plan. Every planner stage that needs randomness takes a
+ * `RandomSource` instead of calling `Math.random()`.
+ */
+
+export type RandomSource = () => number // uniform in [0, 1)
+
+export const MAX_SEED = 2_147_483_647 // fits a Postgres integer column
+
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Fresh seed for plans generated without one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED)
+}
+
+export function isValidSeed(seed: unknown): seed is number {
+  return (
+    typeof seed === 'number' &&
+    Number.isInteger(seed) &&
+    seed >= 0 &&
+    seed <= MAX_SEED
+  )
+}
@@ -0,0 +1,473 @@
+/**
+ * Exact Serving Allocation Solver
+ *
+ * Branch-and-bound search over integer unit counts. Given a pool of items
+ * (recipes) with per-unit macros, it picks how many units of each to use so
+ * the weighted relative deviation from a macro target is minimal, subject to
+ * per-item unit caps, a cap on the total number of units, shared resource
+ * limits (pantry stock) and exclusive groups (at most one item per group may
+ * be used, e.g. one recipe per meal slot). A unit is whatever the caller
+ * scales an item to, such as a whole or a quarter serving.
+ *
+ * Optional nutrient bounds (e.g. fiber >= 30g, sodium <= 2300mg) are soft:
+ * every percent outside a bound adds to the deviation like a macro would.
+ *
+ * With a budget, resources that have a price may be used beyond their limit
+ * (bought, in pantry terms) as long as the total cost of everything bought
+ * stays within the budget.
+ *
+ * Base totals are macros and nutrients that are already fixed, such as meals
+ * the user locked; items are allocated on top of them.
+ *
+ * Fixed resources are used once by an item that's used at all, however many
+ * units it gets, such as the time it takes to cook a recipe. They count
+ * against the same resource limits, and with a budget priced ones can be
+ * bought like any other.
+ *
+ * Resource goals are soft minimums on how much of a resource to use, such as
+ * pantry stock that expires soon. Falling short adds to the deviation with a
+ * small weight, so among plans that hit the macros equally well the one that
+ * uses the stock wins.
+ *
+ * Resource weights and a cost weight make using a resource, or spending
+ * money, add to the deviation in proportion to the amount, for plans that
+ * should cook less or spend less even if they hit the macros a bit worse.
+ *
+ * Pruning uses a lower bound that is valid because macros and nutrients only
+ * ever grow as units are added:
+ * - a macro already above target contributes at least its current overshoot
+ * - a macro that cannot reach target even with every remaining unit
+ *   contributes at least the unreachable gap
+ */
+
+import {
+  DEFAULT_MACRO_WEIGHTS,
+  MACRO_KEYS,
+  MacroProfile,
+  MacroWeights,
+  NUTRIENT_BOUND_WEIGHT,
+  NutrientProfile,
+  NutrientTargets,
+  RESOURCE_GOAL_WEIGHT,
+} from './types'
+
+export interface AllocationItem {
+  id: string
+  macros: MacroProfile // per serving
+  maxUnits: number
+  resources?: Record<string, number> // consumption per serving
+  fixedResources?: Record<string, number> // consumption once used at all
+  groups?: string[] // at most one item of each group can be non-zero
+  nutrients?: NutrientProfile // per serving, only bounded keys matter
+}
+
+export interface AllocationProblem {
+  items: AllocationItem[]
+  target: MacroProfile
+  baseTotals?: MacroProfile // already fixed before any item is added
+  baseNutrients?: NutrientProfile
+  weights?: MacroWeights
+  maxTotalUnits?: number
+  resourceLimits?: Record<string, number>
+  nutrientBounds?: NutrientTargets
+  resourcePrices?: Record<string, number> // cost per unit beyond the limit
+  budget?: number // cap on the total cost of priced resources bought
+  resourceGoals?: Record<string, number> // soft minimum use per resource
+  resourceWeights?: Record<string, number> // deviation per unit used, >= 0
+  costWeight?: number // deviation per unit of money spent, >= 0
+  nodeLimit?: number
+}
+
+export interface AllocationSolution {
+  units: number[] // indexed like problem.items
+  totals: MacroProfile // including the base totals
+  nutrients: NutrientProfile // totals of the bounded nutrients, with the base
+  cost: number // spent on resources beyond their limits
+  deviation: number
+  optimal: boolean // false when the node budget ran out before proving it
+  nodesExplored: number
+}
+
+const DEFAULT_NODE_LIMIT = 200_000
+const EPSILON = 1e-9
+
+function emptyProfile(): MacroProfile {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0 }
+}
+
+/**
+ * Weighted sum of relative deviations from target. Macros with a zero target
+ * are ignored.
+ */
+export function macroDeviation(
+  actual: MacroProfile,
+  target: MacroProfile,
+  weights: MacroWeights = DEFAULT_MACRO_WEIGHTS
+): number {
+  let deviation = 0
+  for (const key of MACRO_KEYS) {
+    if (target[key] <= 0) continue
+    deviation +=
+      (weights[key] * Math.abs(actual[key] - target[key])) / target[key]
+  }
+  return deviation
+}
+
+/**
+ * Weighted sum of relative distances outside each nutrient bound. Nothing is
+ * added while a nutrient stays within its bounds.
+ */
+export function nutrientBoundPenalty(
+  actual: NutrientProfile,
+  bounds: NutrientTargets,
+  weight: number = NUTRIENT_BOUND_WEIGHT
+): number {
+  let penalty = 0
+  for (const [key, bound] of Object.entries(bounds)) {
+    const value = actual[key] ?? 0
+    if (bound.min && value < bound.min) {
+      penalty += (weight * (bound.min - value)) / bound.min
+    } else if (bound.max && value > bound.max) {
+      penalty += (weight * (value - bound.max)) / bound.max
+    }
+  }
+  return penalty
+}
+
+/**
+ * Weighted sum of the relative shortfall below each resource goal
+ */
+export function resourceGoalPenalty(
+  used: Record<string, number>,
+  goals: Record<string, number>,
+  weight: number = RESOURCE_GOAL_WEIGHT
+): number {
+  let penalty = 0
+  for (const [resource, goal] of Object.entries(goals)) {
+    const value = used[resource] ?? 0
+    if (goal > 0 && value < goal) {
+      penalty += (weight * (goal - value)) / goal
+    }
+  }
+  return penalty
+}
+
+/**
+ * Weighted sum of the amount used of each weighted resource
+ */
+export function resourceWeightPenalty(
+  used: Record<string, number>,
+  weights: Record<string, number>
+): number {
+  let penalty = 0
+  for (const [resource, weight] of Object.entries(weights)) {
+    penalty += weight * (used[resource] ?? 0)
+  }
+  return penalty
+}
+
+/**
+ * Find the serving allocation with the lowest macro deviation
+ */
+export function solveAllocation(
+  problem: AllocationProblem
+): AllocationSolution {
+  const { items, target } = problem
+  const weights = problem.weights ?? DEFAULT_MACRO_WEIGHTS
+  const maxTotalUnits = problem.maxTotalUnits ?? Infinity
+  const resourceLimits = problem.resourceLimits ?? {}
+  const nodeLimit = problem.nodeLimit ?? DEFAULT_NODE_LIMIT
+  const nutrientBounds = problem.nutrientBounds ?? {}
+  const nutrientKeys = Object.keys(nutrientBounds)
+  const resourceGoals = problem.resourceGoals ?? {}
+  const resourceWeights = problem.resourceWeights ?? {}
+  const costWeight = problem.costWeight ?? 0
+  const usageKeys = Array.from(
+    new Set([...Object.keys(resourceGoals), ...Object.keys(resourceWeights)])
+  )
+  const budget = problem.budget ?? 0
+  // Without a budget nothing can be bought and every limit is hard
+  const prices = budget > 0 ? (problem.resourcePrices ?? {}) : {}
+
+  // Resource goal, resource weight and cost penalties are never negative, so
+  // the pruning bound below stays valid without counting them
+  const objective = (
+    macros: MacroProfile,
+    nutrients: NutrientProfile,
+    usage: Record<string, number>,
+    cost: number
+  ) =>
+    macroDeviation(macros, target, weights) +
+    nutrientBoundPenalty(nutrients, nutrientBounds) +
+    resourceGoalPenalty(usage, resourceGoals) +
+    resourceWeightPenalty(usage, resourceWeights) +
+    costWeight * cost
+
+  // Branch on the biggest contributors first so overshoot shows up early
+  const order = items
+    .map((_, index) => index)
+    .filter((index) => items[index].maxUnits > 0)
+    .sort((a, b) => items[b].macros.calories - items[a].macros.calories)
+  const depthCount = order.length
+
+  // Upper bounds on what the not-yet-decided items can still add
+  const suffixTotal: MacroProfile[] = new Array(depthCount + 1)
+  const suffixPeak: MacroProfile[] = new Array(depthCount + 1)
+  const nutrientSuffixTotal: NutrientProfile[] = new Array(depthCount + 1)
+  const nutrientSuffixPeak: NutrientProfile[] = new Array(depthCount + 1)
+  suffixTotal[depthCount] = emptyProfile()
+  suffixPeak[depthCount] = emptyProfile()
+  nutrientSuffixTotal[depthCount] = {}
+  nutrientSuffixPeak[depthCount] = {}
+  for (let depth = depthCount - 1; depth >= 0; depth--) {
+    const item = items[order[depth]]
+    suffixTotal[depth] = emptyProfile()
+    suffixPeak[depth] = emptyProfile()
+    for (const key of MACRO_KEYS) {
+      suffixTotal[depth][key] =
+        suffixTotal[depth + 1][key] + item.macros[key] * item.maxUnits
+      suffixPeak[depth][key] = Math.max(
+        suffixPeak[depth + 1][key],
+        item.macros[key]
+      )
+    }
+    nutrientSuffixTotal[depth] = {}
+    nutrientSuffixPeak[depth] = {}
+    for (const key of nutrientKeys) {
+      const perUnit = item.nutrients?.[key] ?? 0
+      nutrientSuffixTotal[depth][key] =
+        (nutrientSuffixTotal[depth + 1][key] ?? 0) + perUnit * item.maxUnits
+      nutrientSuffixPeak[depth][key] = Math.max(
+        nutrientSuffixPeak[depth + 1][key] ?? 0,
+        perUnit
+      )
+    }
+  }
+
+  const units = new Array<number>(items.length).fill(0)
+  const totals = { ...(problem.baseTotals ?? emptyProfile()) }
+  const nutrientTotals: NutrientProfile = Object.fromEntries(
+    nutrientKeys.map((key) => [key, problem.baseNutrients?.[key] ?? 0])
+  )
+  const used: Record<string, number> = {}
+  const takenGroups = new Set<string>()
+  let totalUnits = 0
+  let spent = 0
+
+  let best = {
+    units: [...units],
+    totals: { ...totals },
+    nutrients: { ...nutrientTotals },
+    cost: spent,
+    deviation: objective(totals, nutrientTotals, used, spent),
+  }
+  let nodesExplored = 0
+  let exhausted = false
+
+  const lowerBound = (depth: number): number => {
+    const remainingUnits = maxTotalUnits - totalUnits
+    let bound = 0
+
+    for (const key of MACRO_KEYS) {
+      const goal = target[key]
+      if (goal <= 0) continue
+
+      const current = totals[key]
+      if (current > goal) {
+        bound += (weights[key] * (current - goal)) / goal
+        continue
+      }
+
+      const reachable = Math.min(
+        suffixTotal[depth][key],
+        remainingUnits * suffixPeak[depth][key]
+      )
+      if (current + reachable < goal) {
+        bound += (weights[key] * (goal - current - reachable)) / goal
+      }
+    }
+
+    for (const key of nutrientKeys) {
+      const { min, max } = nutrientBounds[key]
+      const current = nutrientTotals[key]
+
+      if (max && current > max) {
+        bound += (NUTRIENT_BOUND_WEIGHT * (current - max)) / max
+        continue
+      }
+
+      const reachable = Math.min(
+        nutrientSuffixTotal[depth][key],
+        remainingUnits * nutrientSuffixPeak[depth][key]
+      )
+      if (min && current + reachable < min) {
+        bound += (NUTRIENT_BOUND_WEIGHT * (min - current - reachable)) / min
+      }
+    }
+
+    return bound
+  }
+
+  // Cost of buying what `count` more units need beyond the resource limits,
+  // with the item's fixed resources when it becomes used (or unused, for a
+  // negative count)
+  const purchaseCost = (item: AllocationItem, count: number): number => {
+    const amounts: Record<string, number> = {}
+    for (const [resource, perUnit] of Object.entries(item.resources ?? {})) {
+      amounts[resource] = perUnit * count
+    }
+    for (const [resource, amount] of Object.entries(
+      item.fixedResources ?? {}
+    )) {
+      amounts[resource] = (amounts[resource] ?? 0) + amount * Math.sign(count)
+    }
+
+    let cost = 0
+    for (const [resource, amount] of Object.entries(amounts)) {
+      const price = prices[resource]
+      if (price === undefined || amount === 0) continue
+      const limit = resourceLimits[resource] ?? 0
+      const before = used[resource] ?? 0
+      cost +=
+        price *
+        (Math.max(0, before + amount - limit) - Math.max(0, before - limit))
+    }
+    return cost
+  }
+
+  const unitCap = (item: AllocationItem): number => {
+    if (item.groups?.some((group) => takenGroups.has(group))) return 0
+
+    for (const [resource, amount] of Object.entries(
+      item.fixedResources ?? {}
+    )) {
+      const limit = resourceLimits[resource]
+      if (limit === undefined || amount <= 0) continue
+      if (prices[resource] !== undefined) continue
+      if ((used[resource] ?? 0) + amount > limit + EPSILON) return 0
+    }
+
+    let cap = Math.min(item.maxUnits, maxTotalUnits - totalUnits)
+
+    for (const [resource, perUnit] of Object.entries(item.resources ?? {})) {
+      const limit = resourceLimits[resource]
+      if (limit === undefined || perUnit <= 0) continue
+      if (prices[resource] !== undefined) continue
+      const remaining = limit - (used[resource] ?? 0)
+      cap = Math.min(cap, Math.floor(remaining / perUnit + EPSILON))
+    }
+
+    // Purchase cost only grows with the count
+    while (cap > 0 && spent + purchaseCost(item, cap) > budget + EPSILON) {
+      cap--
+    }
+
+    return Math.max(0, cap)
+  }
+
+  const apply = (index: number, delta: number) => {
+    const item = items[index]
+    spent += purchaseCost(item, delta)
+    units[index] += delta
+    totalUnits += delta
+    for (const key of MACRO_KEYS) {
+      totals[key] += item.macros[key] * delta
+    }
+    for (const key of nutrientKeys) {
+      nutrientTotals[key] += (item.nutrients?.[key] ?? 0) * delta
+    }
+    for (const [resource, perUnit] of Object.entries(item.resources ?? {})) {
+      used[resource] = (used[resource] ?? 0) + perUnit * delta
+    }
+    // Counts are only ever applied and reverted whole, so the sign of delta
+    // tells whether the item just became used or unused
+    for (const [resource, amount] of Object.entries(
+      item.fixedResources ?? {}
+    )) {
+      used[resource] = (used[resource] ?? 0) + amount * Math.sign(delta)
+    }
+    for (const group of item.groups ?? []) {
+      if (delta > 0) takenGroups.add(group)
+      else takenGroups.delete(group)
+    }
+  }
+
+  // Try the counts that bring totals closest to target first
+  const candidateCounts = (index: number, cap: number): number[] => {
+    const item = items[index]
+    const scored: Array<{ count: number; score: number }> = []
+
+    for (let count = 0; count <= cap; count++) {
+      const projected = emptyProfile()
+      for (const key of MACRO_KEYS) {
+        projected[key] = totals[key] + item.macros[key] * count
+      }
+      const projectedNutrients: NutrientProfile = {}
+      for (const key of nutrientKeys) {
+        projectedNutrients[key] =
+          nutrientTotals[key] + (item.nutrients?.[key] ?? 0) * count
+      }
+      const projectedUsage: Record<string, number> = {}
+      for (const key of usageKeys) {
+        projectedUsage[key] =
+          (used[key] ?? 0) +
+          (item.resources?.[key] ?? 0) * count +
+          (count > 0 ? (item.fixedResources?.[key] ?? 0) : 0)
+      }
+      scored.push({
+        count,
+        score: objective(
+          projected,
+          projectedNutrients,
+          projectedUsage,
+          spent + purchaseCost(item, count)
+        ),
+      })
+    }
+
+    return scored.sort((a, b) => a.score - b.score).map((s) => s.count)
+  }
+
+  const search = (depth: number) => {
+    if (exhausted) return
+    if (++nodesExplored > nodeLimit) {
+      exhausted = true
+      return
+    }
+
+    // Leaving every remaining item at zero is always feasible
+    const deviation = objective(totals, nutrientTotals, used, spent)
+    if (deviation < best.deviation - EPSILON) {
+      best = {
+        units: [...units],
+        totals: { ...totals },
+        nutrients: { ...nutrientTotals },
+        cost: spent,
+        deviation,
+      }
+    }
+
+    if (depth === depthCount) return
+    if (lowerBound(depth) >= best.deviation - EPSILON) return
+
+    const index = order[depth]
+    for (const count of candidateCounts(index, unitCap(items[index]))) {
+      if (count > 0) apply(index, count)
+      search(depth + 1)
+      if (count > 0) apply(index, -count)
+      if (exhausted) return
+    }
+  }
+
+  search(0)
+
+  return {
+    units: best.units,
+    totals: best.totals,
+    nutrients: best.nutrients,
+    cost: best.cost,
+    deviation: best.deviation,
+    optimal: !exhausted,
+    nodesExplored,
+  }
+}
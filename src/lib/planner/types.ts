@@ -0,0 +1,92 @@
+/**
+ * Shared planner types
+ *
+ * Plain data shapes used by the Macro Tetris planner and its optimization
+ * stages. Nothing in here depends on Supabase so the solver can be reused
+ * outside of the request/response cycle.
+ */
+
+export interface MacroProfile {
+  calories: number
+  protein: number
+  carbs: number
+  fat: number
+}
+
+export type MacroKey = keyof MacroProfile
+
+export const MACRO_KEYS: MacroKey[] = ['calories', 'protein', 'carbs', 'fat']
+
+/**
+ * Relative importance of each macro when measuring deviation from target.
+ */
+export type MacroWeights = MacroProfile
+
+export const DEFAULT_MACRO_WEIGHTS: MacroWeights = {
+  calories: 1,
+  protein: 1.5,
+  carbs: 1,
+  fat: 1,
+}
+
+export type PlanningStrategy = 'optimal' | 'greedy'
+
+/**
+ * What the optimizer favors besides hitting the macros: nothing else, the
+ * lowest shopping cost, the least cooking or using up the pantry
+ */
+export type PlanObjective = 'accuracy' | 'cost' | 'cook-time' | 'pantry'
+
+export const PLAN_OBJECTIVES: PlanObjective[] = [
+  'accuracy',
+  'cost',
+  'cook-time',
+  'pantry',
+]
+
+/**
+ * Nutrients beyond the four macros (fiber, sodium, vitamins, ...), keyed by
+ * nutrient key such as `fiber_g` or `sodium_mg`. Open-ended: any key found
+ * in ingredient data is carried along.
+ */
+export type NutrientProfile = Record<string, number>
+
+export interface NutritionProfile extends MacroProfile {
+  nutrients: NutrientProfile
+}
+
+/**
+ * Optional daily limits per nutrient. Either side may be left out.
+ */
+export interface NutrientBound {
+  min?: number
+  max?: number
+}
+
+export type NutrientTargets = Record<string, NutrientBound>
+
+/**
+ * Weight of a nutrient bound violation relative to the macro weights, per
+ * 100% outside the bound
+ */
+export const NUTRIENT_BOUND_WEIGHT = 1
+
+/**
+ * Weight of falling short of a resource goal (e.g. using up stock that is
+ * about to expire), per 100% of the goal left unused. Half a macro's weight:
+ * using up expiring stock is worth a small macro miss, not a large one.
+ */
+export const RESOURCE_GOAL_WEIGHT = 0.5
+
+/**
+ * Weight of each unit of money spent when planning for the lowest cost,
+ * relative to the macro weights: spending 10 on a day is worth a 100% miss
+ * on one macro.
+ */
+export const COST_WEIGHT = 0.1
+
+/**
+ * Weight of each second of cooking when planning for the least cooking: an
+ * hour at the stove is worth a 100% miss on one macro.
+ */
+export const COOK_TIME_WEIGHT = 1 / 3600
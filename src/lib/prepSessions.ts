@@ -0,0 +1,129 @@
+/**
+ * Prep Sessions
+ *
+ * A plan can declare the weekdays its meals are batch-cooked on (0 = Monday).
+ * Each meal is eaten from the latest prep session on or before its day; a
+ * Sunday session also covers the start of the following week, so "Sunday"
+ * alone means cooking the day before the week begins. A meal is only safe if
+ * it's eaten within the recipe's fridge life after that session, unless the
+ * recipe freezes well, in which case the later portions go in the freezer.
+ *
+ * Without prep days every meal is cooked on the day it's eaten.
+ */
+
+import { Database } from '@/lib/types/database'
+
+type Recipe = Database['public']['Tables']['recipes']['Row']
+
+const DAYS_IN_WEEK = 7
+
+// The session on the Sunday before the week, for a plan with Sunday prep
+export const SESSION_BEFORE_WEEK = -1
+
+/**
+ * Distinct prep days (0 = Monday) in order, dropping anything that isn't a
+ * day of the week
+ */
+export function sanitizePrepDays(prepDays: unknown): number[] {
+  if (!Array.isArray(prepDays)) return []
+  return Array.from(
+    new Set(
+      prepDays.filter(
+        (day): day is number =>
+          Number.isInteger(day) && day >= 0 && day < DAYS_IN_WEEK
+      )
+    )
+  ).sort((a, b) => a - b)
+}
+
+/**
+ * Whether a value is a list of distinct days of the week (0 = Monday)
+ */
+export function isValidPrepDays(prepDays: unknown): prepDays is number[] {
+  return (
+    Array.isArray(prepDays) &&
+    sanitizePrepDays(prepDays).length === prepDays.length
+  )
+}
+
+/**
+ * Day of the prep session a meal on `day` is eaten from: the latest prep day
+ * on or before it, counting the previous week's sessions as negative days
+ * (-1 = the Sunday before). Null when no prep days are declared.
+ */
+export function prepSessionFor(day: number, prepDays: number[]): number | null {
+  if (prepDays.length === 0) return null
+  return Math.max(
+    ...prepDays.map((prepDay) =>
+      prepDay <= day ? prepDay : prepDay - DAYS_IN_WEEK
+    )
+  )
+}
+
+/**
+ * Cooking session a meal on `day` is cooked in: its prep session, or the day
+ * itself without prep days. Sessions are days of this week (0 = Monday),
+ * apart from -1 for the Sunday before it, which is a session of its own and
+ * not this week's Sunday.
+ */
+export function cookingSession(day: number, prepDays: number[]): number {
+  return prepSessionFor(day, prepDays) ?? day
+}
+
+/**
+ * Day of the week (0 = Monday) a cooking session falls on, e.g. Sunday for
+ * the session before the week
+ */
+export function sessionWeekday(session: number): number {
+  return (session + DAYS_IN_WEEK) % DAYS_IN_WEEK
+}
+
+/**
+ * Days between a meal's prep session and the day it's eaten
+ */
+function daysSincePrep(day: number, prepDays: number[]): number {
+  const session = prepSessionFor(day, prepDays)
+  return session === null ? 0 : day - session
+}
+
+/**
+ * Whether a recipe can be served on `day`: within its fridge life after the
+ * prep session, or frozen in between
+ */
+export function fitsPrepSchedule(
+  recipe: Pick<Recipe, 'fridge_days' | 'freezer_friendly'>,
+  day: number,
+  prepDays: number[]
+): boolean {
+  return recipe.freezer_friendly || !needsFreezing(recipe, day, prepDays)
+}
+
+/**
+ * Whether a meal on `day` would be past the recipe's fridge life, so its
+ * portion has to be frozen on prep day
+ */
+export function needsFreezing(
+  recipe: Pick<Recipe, 'fridge_days'>,
+  day: number,
+  prepDays: number[]
+): boolean {
+  return daysSincePrep(day, prepDays) > recipe.fridge_days
+}
+
+/**
+ * "Sunday", or "Sunday (before the week)" for the previous week's session
+ */
+export function formatPrepSession(session: number): string {
+  const names = [
+    'Monday',
+    'Tuesday',
+    'Wednesday',
+    'Thursday',
+    'Friday',
+    'Saturday',
+    'Sunday',
+  ]
+  return session < 0
+    ? `${names[session + DAYS_IN_WEEK]} (before the week)`
+    : names[session]
+}
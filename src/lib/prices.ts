@@ -0,0 +1,127 @@
+/**
+ * Ingredient Prices
+ *
+ * Prices are stored as "price for quantity unit" (3.49 for 500 g), per user
+ * or shared, optionally per store. Planning and cost estimates work with one
+ * number per ingredient: the cheapest known price per unit of the
+ * ingredient's own unit, preferring the user's own prices over shared ones.
+ */
+
+import { Database } from '@/lib/types/database'
+import { IngredientUnitData, toIngredientUnit } from '@/lib/units'
+import { resolveIngredientAmount } from '@/lib/mealIngredients'
+
+export type IngredientPrice =
+  Database['public']['Tables']['ingredient_prices']['Row'] & {
+    ingredients: Database['public']['Tables']['ingredients']['Row']
+  }
+
+// Price per unit of the ingredient's own unit, by ingredient id
+export type UnitPrices = Record<string, number>
+
+type CostedMeal = Parameters<typeof resolveIngredientAmount>[0] & {
+  servings: number
+  recipes: {
+    recipe_ingredients: Array<Parameters<typeof resolveIngredientAmount>[1]>
+  } | null
+}
+
+/**
+ * Price of one unit of the ingredient's own unit, or null if the price's
+ * unit can't be converted
+ */
+export function unitPrice(price: IngredientPrice): number | null {
+  const quantity = toIngredientUnit(
+    price.quantity,
+    price.unit,
+    price.ingredients
+  )
+  return quantity && quantity > 0 ? price.price / quantity : null
+}
+
+/**
+ * Cheapest unit price per ingredient; a user's own prices replace the shared
+ * ones for that ingredient
+ */
+export function resolveUnitPrices(prices: IngredientPrice[]): UnitPrices {
+  const ownIngredients = new Set(
+    prices
+      .filter((price) => price.user_id !== null)
+      .map((price) => price.ingredient_id)
+  )
+
+  const resolved: UnitPrices = {}
+  prices.forEach((price) => {
+    if (price.user_id === null && ownIngredients.has(price.ingredient_id)) {
+      return
+    }
+    const perUnit = unitPrice(price)
+    if (perUnit === null) return
+    const current = resolved[price.ingredient_id]
+    if (current === undefined || perUnit < current) {
+      resolved[price.ingredient_id] = perUnit
+    }
+  })
+
+  return resolved
+}
+
+/**
+ * Cost of a meal's priced ingredients, or null if none of them has a price
+ */
+export function mealCost(
+  meal: CostedMeal,
+  unitPrices: UnitPrices
+): number | null {
+  let cost: number | null = null
+  meal.recipes?.recipe_ingredients.forEach((ingredient) => {
+    const price = unitPrices[ingredient.ingredient_id]
+    if (price === undefined) return
+    cost =
+      (cost ?? 0) +
+      price * resolveIngredientAmount(meal, ingredient) * meal.servings
+  })
+  return cost
+}
+
+/**
+ * Cost of the priced ingredients the meals need beyond the pantry stock
+ */
+export function shoppingCost(
+  meals: CostedMeal[],
+  pantryItems: Array<{
+    ingredient_id: string
+    quantity: number
+    unit: string
+    ingredients: IngredientUnitData
+  }>,
+  unitPrices: UnitPrices
+): number {
+  const needed = new Map<string, number>()
+  meals.forEach((meal) => {
+    meal.recipes?.recipe_ingredients.forEach((ingredient) => {
+      needed.set(
+        ingredient.ingredient_id,
+        (needed.get(ingredient.ingredient_id) ?? 0) +
+          resolveIngredientAmount(meal, ingredient) * meal.servings
+      )
+    })
+  })
+
+  let cost = 0
+  needed.forEach((amount, ingredientId) => {
+    const price = unitPrices[ingredientId]
+    if (price === undefined) return
+    const item = pantryItems.find((p) => p.ingredient_id === ingredientId)
+    const stock = item
+      ? (toIngredientUnit(item.quantity, item.unit, item.ingredients) ??
+        item.quantity)
+      : 0
+    cost += price * Math.max(0, amount - stock)
+  })
+  return cost
+}
+
+export function formatPrice(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
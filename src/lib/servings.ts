@@ -0,0 +1,46 @@
+/**
+ * Fractional Servings
+ *
+ * Meals are planned and stored in quarter servings, so 1.5 servings of a
+ * shake can close a protein gap that a whole second serving would overshoot.
+ */
+
+export const SERVING_STEP = 0.25
+
+const EPSILON = 1e-9
+
+/**
+ * Round a serving count down to the nearest step
+ */
+export function floorServings(servings: number): number {
+  return Math.floor(servings / SERVING_STEP + EPSILON) * SERVING_STEP
+}
+
+/**
+ * Round a serving count up to the nearest step
+ */
+export function ceilServings(servings: number): number {
+  return Math.ceil(servings / SERVING_STEP - EPSILON) * SERVING_STEP
+}
+
+/**
+ * Round a serving count to the nearest step
+ */
+export function roundServings(servings: number): number {
+  return Math.round(servings / SERVING_STEP) * SERVING_STEP
+}
+
+export function isValidServings(servings: unknown): servings is number {
+  return (
+    typeof servings === 'number' &&
+    servings >= SERVING_STEP &&
+    Math.abs(roundServings(servings) - servings) < EPSILON
+  )
+}
+
+/**
+ * "1 serving", "1.5 servings", "0.25 servings"
+ */
+export function formatServings(servings: number): string {
+  return `${servings} serving${servings === 1 ? '' : 's'}`
+}
@@ -0,0 +1,58 @@
+/**
+ * Skill Levels
+ *
+ * Recipes are rated beginner, intermediate or advanced. Users can set their
+ * own level; the planner then only picks recipes at or below it, apart from
+ * a weekly allowance of "stretch" meals one level above. Without a level
+ * every recipe can be planned.
+ */
+
+export const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced'] as const
+
+export type SkillLevel = (typeof SKILL_LEVELS)[number]
+
+/**
+ * The user's skill level, or null if it isn't set or isn't a known level
+ */
+export function resolveSkillLevel(level: unknown): SkillLevel | null {
+  return SKILL_LEVELS.includes(level as SkillLevel)
+    ? (level as SkillLevel)
+    : null
+}
+
+/**
+ * How many levels a recipe is above the user's; 0 at or below it, without a
+ * user level, or for a recipe with an unknown level
+ */
+export function levelsAbove(
+  recipeLevel: string,
+  userLevel: SkillLevel | null
+): number {
+  if (userLevel === null) return 0
+  const recipeRank = SKILL_LEVELS.indexOf(recipeLevel as SkillLevel)
+  return Math.max(0, recipeRank - SKILL_LEVELS.indexOf(userLevel))
+}
+
+/**
+ * Whether a recipe is a stretch for the user: exactly one level above
+ */
+export function isStretch(
+  recipeLevel: string,
+  userLevel: SkillLevel | null
+): boolean {
+  return levelsAbove(recipeLevel, userLevel) === 1
+}
+
+/**
+ * Whether a recipe may be planned once `stretchUsed` of the week's
+ * `stretchMeals` stretch meals are planned
+ */
+export function withinSkill(
+  recipeLevel: string,
+  userLevel: SkillLevel | null,
+  stretchMeals: number,
+  stretchUsed: number
+): boolean {
+  const above = levelsAbove(recipeLevel, userLevel)
+  return above === 0 || (above === 1 && stretchUsed < stretchMeals)
+}
@@ -1,3 +1,11 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
 export type Database = {
   public: {
     Tables: {
@@ -9,6 +17,14 @@ export type Database = {
           protein_pct: number
           carb_pct: number
           fat_pct: number
+          nutrient_targets: { [key: string]: { min?: number; max?: number } }
+          day_profiles: { [name: string]: { kcal_target: number; protein_pct: number; carb_pct: number; fat_pct: number } }
+          day_schedule: (string | null)[]
+          cook_time_limits: (number | null)[]
+          skill_level: string | null
+          stretch_meals: number
+          meal_slots: { name: string; time?: string; calorie_pct?: number; recipe_types?: string[] }[]
+          weekly_budget: number | null
         }
         Insert: {
           id: string
@@ -17,6 +33,14 @@ export type Database = {
           protein_pct?: number
           carb_pct?: number
           fat_pct?: number
+          nutrient_targets?: { [key: string]: { min?: number; max?: number } }
+          day_profiles?: { [name: string]: { kcal_target: number; protein_pct: number; carb_pct: number; fat_pct: number } }
+          day_schedule?: (string | null)[]
+          cook_time_limits?: (number | null)[]
+          skill_level?: string | null
+          stretch_meals?: number
+          meal_slots?: { name: string; time?: string; calorie_pct?: number; recipe_types?: string[] }[]
+          weekly_budget?: number | null
         }
         Update: {
           id?: string
@@ -25,6 +49,14 @@ export type Database = {
           protein_pct?: number
           carb_pct?: number
           fat_pct?: number
+          nutrient_targets?: { [key: string]: { min?: number; max?: number } }
+          day_profiles?: { [name: string]: { kcal_target: number; protein_pct: number; carb_pct: number; fat_pct: number } }
+          day_schedule?: (string | null)[]
+          cook_time_limits?: (number | null)[]
+          skill_level?: string | null
+          stretch_meals?: number
+          meal_slots?: { name: string; time?: string; calorie_pct?: number; recipe_types?: string[] }[]
+          weekly_budget?: number | null
         }
       }
       ingredients: {
@@ -36,6 +68,11 @@ export type Database = {
           carbs: number
           fat: number
           kcal: number
+          density: number | null
+          piece_weight: number | null
+          nutrients: { [key: string]: number }
+          allergens: string[]
+          diets: string[]
         }
         Insert: {
           id?: string
@@ -45,6 +82,11 @@ export type Database = {
           carbs: number
           fat: number
           kcal: number
+          density?: number | null
+          piece_weight?: number | null
+          nutrients?: { [key: string]: number }
+          allergens?: string[]
+          diets?: string[]
         }
         Update: {
           id?: string
@@ -54,6 +96,11 @@ export type Database = {
           carbs?: number
           fat?: number
           kcal?: number
+          density?: number | null
+          piece_weight?: number | null
+          nutrients?: { [key: string]: number }
+          allergens?: string[]
+          diets?: string[]
         }
       }
       pantry_items: {
@@ -62,18 +109,53 @@ export type Database = {
           ingredient_id: string
           quantity: number
           unit: string
+          expires_on: string | null
         }
         Insert: {
           user_id: string
           ingredient_id: string
           quantity: number
           unit: string
+          expires_on?: string | null
         }
         Update: {
           user_id?: string
           ingredient_id?: string
           quantity?: number
           unit?: string
+          expires_on?: string | null
+        }
+      }
+      ingredient_prices: {
+        Row: {
+          id: string
+          ingredient_id: string
+          user_id: string | null
+          store: string | null
+          price: number
+          quantity: number
+          unit: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          ingredient_id: string
+          user_id?: string | null
+          store?: string | null
+          price: number
+          quantity: number
+          unit: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          ingredient_id?: string
+          user_id?: string | null
+          store?: string | null
+          price?: number
+          quantity?: number
+          unit?: string
+          created_at?: string
         }
       }
       recipes: {
@@ -88,6 +170,9 @@ export type Database = {
           }>
           skill_level: string
           default_servings: number
+          meal_types: string[]
+          fridge_days: number
+          freezer_friendly: boolean
         }
         Insert: {
           id?: string
@@ -100,6 +185,9 @@ export type Database = {
           }>
           skill_level: string
           default_servings: number
+          meal_types?: string[]
+          fridge_days?: number
+          freezer_friendly?: boolean
         }
         Update: {
           id?: string
@@ -112,6 +200,9 @@ export type Database = {
           }>
           skill_level?: string
           default_servings?: number
+          meal_types?: string[]
+          fridge_days?: number
+          freezer_friendly?: boolean
         }
       }
       recipe_ingredients: {
@@ -120,18 +211,21 @@ export type Database = {
           ingredient_id: string
           quantity: number
           unit: string
+          flex_pct: number
         }
         Insert: {
           recipe_id: string
           ingredient_id: string
           quantity: number
           unit: string
+          flex_pct?: number
         }
         Update: {
           recipe_id?: string
           ingredient_id?: string
           quantity?: number
           unit?: string
+          flex_pct?: number
         }
       }
       meal_plans: {
@@ -143,6 +237,9 @@ export type Database = {
           total_protein: number
           total_carbs: number
           total_fat: number
+          seed: number | null
+          prep_days: number[]
+          trace: Json | null
         }
         Insert: {
           id?: string
@@ -152,6 +249,9 @@ export type Database = {
           total_protein: number
           total_carbs: number
           total_fat: number
+          seed?: number | null
+          prep_days?: number[]
+          trace?: Json | null
         }
         Update: {
           id?: string
@@ -161,6 +261,9 @@ export type Database = {
           total_protein?: number
           total_carbs?: number
           total_fat?: number
+          seed?: number | null
+          prep_days?: number[]
+          trace?: Json | null
         }
       }
       meals: {
@@ -171,6 +274,7 @@ export type Database = {
           servings: number
           day_of_week: number
           meal_slot: string
+          locked: boolean
         }
         Insert: {
           id?: string
@@ -179,6 +283,7 @@ export type Database = {
           servings: number
           day_of_week: number
           meal_slot: string
+          locked?: boolean
         }
         Update: {
           id?: string
@@ -187,6 +292,111 @@ export type Database = {
           servings?: number
           day_of_week?: number
           meal_slot?: string
+          locked?: boolean
+        }
+      }
+      meal_ingredients: {
+        Row: {
+          meal_id: string
+          ingredient_id: string
+          quantity: number
+          unit: string
+        }
+        Insert: {
+          meal_id: string
+          ingredient_id: string
+          quantity: number
+          unit: string
+        }
+        Update: {
+          meal_id?: string
+          ingredient_id?: string
+          quantity?: number
+          unit?: string
+        }
+      }
+      user_preferences: {
+        Row: {
+          id: string
+          user_id: string
+          preference_type: string
+          preference_value: string
+          confidence_score: number
+          source: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          preference_type: string
+          preference_value: string
+          confidence_score?: number
+          source?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          preference_type?: string
+          preference_value?: string
+          confidence_score?: number
+          source?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      household_members: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          kcal_target: number
+          protein_pct: number
+          carb_pct: number
+          fat_pct: number
+          shared_slots: string[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          kcal_target?: number
+          protein_pct?: number
+          carb_pct?: number
+          fat_pct?: number
+          shared_slots?: string[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          kcal_target?: number
+          protein_pct?: number
+          carb_pct?: number
+          fat_pct?: number
+          shared_slots?: string[]
+          created_at?: string
+        }
+      }
+      meal_portions: {
+        Row: {
+          meal_id: string
+          member_id: string
+          servings: number
+        }
+        Insert: {
+          meal_id: string
+          member_id: string
+          servings: number
+        }
+        Update: {
+          meal_id?: string
+          member_id?: string
+          servings?: number
         }
       }
     }
@@ -194,7 +404,25 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      replace_meal_plan: {
+        Args: {
+          p_user_id: string
+          p_week_start: string
+          p_plan: Json
+          p_meals: Json
+        }
+        Returns: string
+      }
+      replace_plan_meals: {
+        Args: {
+          p_meal_plan_id: string
+          p_day: number
+          p_slot: string | null
+          p_plan: Json
+          p_meals: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
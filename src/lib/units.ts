@@ -0,0 +1,143 @@
+/**
+ * Unit Conversion
+ *
+ * Converts ingredient quantities between mass (g, kg, oz, ...), volume
+ * (ml, l, cup, tbsp, ...) and count (piece, slice, scoop) units. Crossing
+ * dimensions goes through grams and needs per-ingredient data: `density`
+ * (g per ml) for volume and `piece_weight` (g per piece) for count units.
+ *
+ * Nutrition values are stored per 100 of the ingredient's own `unit`, so the
+ * planner converts every recipe and pantry quantity into that unit before
+ * comparing or adding them up.
+ */
+
+export type UnitDimension = 'mass' | 'volume' | 'count'
+
+export interface IngredientUnitData {
+  unit: string
+  density?: number | null // g per ml
+  piece_weight?: number | null // g per piece
+}
+
+// Size of each unit in its dimension's base unit (g, ml or piece)
+const UNITS: Record<string, { dimension: UnitDimension; factor: number }> = {
+  mg: { dimension: 'mass', factor: 0.001 },
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  oz: { dimension: 'mass', factor: 28.349523125 },
+  lb: { dimension: 'mass', factor: 453.59237 },
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+  tsp: { dimension: 'volume', factor: 4.92892159375 },
+  tbsp: { dimension: 'volume', factor: 14.78676478125 },
+  'fl oz': { dimension: 'volume', factor: 29.5735295625 },
+  cup: { dimension: 'volume', factor: 236.5882365 },
+  piece: { dimension: 'count', factor: 1 },
+  slice: { dimension: 'count', factor: 1 },
+  scoop: { dimension: 'count', factor: 1 },
+}
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: 'g',
+  grams: 'g',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  ounce: 'oz',
+  ounces: 'oz',
+  pound: 'lb',
+  pounds: 'lb',
+  lbs: 'lb',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  liter: 'l',
+  liters: 'l',
+  litre: 'l',
+  litres: 'l',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  cups: 'cup',
+  pieces: 'piece',
+  pc: 'piece',
+  pcs: 'piece',
+  slices: 'slice',
+  scoops: 'scoop',
+}
+
+/**
+ * Canonical spelling of a unit ("Grams" -> "g")
+ */
+export function normalizeUnit(unit: string): string {
+  const key = unit.trim().toLowerCase()
+  return UNIT_ALIASES[key] ?? key
+}
+
+export function unitDimension(unit: string): UnitDimension | null {
+  return UNITS[normalizeUnit(unit)]?.dimension ?? null
+}
+
+/**
+ * Grams per base unit (ml or piece) of a dimension for an ingredient, or
+ * null when the ingredient has no data to cross into mass
+ */
+function gramsPerBaseUnit(
+  dimension: UnitDimension,
+  ingredient?: Omit<IngredientUnitData, 'unit'>
+): number | null {
+  if (dimension === 'mass') return 1
+  const grams =
+    dimension === 'volume' ? ingredient?.density : ingredient?.piece_weight
+  return grams && grams > 0 ? grams : null
+}
+
+/**
+ * Convert a quantity between units. Returns null when the units can't be
+ * converted, e.g. pieces to grams for an ingredient without a piece weight.
+ */
+export function convertQuantity(
+  quantity: number,
+  from: string,
+  to: string,
+  ingredient?: Omit<IngredientUnitData, 'unit'>
+): number | null {
+  const fromUnit = normalizeUnit(from)
+  const toUnit = normalizeUnit(to)
+  if (fromUnit === toUnit) return quantity
+
+  const source = UNITS[fromUnit]
+  const target = UNITS[toUnit]
+  if (!source || !target) return null
+
+  const base = quantity * source.factor
+  if (source.dimension === target.dimension) return base / target.factor
+
+  const fromGrams = gramsPerBaseUnit(source.dimension, ingredient)
+  const toGrams = gramsPerBaseUnit(target.dimension, ingredient)
+  if (fromGrams === null || toGrams === null) return null
+
+  return (base * fromGrams) / toGrams / target.factor
+}
+
+/**
+ * Quantity expressed in the ingredient's own unit (the one its nutrition is
+ * given per 100 of)
+ */
+export function toIngredientUnit(
+  quantity: number,
+  unit: string,
+  ingredient: IngredientUnitData
+): number | null {
+  return convertQuantity(quantity, unit, ingredient.unit, ingredient)
+}
+
+/**
+ * Units a quantity of this ingredient can be entered in
+ */
+export function compatibleUnits(ingredient: IngredientUnitData): string[] {
+  return Object.keys(UNITS).filter(
+    (unit) => convertQuantity(1, unit, ingredient.unit, ingredient) !== null
+  )
+}
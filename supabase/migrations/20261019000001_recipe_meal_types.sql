@@ -0,0 +1,30 @@
+-- Meal-type suitability for recipes
+-- A recipe lists the meal slots it can be served in. Values come from the
+-- canonical slot list enforced by the meals.meal_slot check constraint.
+
+alter table public.recipes
+  add column if not exists meal_types text[] not null
+    default array['breakfast', 'lunch', 'dinner', 'snack']::text[];
+
+do $$ begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'recipes_meal_types_check'
+  ) then
+    alter table public.recipes
+      add constraint recipes_meal_types_check check (
+        cardinality(meal_types) > 0
+        and meal_types <@ array['breakfast', 'lunch', 'dinner', 'snack']::text[]
+      );
+  end if;
+end $$;
+
+-- Tag the sample recipes
+update public.recipes set meal_types = array['lunch', 'dinner']
+  where name in (
+    'Grilled Chicken with Brown Rice and Broccoli',
+    'Honey Garlic Salmon with Quinoa',
+    'Sweet Potato and Black Bean Bowl'
+  );
+
+update public.recipes set meal_types = array['breakfast', 'snack']
+  where name = 'Greek Yogurt Breakfast Bowl';
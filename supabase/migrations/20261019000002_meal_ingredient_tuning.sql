@@ -0,0 +1,73 @@
+-- Ingredient-level fine tuning
+-- recipe_ingredients.flex_pct bounds how far the planner may move an
+-- ingredient's quantity away from the recipe default (in percent).
+-- meal_ingredients stores the tuned per-serving quantities for a meal; an
+-- ingredient without a row uses the recipe default.
+
+alter table public.recipe_ingredients
+  add column if not exists flex_pct integer not null default 20
+    check (flex_pct >= 0 and flex_pct <= 100);
+
+create table if not exists public.meal_ingredients (
+  meal_id uuid references public.meals(id) on delete cascade,
+  ingredient_id uuid references public.ingredients(id) on delete cascade,
+  quantity numeric(8,2) not null check (quantity >= 0),
+  unit text not null,
+  primary key (meal_id, ingredient_id)
+);
+
+alter table public.meal_ingredients enable row level security;
+
+-- RLS Policies for meal_ingredients (owned through meals -> meal_plans)
+do $$ begin
+  if not exists (select 1 from pg_policies where tablename = 'meal_ingredients' and policyname = 'Users can view own meal ingredients') then
+    create policy "Users can view own meal ingredients" on public.meal_ingredients
+      for select using (
+        exists (
+          select 1 from public.meals
+          join public.meal_plans on meal_plans.id = meals.meal_plan_id
+          where meals.id = meal_ingredients.meal_id
+          and meal_plans.user_id = auth.uid()
+        )
+      );
+  end if;
+  if not exists (select 1 from pg_policies where tablename = 'meal_ingredients' and policyname = 'Users can insert own meal ingredients') then
+    create policy "Users can insert own meal ingredients" on public.meal_ingredients
+      for insert with check (
+        exists (
+          select 1 from public.meals
+          join public.meal_plans on meal_plans.id = meals.meal_plan_id
+          where meals.id = meal_ingredients.meal_id
+          and meal_plans.user_id = auth.uid()
+        )
+      );
+  end if;
+  if not exists (select 1 from pg_policies where tablename = 'meal_ingredients' and policyname = 'Users can update own meal ingredients') then
+    create policy "Users can update own meal ingredients" on public.meal_ingredients
+      for update using (
+        exists (
+          select 1 from public.meals
+          join public.meal_plans on meal_plans.id = meals.meal_plan_id
+          where meals.id = meal_ingredients.meal_id
+          and meal_plans.user_id = auth.uid()
+        )
+      );
+  end if;
+  if not exists (select 1 from pg_policies where tablename = 'meal_ingredients' and policyname = 'Users can delete own meal ingredients') then
+    create policy "Users can delete own meal ingredients" on public.meal_ingredients
+      for delete using (
+        exists (
+          select 1 from public.meals
+          join public.meal_plans on meal_plans.id = meals.meal_plan_id
+          where meals.id = meal_ingredients.meal_id
+          and meal_plans.user_id = auth.uid()
+        )
+      );
+  end if;
+end $$;
+
+-- Oils and fats are calorie dense, keep them close to the recipe
+update public.recipe_ingredients set flex_pct = 10
+  where ingredient_id in (
+    select id from public.ingredients where name in ('Olive Oil', 'Coconut Oil')
+  );
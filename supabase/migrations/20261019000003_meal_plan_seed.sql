@@ -0,0 +1,6 @@
+-- Seed used to generate a meal plan
+-- Plan generation is deterministic for a given seed and inputs, so storing
+-- it lets any plan be regenerated exactly (e.g. to reproduce a bug report).
+
+alter table public.meal_plans
+  add column if not exists seed integer check (seed >= 0);
@@ -0,0 +1,61 @@
+-- Atomic meal plan replacement
+-- Deletes the user's plan for the week and inserts the new plan, its meals
+-- and their tuned ingredient quantities in a single transaction: either the
+-- whole plan is stored or nothing changes.
+-- Runs as the caller (security invoker) so the usual RLS policies apply.
+--
+-- p_plan:  {total_kcal, total_protein, total_carbs, total_fat, seed}
+-- p_meals: [{recipe_id, servings, day_of_week, meal_slot,
+--            ingredients: [{ingredient_id, quantity, unit}]}]
+
+create or replace function replace_meal_plan(
+  p_user_id uuid,
+  p_week_start date,
+  p_plan jsonb,
+  p_meals jsonb
+)
+returns uuid as $$
+declare
+  new_plan_id uuid;
+  new_meal_id uuid;
+  meal_item jsonb;
+begin
+  delete from public.meal_plans
+  where user_id = p_user_id and week_start = p_week_start;
+
+  insert into public.meal_plans (
+    user_id, week_start, total_kcal, total_protein, total_carbs, total_fat, seed
+  ) values (
+    p_user_id,
+    p_week_start,
+    (p_plan->>'total_kcal')::integer,
+    (p_plan->>'total_protein')::integer,
+    (p_plan->>'total_carbs')::integer,
+    (p_plan->>'total_fat')::integer,
+    (p_plan->>'seed')::integer
+  ) returning id into new_plan_id;
+
+  for meal_item in select * from jsonb_array_elements(coalesce(p_meals, '[]'::jsonb))
+  loop
+    insert into public.meals (
+      meal_plan_id, recipe_id, servings, day_of_week, meal_slot
+    ) values (
+      new_plan_id,
+      (meal_item->>'recipe_id')::uuid,
+      (meal_item->>'servings')::integer,
+      (meal_item->>'day_of_week')::integer,
+      meal_item->>'meal_slot'
+    ) returning id into new_meal_id;
+
+    insert into public.meal_ingredients (meal_id, ingredient_id, quantity, unit)
+    select
+      new_meal_id,
+      (item.value->>'ingredient_id')::uuid,
+      (item.value->>'quantity')::numeric,
+      item.value->>'unit'
+    from jsonb_array_elements(coalesce(meal_item->'ingredients', '[]'::jsonb)) as item;
+  end loop;
+
+  return new_plan_id;
+end;
+$$ language plpgsql security invoker;
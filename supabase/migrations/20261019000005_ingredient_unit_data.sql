@@ -0,0 +1,33 @@
+-- Unit conversion data for ingredients
+-- density (g per ml) lets volume quantities convert to mass and back;
+-- piece_weight (g per piece) does the same for count units such as pieces,
+-- slices and scoops. Both are optional: without them only conversions
+-- within the same dimension (g <-> kg, ml <-> cup, ...) are possible.
+
+alter table public.ingredients
+  add column if not exists density numeric(6,3) check (density > 0),
+  add column if not exists piece_weight numeric(7,2) check (piece_weight > 0);
+
+update public.ingredients set density = 0.92
+  where name in ('Olive Oil', 'Avocado Oil', 'Coconut Oil', 'Sesame Oil');
+
+update public.ingredients set density = 1.03
+  where name in ('Milk Whole', 'Milk Oat', 'Lemon Juice', 'Lime Juice');
+
+update public.ingredients set density = 1.01
+  where name in ('Milk Almond', 'Apple Cider Vinegar', 'White Wine Vinegar');
+
+update public.ingredients set density = 0.97 where name = 'Coconut Milk';
+update public.ingredients set density = 0.99 where name = 'Heavy Cream';
+update public.ingredients set density = 1.06 where name = 'Balsamic Vinegar';
+update public.ingredients set density = 1.32 where name = 'Maple Syrup';
+update public.ingredients set density = 1.37 where name = 'Agave Nectar';
+update public.ingredients set density = 0.88 where name = 'Vanilla Extract';
+
+update public.ingredients set piece_weight = 50 where name = 'Eggs';
+update public.ingredients set piece_weight = 9 where name = 'Quail Eggs';
+update public.ingredients set piece_weight = 30
+  where name in ('Bread Whole Wheat', 'Bread White');
+update public.ingredients set piece_weight = 45 where name = 'Tortilla Whole Wheat';
+update public.ingredients set piece_weight = 30
+  where name in ('Protein Powder Whey', 'Protein Powder Plant');
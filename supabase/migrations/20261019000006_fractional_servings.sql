@@ -0,0 +1,70 @@
+-- Fractional servings
+-- Meals are planned in quarter servings (e.g. 1.5 servings of a shake), so
+-- meals.servings becomes numeric and must be a positive multiple of 0.25.
+
+alter table public.meals
+  alter column servings type numeric(5,2);
+
+do $$ begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'meals_servings_quarter_steps'
+  ) then
+    alter table public.meals
+      add constraint meals_servings_quarter_steps
+      check (servings > 0 and servings * 4 = floor(servings * 4));
+  end if;
+end $$;
+
+-- replace_meal_plan used to cast servings to integer
+
+create or replace function replace_meal_plan(
+  p_user_id uuid,
+  p_week_start date,
+  p_plan jsonb,
+  p_meals jsonb
+)
+returns uuid as $$
+declare
+  new_plan_id uuid;
+  new_meal_id uuid;
+  meal_item jsonb;
+begin
+  delete from public.meal_plans
+  where user_id = p_user_id and week_start = p_week_start;
+
+  insert into public.meal_plans (
+    user_id, week_start, total_kcal, total_protein, total_carbs, total_fat, seed
+  ) values (
+    p_user_id,
+    p_week_start,
+    (p_plan->>'total_kcal')::integer,
+    (p_plan->>'total_protein')::integer,
+    (p_plan->>'total_carbs')::integer,
+    (p_plan->>'total_fat')::integer,
+    (p_plan->>'seed')::integer
+  ) returning id into new_plan_id;
+
+  for meal_item in select * from jsonb_array_elements(coalesce(p_meals, '[]'::jsonb))
+  loop
+    insert into public.meals (
+      meal_plan_id, recipe_id, servings, day_of_week, meal_slot
+    ) values (
+      new_plan_id,
+      (meal_item->>'recipe_id')::uuid,
+      (meal_item->>'servings')::numeric,
+      (meal_item->>'day_of_week')::integer,
+      meal_item->>'meal_slot'
+    ) returning id into new_meal_id;
+
+    insert into public.meal_ingredients (meal_id, ingredient_id, quantity, unit)
+    select
+      new_meal_id,
+      (item.value->>'ingredient_id')::uuid,
+      (item.value->>'quantity')::numeric,
+      item.value->>'unit'
+    from jsonb_array_elements(coalesce(meal_item->'ingredients', '[]'::jsonb)) as item;
+  end loop;
+
+  return new_plan_id;
+end;
+$$ language plpgsql security invoker;
@@ -0,0 +1,43 @@
+-- Fiber and micronutrient tracking
+-- ingredients.nutrients holds any number of extra nutrients per 100 of the
+-- ingredient's unit, keyed with their unit ({"fiber_g": 2.6, "sodium_mg": 33}).
+-- users.nutrient_targets holds optional daily limits for some of those keys
+-- ({"fiber_g": {"min": 30}, "sodium_mg": {"max": 2300}}); the planner treats
+-- them as soft bounds next to the macro targets.
+
+alter table public.ingredients
+  add column if not exists nutrients jsonb not null default '{}'::jsonb;
+
+alter table public.users
+  add column if not exists nutrient_targets jsonb not null default '{}'::jsonb;
+
+update public.ingredients set nutrients = '{"sodium_mg": 74, "potassium_mg": 256, "iron_mg": 1.0, "saturated_fat_g": 1.0}'
+  where name = 'Chicken Breast';
+update public.ingredients set nutrients = '{"fiber_g": 3.5, "sodium_mg": 7, "potassium_mg": 223, "iron_mg": 1.5}'
+  where name = 'Brown Rice';
+update public.ingredients set nutrients = '{"fiber_g": 2.6, "sugar_g": 1.7, "sodium_mg": 33, "potassium_mg": 316, "calcium_mg": 47, "iron_mg": 0.7, "vitamin_c_mg": 89}'
+  where name = 'Broccoli';
+update public.ingredients set nutrients = '{"saturated_fat_g": 13.8}'
+  where name = 'Olive Oil';
+update public.ingredients set nutrients = '{"fiber_g": 3.0, "sugar_g": 4.2, "sodium_mg": 55, "potassium_mg": 337, "calcium_mg": 30, "vitamin_c_mg": 2.4}'
+  where name = 'Sweet Potato';
+update public.ingredients set nutrients = '{"saturated_fat_g": 3.1, "sodium_mg": 59, "potassium_mg": 363}'
+  where name = 'Salmon';
+update public.ingredients set nutrients = '{"fiber_g": 7.0, "sodium_mg": 5, "potassium_mg": 563, "calcium_mg": 47, "iron_mg": 4.6}'
+  where name = 'Quinoa';
+update public.ingredients set nutrients = '{"fiber_g": 2.2, "sodium_mg": 79, "potassium_mg": 558, "calcium_mg": 99, "iron_mg": 2.7, "vitamin_c_mg": 28}'
+  where name = 'Spinach';
+update public.ingredients set nutrients = '{"sugar_g": 3.2, "sodium_mg": 36, "potassium_mg": 141, "calcium_mg": 110}'
+  where name = 'Greek Yogurt';
+update public.ingredients set nutrients = '{"fiber_g": 12.5, "sugar_g": 4.4, "saturated_fat_g": 3.8, "potassium_mg": 733, "calcium_mg": 269, "iron_mg": 3.7}'
+  where name = 'Almonds';
+update public.ingredients set nutrients = '{"fiber_g": 10.6, "sodium_mg": 2, "potassium_mg": 429, "calcium_mg": 54, "iron_mg": 4.7}'
+  where name = 'Oats';
+update public.ingredients set nutrients = '{"fiber_g": 2.6, "sugar_g": 12.2, "potassium_mg": 358, "vitamin_c_mg": 8.7}'
+  where name = 'Banana';
+update public.ingredients set nutrients = '{"saturated_fat_g": 3.1, "sodium_mg": 124, "potassium_mg": 126, "calcium_mg": 50, "iron_mg": 1.2}'
+  where name = 'Eggs';
+update public.ingredients set nutrients = '{"fiber_g": 6.7, "saturated_fat_g": 2.1, "sodium_mg": 7, "potassium_mg": 485, "vitamin_c_mg": 10}'
+  where name = 'Avocado';
+update public.ingredients set nutrients = '{"fiber_g": 15.5, "sodium_mg": 5, "potassium_mg": 1483, "calcium_mg": 123, "iron_mg": 5.0}'
+  where name = 'Black Beans';
@@ -0,0 +1,21 @@
+-- Training-day / rest-day calorie cycling
+-- day_profiles holds named day types, each with its own calorie target and
+-- macro split:
+--   {"training": {"kcal_target": 2600, "protein_pct": 30, "carb_pct": 45, "fat_pct": 25},
+--    "rest":     {"kcal_target": 2100, "protein_pct": 35, "carb_pct": 30, "fat_pct": 35}}
+-- day_schedule assigns a day type to each day of the week (index 1 = Monday);
+-- null, or a name missing from day_profiles, falls back to the base targets.
+
+alter table public.users
+  add column if not exists day_profiles jsonb not null default '{}'::jsonb,
+  add column if not exists day_schedule text[] not null default '{}';
+
+do $$ begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'users_day_schedule_length'
+  ) then
+    alter table public.users
+      add constraint users_day_schedule_length
+      check (coalesce(array_length(day_schedule, 1), 0) <= 7);
+  end if;
+end $$;
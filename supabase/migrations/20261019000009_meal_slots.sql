@@ -0,0 +1,32 @@
+-- Configurable meal slots
+-- users.meal_slots lists the user's meals in order:
+--   [{"name": "lunch", "time": "12:30", "calorie_pct": 40},
+--    {"name": "pre-workout", "time": "17:00", "recipe_types": ["snack"]},
+--    {"name": "dinner", "time": "20:00"}]
+-- time and calorie_pct (share of daily calories) are optional; recipe_types
+-- lists the recipe meal types the slot accepts and defaults to its name.
+-- An empty list means the default breakfast, lunch, dinner and snack.
+--
+-- meals.meal_slot and recipes.meal_types were limited to those four names;
+-- any non-empty name is allowed now.
+
+alter table public.users
+  add column if not exists meal_slots jsonb not null default '[]'::jsonb;
+
+do $$ begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'users_meal_slots_is_array'
+  ) then
+    alter table public.users
+      add constraint users_meal_slots_is_array
+      check (jsonb_typeof(meal_slots) = 'array');
+  end if;
+end $$;
+
+alter table public.meals drop constraint if exists meals_meal_slot_check;
+alter table public.meals
+  add constraint meals_meal_slot_check check (length(trim(meal_slot)) > 0);
+
+alter table public.recipes drop constraint if exists recipes_meal_types_check;
+alter table public.recipes
+  add constraint recipes_meal_types_check check (cardinality(meal_types) > 0);
@@ -0,0 +1,40 @@
+-- Ingredient prices and weekly budget
+-- A price is what `quantity` `unit` of an ingredient costs, optionally at a
+-- specific store. Rows without a user_id are shared reference prices; a
+-- user's own prices take precedence over them. The planner uses the
+-- cheapest known price per ingredient.
+--
+-- users.weekly_budget caps what the planner may spend on ingredients missing
+-- from the pantry; without one it only plans with what is already there.
+
+create table if not exists public.ingredient_prices (
+  id uuid default gen_random_uuid() primary key,
+  ingredient_id uuid not null references public.ingredients(id) on delete cascade,
+  user_id uuid references public.users(id) on delete cascade,
+  store text,
+  price numeric(10,2) not null check (price >= 0),
+  quantity numeric(10,3) not null check (quantity > 0),
+  unit text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_ingredient_prices_ingredient
+  on public.ingredient_prices(ingredient_id);
+create index if not exists idx_ingredient_prices_user
+  on public.ingredient_prices(user_id);
+
+alter table public.ingredient_prices enable row level security;
+
+do $$ begin
+  if not exists (select 1 from pg_policies where tablename = 'ingredient_prices' and policyname = 'Users can view shared and own prices') then
+    create policy "Users can view shared and own prices" on public.ingredient_prices
+      for select using (user_id is null or auth.uid() = user_id);
+  end if;
+  if not exists (select 1 from pg_policies where tablename = 'ingredient_prices' and policyname = 'Users can manage own prices') then
+    create policy "Users can manage own prices" on public.ingredient_prices
+      for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+  end if;
+end $$;
+
+alter table public.users
+  add column if not exists weekly_budget numeric(8,2) check (weekly_budget >= 0);
@@ -0,0 +1,11 @@
+-- Pantry expiry dates
+-- expires_on is the last day a pantry item can still be used. The planner
+-- schedules ingredients that expire during the planned week on earlier days,
+-- and leaves out stock that has already gone off.
+
+alter table public.pantry_items
+  add column if not exists expires_on date;
+
+create index if not exists idx_pantry_items_expires_on
+  on public.pantry_items(user_id, expires_on)
+  where expires_on is not null;
@@ -0,0 +1,89 @@
+-- Prep sessions and fridge life
+-- recipes.fridge_days is how many days the cooked dish keeps in the fridge;
+-- freezer_friendly recipes can be frozen on prep day and eaten later.
+-- meal_plans.prep_days holds the weekdays the plan is batch-cooked on
+-- (0 = Monday); the planner only schedules a meal within its recipe's fridge
+-- life after the latest prep day before it. Empty means cooking every day.
+
+alter table public.recipes
+  add column if not exists fridge_days smallint not null default 4,
+  add column if not exists freezer_friendly boolean not null default false;
+
+do $$ begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'recipes_fridge_days_check'
+  ) then
+    alter table public.recipes
+      add constraint recipes_fridge_days_check check (fridge_days >= 0);
+  end if;
+end $$;
+
+alter table public.meal_plans
+  add column if not exists prep_days smallint[] not null default '{}';
+
+do $$ begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'meal_plans_prep_days_check'
+  ) then
+    alter table public.meal_plans
+      add constraint meal_plans_prep_days_check
+      check (prep_days <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]);
+  end if;
+end $$;
+
+-- replace_meal_plan also stores the plan's prep days
+-- p_plan: {total_kcal, total_protein, total_carbs, total_fat, seed, prep_days}
+
+create or replace function replace_meal_plan(
+  p_user_id uuid,
+  p_week_start date,
+  p_plan jsonb,
+  p_meals jsonb
+)
+returns uuid as $$
+declare
+  new_plan_id uuid;
+  new_meal_id uuid;
+  meal_item jsonb;
+begin
+  delete from public.meal_plans
+  where user_id = p_user_id and week_start = p_week_start;
+
+  insert into public.meal_plans (
+    user_id, week_start, total_kcal, total_protein, total_carbs, total_fat, seed,
+    prep_days
+  ) values (
+    p_user_id,
+    p_week_start,
+    (p_plan->>'total_kcal')::integer,
+    (p_plan->>'total_protein')::integer,
+    (p_plan->>'total_carbs')::integer,
+    (p_plan->>'total_fat')::integer,
+    (p_plan->>'seed')::integer,
+    array(select jsonb_array_elements_text(p_plan->'prep_days')::smallint)
+  ) returning id into new_plan_id;
+
+  for meal_item in select * from jsonb_array_elements(coalesce(p_meals, '[]'::jsonb))
+  loop
+    insert into public.meals (
+      meal_plan_id, recipe_id, servings, day_of_week, meal_slot
+    ) values (
+      new_plan_id,
+      (meal_item->>'recipe_id')::uuid,
+      (meal_item->>'servings')::numeric,
+      (meal_item->>'day_of_week')::integer,
+      meal_item->>'meal_slot'
+    ) returning id into new_meal_id;
+
+    insert into public.meal_ingredients (meal_id, ingredient_id, quantity, unit)
+    select
+      new_meal_id,
+      (item.value->>'ingredient_id')::uuid,
+      (item.value->>'quantity')::numeric,
+      item.value->>'unit'
+    from jsonb_array_elements(coalesce(meal_item->'ingredients', '[]'::jsonb)) as item;
+  end loop;
+
+  return new_plan_id;
+end;
+$$ language plpgsql security invoker;
@@ -0,0 +1,20 @@
+-- Weeknight cooking time budget
+-- cook_time_limits caps the minutes of cooking the planner may schedule on
+-- each day of the week (index 1 = Monday), e.g. {20,20,20,20,null,null,null}
+-- for 20 minutes Monday to Thursday and no limit otherwise. Null, or a
+-- missing day, means no limit. A recipe's cooking time is the sum of its
+-- steps' time_s; with prep days it counts on the prep day, not the day the
+-- meal is eaten.
+
+alter table public.users
+  add column if not exists cook_time_limits integer[] not null default '{}';
+
+do $$ begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'users_cook_time_limits_length'
+  ) then
+    alter table public.users
+      add constraint users_cook_time_limits_length
+      check (coalesce(array_length(cook_time_limits, 1), 0) <= 7);
+  end if;
+end $$;
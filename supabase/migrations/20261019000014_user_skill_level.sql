@@ -0,0 +1,27 @@
+-- Skill-level-aware planning
+-- users.skill_level is the cook's own level, on the same scale as
+-- recipes.skill_level; null plans any recipe. stretch_meals is how many meals
+-- a week may be one level above it.
+
+alter table public.users
+  add column if not exists skill_level text,
+  add column if not exists stretch_meals smallint not null default 0;
+
+do $$ begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'users_skill_level_check'
+  ) then
+    alter table public.users
+      add constraint users_skill_level_check
+      check (skill_level in ('beginner', 'intermediate', 'advanced'));
+  end if;
+end $$;
+
+do $$ begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'users_stretch_meals_check'
+  ) then
+    alter table public.users
+      add constraint users_stretch_meals_check check (stretch_meals >= 0);
+  end if;
+end $$;
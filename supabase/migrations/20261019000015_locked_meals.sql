@@ -0,0 +1,65 @@
+-- Locked meals
+-- meals.locked pins a meal in place: regenerating the week keeps it as it is
+-- (recipe, servings, slot and ingredient overrides), counts its macros and
+-- pantry use, and only re-plans the other slots.
+
+alter table public.meals
+  add column if not exists locked boolean not null default false;
+
+-- replace_meal_plan also stores whether each meal is locked
+-- p_meals: [{recipe_id, servings, day_of_week, meal_slot, locked, ingredients}]
+
+create or replace function replace_meal_plan(
+  p_user_id uuid,
+  p_week_start date,
+  p_plan jsonb,
+  p_meals jsonb
+)
+returns uuid as $$
+declare
+  new_plan_id uuid;
+  new_meal_id uuid;
+  meal_item jsonb;
+begin
+  delete from public.meal_plans
+  where user_id = p_user_id and week_start = p_week_start;
+
+  insert into public.meal_plans (
+    user_id, week_start, total_kcal, total_protein, total_carbs, total_fat, seed,
+    prep_days
+  ) values (
+    p_user_id,
+    p_week_start,
+    (p_plan->>'total_kcal')::integer,
+    (p_plan->>'total_protein')::integer,
+    (p_plan->>'total_carbs')::integer,
+    (p_plan->>'total_fat')::integer,
+    (p_plan->>'seed')::integer,
+    array(select jsonb_array_elements_text(p_plan->'prep_days')::smallint)
+  ) returning id into new_plan_id;
+
+  for meal_item in select * from jsonb_array_elements(coalesce(p_meals, '[]'::jsonb))
+  loop
+    insert into public.meals (
+      meal_plan_id, recipe_id, servings, day_of_week, meal_slot, locked
+    ) values (
+      new_plan_id,
+      (meal_item->>'recipe_id')::uuid,
+      (meal_item->>'servings')::numeric,
+      (meal_item->>'day_of_week')::integer,
+      meal_item->>'meal_slot',
+      coalesce((meal_item->>'locked')::boolean, false)
+    ) returning id into new_meal_id;
+
+    insert into public.meal_ingredients (meal_id, ingredient_id, quantity, unit)
+    select
+      new_meal_id,
+      (item.value->>'ingredient_id')::uuid,
+      (item.value->>'quantity')::numeric,
+      item.value->>'unit'
+    from jsonb_array_elements(coalesce(meal_item->'ingredients', '[]'::jsonb)) as item;
+  end loop;
+
+  return new_plan_id;
+end;
+$$ language plpgsql security invoker;
@@ -0,0 +1,55 @@
+-- Re-planning a single day or slot
+-- replace_plan_meals swaps the unlocked meals of one day (or of one slot on
+-- that day) for new ones and updates the plan's weekly totals, all in one
+-- transaction, so a failure keeps the previous meals.
+-- p_slot: null for the whole day
+-- p_plan: {total_kcal, total_protein, total_carbs, total_fat}
+-- p_meals: [{recipe_id, servings, day_of_week, meal_slot, ingredients}]
+
+create or replace function replace_plan_meals(
+  p_meal_plan_id uuid,
+  p_day integer,
+  p_slot text,
+  p_plan jsonb,
+  p_meals jsonb
+)
+returns void as $$
+declare
+  new_meal_id uuid;
+  meal_item jsonb;
+begin
+  delete from public.meals
+  where meal_plan_id = p_meal_plan_id
+    and day_of_week = p_day
+    and (p_slot is null or meal_slot = p_slot)
+    and not locked;
+
+  update public.meal_plans set
+    total_kcal = (p_plan->>'total_kcal')::integer,
+    total_protein = (p_plan->>'total_protein')::integer,
+    total_carbs = (p_plan->>'total_carbs')::integer,
+    total_fat = (p_plan->>'total_fat')::integer
+  where id = p_meal_plan_id;
+
+  for meal_item in select * from jsonb_array_elements(coalesce(p_meals, '[]'::jsonb))
+  loop
+    insert into public.meals (
+      meal_plan_id, recipe_id, servings, day_of_week, meal_slot
+    ) values (
+      p_meal_plan_id,
+      (meal_item->>'recipe_id')::uuid,
+      (meal_item->>'servings')::numeric,
+      (meal_item->>'day_of_week')::integer,
+      meal_item->>'meal_slot'
+    ) returning id into new_meal_id;
+
+    insert into public.meal_ingredients (meal_id, ingredient_id, quantity, unit)
+    select
+      new_meal_id,
+      (item.value->>'ingredient_id')::uuid,
+      (item.value->>'quantity')::numeric,
+      item.value->>'unit'
+    from jsonb_array_elements(coalesce(meal_item->'ingredients', '[]'::jsonb)) as item;
+  end loop;
+end;
+$$ language plpgsql security invoker;
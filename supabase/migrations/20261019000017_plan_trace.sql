@@ -0,0 +1,119 @@
+-- Plan explanations
+-- meal_plans.trace holds why the planner built the plan the way it did: the
+-- candidates it considered, why each meal was picked, why other recipes
+-- were left out and what fine tuning changed (see PlanTrace in
+-- src/lib/macroTetris.ts). Null for plans made before it, and cleared once a
+-- day or slot is re-planned, since it no longer describes the plan.
+
+alter table public.meal_plans
+  add column if not exists trace jsonb;
+
+-- replace_meal_plan also stores the plan's trace
+-- p_plan: {total_kcal, total_protein, total_carbs, total_fat, seed, prep_days, trace}
+
+create or replace function replace_meal_plan(
+  p_user_id uuid,
+  p_week_start date,
+  p_plan jsonb,
+  p_meals jsonb
+)
+returns uuid as $$
+declare
+  new_plan_id uuid;
+  new_meal_id uuid;
+  meal_item jsonb;
+begin
+  delete from public.meal_plans
+  where user_id = p_user_id and week_start = p_week_start;
+
+  insert into public.meal_plans (
+    user_id, week_start, total_kcal, total_protein, total_carbs, total_fat, seed,
+    prep_days, trace
+  ) values (
+    p_user_id,
+    p_week_start,
+    (p_plan->>'total_kcal')::integer,
+    (p_plan->>'total_protein')::integer,
+    (p_plan->>'total_carbs')::integer,
+    (p_plan->>'total_fat')::integer,
+    (p_plan->>'seed')::integer,
+    array(select jsonb_array_elements_text(p_plan->'prep_days')::smallint),
+    p_plan->'trace'
+  ) returning id into new_plan_id;
+
+  for meal_item in select * from jsonb_array_elements(coalesce(p_meals, '[]'::jsonb))
+  loop
+    insert into public.meals (
+      meal_plan_id, recipe_id, servings, day_of_week, meal_slot, locked
+    ) values (
+      new_plan_id,
+      (meal_item->>'recipe_id')::uuid,
+      (meal_item->>'servings')::numeric,
+      (meal_item->>'day_of_week')::integer,
+      meal_item->>'meal_slot',
+      coalesce((meal_item->>'locked')::boolean, false)
+    ) returning id into new_meal_id;
+
+    insert into public.meal_ingredients (meal_id, ingredient_id, quantity, unit)
+    select
+      new_meal_id,
+      (item.value->>'ingredient_id')::uuid,
+      (item.value->>'quantity')::numeric,
+      item.value->>'unit'
+    from jsonb_array_elements(coalesce(meal_item->'ingredients', '[]'::jsonb)) as item;
+  end loop;
+
+  return new_plan_id;
+end;
+$$ language plpgsql security invoker;
+
+-- replace_plan_meals clears it
+
+create or replace function replace_plan_meals(
+  p_meal_plan_id uuid,
+  p_day integer,
+  p_slot text,
+  p_plan jsonb,
+  p_meals jsonb
+)
+returns void as $$
+declare
+  new_meal_id uuid;
+  meal_item jsonb;
+begin
+  delete from public.meals
+  where meal_plan_id = p_meal_plan_id
+    and day_of_week = p_day
+    and (p_slot is null or meal_slot = p_slot)
+    and not locked;
+
+  update public.meal_plans set
+    total_kcal = (p_plan->>'total_kcal')::integer,
+    total_protein = (p_plan->>'total_protein')::integer,
+    total_carbs = (p_plan->>'total_carbs')::integer,
+    total_fat = (p_plan->>'total_fat')::integer,
+    trace = null
+  where id = p_meal_plan_id;
+
+  for meal_item in select * from jsonb_array_elements(coalesce(p_meals, '[]'::jsonb))
+  loop
+    insert into public.meals (
+      meal_plan_id, recipe_id, servings, day_of_week, meal_slot
+    ) values (
+      p_meal_plan_id,
+      (meal_item->>'recipe_id')::uuid,
+      (meal_item->>'servings')::numeric,
+      (meal_item->>'day_of_week')::integer,
+      meal_item->>'meal_slot'
+    ) returning id into new_meal_id;
+
+    insert into public.meal_ingredients (meal_id, ingredient_id, quantity, unit)
+    select
+      new_meal_id,
+      (item.value->>'ingredient_id')::uuid,
+      (item.value->>'quantity')::numeric,
+      item.value->>'unit'
+    from jsonb_array_elements(coalesce(meal_item->'ingredients', '[]'::jsonb)) as item;
+  end loop;
+end;
+$$ language plpgsql security invoker;
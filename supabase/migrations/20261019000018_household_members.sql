@@ -0,0 +1,194 @@
+-- Household members
+-- household_members are the people a user plans for besides themselves, each
+-- with their own calorie target and split. shared_slots lists the meal slots
+-- they eat with the household (e.g. dinner); their other meals aren't
+-- planned.
+--
+-- A shared meal is one recipe cooked once: meals.servings stays the user's
+-- own portion and meal_portions holds each member's, sized so the member
+-- gets their share of the day's targets. Shopping and cooking use the meal's
+-- servings plus its portions.
+
+create table if not exists public.household_members (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid not null references public.users(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  kcal_target integer not null default 2000 check (kcal_target > 0),
+  protein_pct integer not null default 30 check (protein_pct >= 0),
+  carb_pct integer not null default 40 check (carb_pct >= 0),
+  fat_pct integer not null default 30 check (fat_pct >= 0),
+  shared_slots text[] not null default '{dinner}',
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_household_members_user
+  on public.household_members(user_id);
+
+alter table public.household_members enable row level security;
+
+do $$ begin
+  if not exists (select 1 from pg_policies where tablename = 'household_members' and policyname = 'Users can manage own household') then
+    create policy "Users can manage own household" on public.household_members
+      for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+  end if;
+end $$;
+
+create table if not exists public.meal_portions (
+  meal_id uuid references public.meals(id) on delete cascade,
+  member_id uuid references public.household_members(id) on delete cascade,
+  servings numeric(5,2) not null
+    check (servings > 0 and servings * 4 = floor(servings * 4)),
+  primary key (meal_id, member_id)
+);
+
+alter table public.meal_portions enable row level security;
+
+-- RLS Policies for meal_portions (owned through meals -> meal_plans, for
+-- members of the same household)
+do $$ begin
+  if not exists (select 1 from pg_policies where tablename = 'meal_portions' and policyname = 'Users can manage own meal portions') then
+    create policy "Users can manage own meal portions" on public.meal_portions
+      for all using (
+        exists (
+          select 1 from public.meals
+          join public.meal_plans on meal_plans.id = meals.meal_plan_id
+          where meals.id = meal_portions.meal_id
+          and meal_plans.user_id = auth.uid()
+        )
+      ) with check (
+        exists (
+          select 1 from public.meals
+          join public.meal_plans on meal_plans.id = meals.meal_plan_id
+          join public.household_members on household_members.id = meal_portions.member_id
+          where meals.id = meal_portions.meal_id
+          and meal_plans.user_id = auth.uid()
+          and household_members.user_id = auth.uid()
+        )
+      );
+  end if;
+end $$;
+
+-- replace_meal_plan also stores each meal's household portions
+-- p_meals: [{recipe_id, servings, day_of_week, meal_slot, locked, ingredients,
+--            portions: [{member_id, servings}]}]
+
+create or replace function replace_meal_plan(
+  p_user_id uuid,
+  p_week_start date,
+  p_plan jsonb,
+  p_meals jsonb
+)
+returns uuid as $$
+declare
+  new_plan_id uuid;
+  new_meal_id uuid;
+  meal_item jsonb;
+begin
+  delete from public.meal_plans
+  where user_id = p_user_id and week_start = p_week_start;
+
+  insert into public.meal_plans (
+    user_id, week_start, total_kcal, total_protein, total_carbs, total_fat, seed,
+    prep_days, trace
+  ) values (
+    p_user_id,
+    p_week_start,
+    (p_plan->>'total_kcal')::integer,
+    (p_plan->>'total_protein')::integer,
+    (p_plan->>'total_carbs')::integer,
+    (p_plan->>'total_fat')::integer,
+    (p_plan->>'seed')::integer,
+    array(select jsonb_array_elements_text(p_plan->'prep_days')::smallint),
+    p_plan->'trace'
+  ) returning id into new_plan_id;
+
+  for meal_item in select * from jsonb_array_elements(coalesce(p_meals, '[]'::jsonb))
+  loop
+    insert into public.meals (
+      meal_plan_id, recipe_id, servings, day_of_week, meal_slot, locked
+    ) values (
+      new_plan_id,
+      (meal_item->>'recipe_id')::uuid,
+      (meal_item->>'servings')::numeric,
+      (meal_item->>'day_of_week')::integer,
+      meal_item->>'meal_slot',
+      coalesce((meal_item->>'locked')::boolean, false)
+    ) returning id into new_meal_id;
+
+    insert into public.meal_ingredients (meal_id, ingredient_id, quantity, unit)
+    select
+      new_meal_id,
+      (item.value->>'ingredient_id')::uuid,
+      (item.value->>'quantity')::numeric,
+      item.value->>'unit'
+    from jsonb_array_elements(coalesce(meal_item->'ingredients', '[]'::jsonb)) as item;
+
+    insert into public.meal_portions (meal_id, member_id, servings)
+    select
+      new_meal_id,
+      (portion.value->>'member_id')::uuid,
+      (portion.value->>'servings')::numeric
+    from jsonb_array_elements(coalesce(meal_item->'portions', '[]'::jsonb)) as portion;
+  end loop;
+
+  return new_plan_id;
+end;
+$$ language plpgsql security invoker;
+
+-- replace_plan_meals too
+
+create or replace function replace_plan_meals(
+  p_meal_plan_id uuid,
+  p_day integer,
+  p_slot text,
+  p_plan jsonb,
+  p_meals jsonb
+)
+returns void as $$
+declare
+  new_meal_id uuid;
+  meal_item jsonb;
+begin
+  delete from public.meals
+  where meal_plan_id = p_meal_plan_id
+    and day_of_week = p_day
+    and (p_slot is null or meal_slot = p_slot)
+    and not locked;
+
+  update public.meal_plans set
+    total_kcal = (p_plan->>'total_kcal')::integer,
+    total_protein = (p_plan->>'total_protein')::integer,
+    total_carbs = (p_plan->>'total_carbs')::integer,
+    total_fat = (p_plan->>'total_fat')::integer,
+    trace = null
+  where id = p_meal_plan_id;
+
+  for meal_item in select * from jsonb_array_elements(coalesce(p_meals, '[]'::jsonb))
+  loop
+    insert into public.meals (
+      meal_plan_id, recipe_id, servings, day_of_week, meal_slot
+    ) values (
+      p_meal_plan_id,
+      (meal_item->>'recipe_id')::uuid,
+      (meal_item->>'servings')::numeric,
+      (meal_item->>'day_of_week')::integer,
+      meal_item->>'meal_slot'
+    ) returning id into new_meal_id;
+
+    insert into public.meal_ingredients (meal_id, ingredient_id, quantity, unit)
+    select
+      new_meal_id,
+      (item.value->>'ingredient_id')::uuid,
+      (item.value->>'quantity')::numeric,
+      item.value->>'unit'
+    from jsonb_array_elements(coalesce(meal_item->'ingredients', '[]'::jsonb)) as item;
+
+    insert into public.meal_portions (meal_id, member_id, servings)
+    select
+      new_meal_id,
+      (portion.value->>'member_id')::uuid,
+      (portion.value->>'servings')::numeric
+    from jsonb_array_elements(coalesce(meal_item->'portions', '[]'::jsonb)) as portion;
+  end loop;
+end;
+$$ language plpgsql security invoker;
@@ -0,0 +1,101 @@
+-- Allergen and diet exclusions
+-- ingredients.allergens lists the allergens an ingredient contains
+-- (peanuts, tree-nuts, dairy, egg, gluten, soy, fish, shellfish, sesame)
+-- and ingredients.diets the diets it fits (vegetarian, vegan, pescatarian,
+-- halal). An ingredient without diet tags fits no diet, so one added later
+-- is never planned for a diet by mistake.
+--
+-- Users list their allergies (preference_type 'allergy') and diets
+-- ('dietary_restriction') in user_preferences. The planner leaves out every
+-- recipe with an ingredient that contains one of the allergies or doesn't
+-- fit one of the diets, before any planning. Only the user's own entries
+-- count, never inferred ones.
+
+alter table public.ingredients
+  add column if not exists allergens text[] not null default '{}',
+  add column if not exists diets text[] not null default '{}';
+
+alter table public.user_preferences
+  drop constraint if exists user_preferences_preference_type_check;
+alter table public.user_preferences
+  add constraint user_preferences_preference_type_check check (preference_type in (
+    'ingredient_like', 'ingredient_dislike', 'cuisine_preference', 'cooking_method',
+    'dietary_restriction', 'meal_timing', 'spice_level', 'texture_preference',
+    'allergy'
+  ));
+
+-- Tag the seeded ingredients
+
+update public.ingredients set allergens = '{tree-nuts}'
+  where name in (
+    'Almonds', 'Walnuts', 'Cashews', 'Pecans', 'Pistachios', 'Brazil Nuts',
+    'Macadamia Nuts', 'Pine Nuts', 'Milk Almond'
+  );
+
+update public.ingredients set allergens = '{dairy}'
+  where name in (
+    'Greek Yogurt', 'Cottage Cheese', 'Feta Cheese', 'Mozzarella Cheese',
+    'Yogurt Plain', 'Butter', 'Milk Whole', 'Heavy Cream', 'Sour Cream',
+    'Cream Cheese', 'Ricotta Cheese', 'Parmesan Cheese', 'Cheddar Cheese',
+    'Protein Powder Whey'
+  );
+
+update public.ingredients set allergens = '{egg}'
+  where name in ('Eggs', 'Quail Eggs');
+
+-- Oats are usually processed alongside wheat
+update public.ingredients set allergens = '{gluten}'
+  where name in (
+    'Oats', 'Udon Noodles', 'Wheat Berries', 'Pasta Whole Wheat', 'Pasta White',
+    'Bread Whole Wheat', 'Bread White', 'Tortilla Whole Wheat', 'Couscous',
+    'Barley', 'Seitan'
+  );
+
+update public.ingredients set allergens = '{soy}'
+  where name in ('Edamame', 'Tofu Firm', 'Tempeh');
+
+update public.ingredients set allergens = '{sesame}'
+  where name in ('Sesame Oil', 'Sesame Seeds');
+
+update public.ingredients set allergens = '{fish}'
+  where name in (
+    'Salmon', 'Halibut', 'Mackerel', 'Sardines', 'Tuna', 'White Fish', 'Cod',
+    'Tilapia', 'Mahi Mahi'
+  );
+
+update public.ingredients set allergens = '{shellfish}'
+  where name in (
+    'Lobster', 'Oysters', 'Scallops', 'Shrimp', 'Crab', 'Mussels', 'Clams'
+  );
+
+-- Every seeded ingredient fits every diet, except the ones below
+update public.ingredients set diets = '{vegetarian,vegan,pescatarian,halal}';
+
+-- Dairy, eggs and honey aren't vegan
+update public.ingredients set diets = '{vegetarian,pescatarian,halal}'
+  where name in (
+    'Greek Yogurt', 'Cottage Cheese', 'Feta Cheese', 'Mozzarella Cheese',
+    'Yogurt Plain', 'Butter', 'Milk Whole', 'Heavy Cream', 'Sour Cream',
+    'Cream Cheese', 'Ricotta Cheese', 'Parmesan Cheese', 'Cheddar Cheese',
+    'Protein Powder Whey', 'Eggs', 'Quail Eggs', 'Honey'
+  );
+
+update public.ingredients set diets = '{pescatarian,halal}'
+  where name in (
+    'Salmon', 'Halibut', 'Mackerel', 'Sardines', 'Tuna', 'White Fish', 'Cod',
+    'Tilapia', 'Mahi Mahi', 'Lobster', 'Oysters', 'Scallops', 'Shrimp', 'Crab',
+    'Mussels', 'Clams'
+  );
+
+update public.ingredients set diets = '{halal}'
+  where name in (
+    'Chicken Breast', 'Beef Ground 85/15', 'Duck Breast', 'Ground Turkey',
+    'Lamb Leg', 'Turkey Breast', 'Venison'
+  );
+
+update public.ingredients set diets = '{}'
+  where name = 'Pork Tenderloin';
+
+-- Vanilla extract is made with alcohol
+update public.ingredients set diets = '{vegetarian,vegan,pescatarian}'
+  where name = 'Vanilla Extract';
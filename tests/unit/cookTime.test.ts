@@ -0,0 +1,46 @@
+/**
+ * Cooking Time Tests
+ * Cooking counted per session, with the Sunday before the week on its own
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { dailyCookTimes, sessionCookTimes, totalCookTime } from '@/lib/cookTime'
+
+const STEW = { id: 'stew', steps: [{ order: 1, text: 'Simmer', time_s: 5400 }] }
+const CURRY = { id: 'curry', steps: [{ order: 1, text: 'Cook', time_s: 1800 }] }
+
+// Prep on Wednesday and Sunday: Monday and Tuesday eat from the Sunday before
+const PREP_DAYS = [2, 6]
+const MEALS = [
+  { day: 0, recipe: STEW },
+  { day: 1, recipe: STEW },
+  { day: 2, recipe: CURRY },
+  { day: 4, recipe: CURRY },
+  { day: 6, recipe: STEW },
+]
+
+describe('sessionCookTimes', () => {
+  it('counts each recipe once per session', () => {
+    assert.deepEqual(Object.fromEntries(sessionCookTimes(MEALS, PREP_DAYS)), {
+      '-1': 5400,
+      2: 1800,
+      6: 5400,
+    })
+  })
+
+  it("keeps the session before the week off this week's Sunday", () => {
+    assert.deepEqual(
+      dailyCookTimes(MEALS, PREP_DAYS),
+      [0, 0, 1800, 0, 0, 0, 5400]
+    )
+    assert.equal(totalCookTime(MEALS, PREP_DAYS), 5400 + 1800 + 5400)
+  })
+
+  it('counts a recipe on every day it is cooked without prep days', () => {
+    assert.deepEqual(
+      dailyCookTimes(MEALS, []),
+      [5400, 5400, 1800, 0, 1800, 0, 5400]
+    )
+  })
+})
@@ -0,0 +1,223 @@
+/**
+ * Unit Test Fixtures
+ * A small kitchen of ingredients, recipes and pantry stock the planner tests
+ * share. Everything is plain data, so every run plans the same week.
+ */
+
+import { Database } from '@/lib/types/database'
+import { PantryItem, PlanWeekInput, Recipe } from '@/lib/macroTetris'
+import { UnitPrices } from '@/lib/prices'
+
+type Ingredient = Database['public']['Tables']['ingredients']['Row']
+
+const ALL_DIETS = ['vegetarian', 'vegan', 'pescatarian', 'halal']
+
+function ingredient(
+  id: string,
+  per100g: { kcal: number; protein: number; carbs: number; fat: number },
+  tags: { allergens?: string[]; diets?: string[] } = {}
+): Ingredient {
+  return {
+    id,
+    name: id.replace('-', ' '),
+    unit: 'g',
+    ...per100g,
+    density: null,
+    piece_weight: null,
+    nutrients: {},
+    allergens: tags.allergens ?? [],
+    diets: tags.diets ?? ALL_DIETS,
+  }
+}
+
+export const INGREDIENTS: Record<string, Ingredient> = Object.fromEntries(
+  [
+    ingredient(
+      'chicken',
+      { kcal: 165, protein: 31, carbs: 0, fat: 3.6 },
+      { diets: ['halal'] }
+    ),
+    ingredient(
+      'beef',
+      { kcal: 250, protein: 26, carbs: 0, fat: 15 },
+      { diets: ['halal'] }
+    ),
+    ingredient(
+      'salmon',
+      { kcal: 208, protein: 20, carbs: 0, fat: 13 },
+      { allergens: ['fish'], diets: ['pescatarian', 'halal'] }
+    ),
+    ingredient(
+      'egg',
+      { kcal: 155, protein: 13, carbs: 1.1, fat: 11 },
+      { allergens: ['egg'], diets: ['vegetarian', 'pescatarian', 'halal'] }
+    ),
+    ingredient(
+      'milk',
+      { kcal: 64, protein: 3.4, carbs: 5, fat: 3.6 },
+      { allergens: ['dairy'], diets: ['vegetarian', 'pescatarian', 'halal'] }
+    ),
+    ingredient(
+      'yogurt',
+      { kcal: 59, protein: 10, carbs: 3.6, fat: 0.4 },
+      { allergens: ['dairy'], diets: ['vegetarian', 'pescatarian', 'halal'] }
+    ),
+    ingredient(
+      'tofu',
+      { kcal: 76, protein: 8, carbs: 1.9, fat: 4.8 },
+      {
+        allergens: ['soy'],
+      }
+    ),
+    ingredient('rice', { kcal: 130, protein: 2.7, carbs: 28, fat: 0.3 }),
+    ingredient('oats', { kcal: 389, protein: 17, carbs: 66, fat: 7 }),
+    ingredient(
+      'pasta',
+      { kcal: 131, protein: 5, carbs: 25, fat: 1.1 },
+      {
+        allergens: ['gluten'],
+      }
+    ),
+    ingredient(
+      'bread',
+      { kcal: 265, protein: 9, carbs: 49, fat: 3.2 },
+      {
+        allergens: ['gluten'],
+      }
+    ),
+    ingredient('banana', { kcal: 89, protein: 1.1, carbs: 23, fat: 0.3 }),
+    ingredient('broccoli', { kcal: 34, protein: 2.8, carbs: 7, fat: 0.4 }),
+    ingredient('olive-oil', { kcal: 884, protein: 0, carbs: 0, fat: 100 }),
+    ingredient(
+      'peanut-butter',
+      { kcal: 588, protein: 25, carbs: 20, fat: 50 },
+      { allergens: ['peanuts'] }
+    ),
+  ].map((entry) => [entry.id, entry])
+)
+
+function recipe(
+  id: string,
+  mealTypes: string[],
+  grams: Record<string, number>,
+  cookMinutes: number
+): Recipe {
+  return {
+    id,
+    name: id.replace(/-/g, ' '),
+    steps: [{ order: 1, text: 'Cook', time_s: cookMinutes * 60 }],
+    skill_level: 'beginner',
+    default_servings: 1,
+    meal_types: mealTypes,
+    fridge_days: 4,
+    freezer_friendly: false,
+    recipe_ingredients: Object.entries(grams).map(
+      ([ingredientId, quantity]) => ({
+        recipe_id: id,
+        ingredient_id: ingredientId,
+        quantity,
+        unit: 'g',
+        flex_pct: 20,
+        ingredients: INGREDIENTS[ingredientId],
+      })
+    ),
+  }
+}
+
+export const RECIPES: Recipe[] = [
+  recipe(
+    'banana-oats',
+    ['breakfast'],
+    { oats: 80, banana: 100, milk: 200 },
+    10
+  ),
+  recipe('egg-toast', ['breakfast', 'snack'], { egg: 120, bread: 80 }, 10),
+  recipe(
+    'yogurt-bowl',
+    ['breakfast', 'snack'],
+    { yogurt: 250, oats: 40, banana: 60 },
+    5
+  ),
+  recipe(
+    'chicken-rice',
+    ['lunch', 'dinner'],
+    { chicken: 180, rice: 200, broccoli: 100, 'olive-oil': 10 },
+    30
+  ),
+  recipe(
+    'salmon-rice',
+    ['lunch', 'dinner'],
+    { salmon: 150, rice: 180, broccoli: 100 },
+    25
+  ),
+  recipe(
+    'tofu-stir-fry',
+    ['lunch', 'dinner'],
+    { tofu: 250, rice: 180, broccoli: 150, 'olive-oil': 10 },
+    20
+  ),
+  recipe(
+    'beef-pasta',
+    ['lunch', 'dinner'],
+    { beef: 150, pasta: 200, 'olive-oil': 10 },
+    35
+  ),
+  recipe(
+    'chicken-pasta',
+    ['dinner', 'lunch'],
+    { chicken: 150, pasta: 200, broccoli: 80 },
+    30
+  ),
+  recipe(
+    'peanut-toast',
+    ['snack', 'breakfast'],
+    { bread: 60, 'peanut-butter': 30, banana: 100 },
+    5
+  ),
+  recipe('yogurt-peanut', ['snack'], { yogurt: 200, 'peanut-butter': 20 }, 5),
+]
+
+/**
+ * Pantry stock of every ingredient, `grams` of each
+ */
+export function stockedPantry(grams: number): PantryItem[] {
+  return Object.values(INGREDIENTS).map((entry) => ({
+    user_id: 'user',
+    ingredient_id: entry.id,
+    quantity: grams,
+    unit: 'g',
+    expires_on: null,
+    ingredients: entry,
+  }))
+}
+
+/**
+ * The same price per gram for every ingredient
+ */
+export function flatPrices(perGram: number): UnitPrices {
+  return Object.fromEntries(
+    Object.keys(INGREDIENTS).map((ingredientId) => [ingredientId, perGram])
+  )
+}
+
+export const DAILY_TARGETS = {
+  calories: 2200,
+  protein: 160,
+  carbs: 230,
+  fat: 70,
+}
+
+/**
+ * A week with a well stocked pantry, planned with a fixed seed
+ */
+export function weekInput(
+  overrides: Partial<PlanWeekInput> = {}
+): PlanWeekInput {
+  return {
+    dailyTargets: DAILY_TARGETS,
+    pantryItems: stockedPantry(3000),
+    recipes: RECIPES,
+    seed: 42,
+    ...overrides,
+  }
+}
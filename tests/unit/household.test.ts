@@ -0,0 +1,95 @@
+/**
+ * Household Tests
+ * How much of a shared meal each member gets
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  cookedServings,
+  exactPortion,
+  fitPortion,
+  HouseholdMember,
+  sharedPortions,
+} from '@/lib/household'
+import { SERVING_STEP } from '@/lib/servings'
+
+const PER_SERVING = { calories: 600, protein: 40, carbs: 60, fat: 20 }
+
+describe('fitPortion', () => {
+  it('gives the servings that meet a target in step with the meal', () => {
+    const target = { calories: 1200, protein: 80, carbs: 120, fat: 40 }
+
+    assert.equal(exactPortion(PER_SERVING, target), 2)
+    assert.equal(fitPortion(PER_SERVING, target), 2)
+  })
+
+  it('rounds to the nearest serving step', () => {
+    const target = { calories: 800, protein: 60, carbs: 70, fat: 25 }
+    const exact = exactPortion(PER_SERVING, target)
+
+    assert.equal(fitPortion(PER_SERVING, target) % SERVING_STEP, 0)
+    assert.ok(
+      Math.abs(fitPortion(PER_SERVING, target) - exact) <= SERVING_STEP / 2
+    )
+  })
+
+  it('grows in proportion to the target', () => {
+    const target = { calories: 700, protein: 30, carbs: 90, fat: 25 }
+    const double = { calories: 1400, protein: 60, carbs: 180, fat: 50 }
+
+    assert.ok(
+      Math.abs(
+        exactPortion(PER_SERVING, double) -
+          2 * exactPortion(PER_SERVING, target)
+      ) < 1e-9
+    )
+  })
+
+  it('never gives less than one serving step', () => {
+    const tiny = { calories: 10, protein: 1, carbs: 1, fat: 0 }
+    const none = { calories: 0, protein: 0, carbs: 0, fat: 0 }
+
+    assert.equal(fitPortion(PER_SERVING, tiny), SERVING_STEP)
+    assert.equal(fitPortion(PER_SERVING, none), SERVING_STEP)
+  })
+})
+
+describe('sharedPortions', () => {
+  it('gives members who share the slot the same share of their day', () => {
+    const household: HouseholdMember[] = [
+      {
+        id: 'partner',
+        name: 'Partner',
+        dailyTargets: { calories: 2400, protein: 160, carbs: 240, fat: 80 },
+        sharedSlots: ['dinner'],
+      },
+      {
+        id: 'kid',
+        name: 'Kid',
+        dailyTargets: { calories: 1400, protein: 50, carbs: 190, fat: 50 },
+        sharedSlots: ['lunch'],
+      },
+    ]
+    const dayTarget = { calories: 1200, protein: 80, carbs: 120, fat: 40 }
+
+    // Half the user's day, so half the partner's: 1200 kcal, two servings
+    assert.deepEqual(
+      sharedPortions(PER_SERVING, 1, 'dinner', dayTarget, household),
+      [{ memberId: 'partner', servings: 2 }]
+    )
+  })
+})
+
+describe('cookedServings', () => {
+  it("adds every member's portion to the user's servings", () => {
+    assert.equal(cookedServings({ servings: 1.5 }), 1.5)
+    assert.equal(
+      cookedServings({
+        servings: 1.5,
+        meal_portions: [{ servings: 1 }, { servings: 0.75 }],
+      }),
+      3.25
+    )
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Scoring Tests
+ * scorePlan on a hand-made week of one meal a day
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  mealNutrition,
+  roundMacros,
+  ScoredMeal,
+  scorePlan,
+} from '@/lib/nutrition'
+import { INGREDIENTS, RECIPES } from './fixtures'
+
+const EGG_TOAST = RECIPES.find((recipe) => recipe.id === 'egg-toast') ?? null
+
+// Egg toast every day: 120 g egg and 80 g bread a serving
+function week(portions: Array<{ servings: number }> = []): ScoredMeal[] {
+  return Array.from({ length: 7 }, (_, day) => ({
+    day_of_week: day,
+    servings: 1,
+    recipe_id: 'egg-toast',
+    meal_portions: portions,
+    recipes: EGG_TOAST,
+  }))
+}
+
+// Days are scored in whole grams and kcal
+const DAY_TARGETS = week().map(mealNutrition).map(roundMacros)
+
+const PANTRY = [
+  {
+    ingredient_id: 'egg',
+    quantity: 7 * 120,
+    unit: 'g',
+    ingredients: INGREDIENTS.egg,
+  },
+]
+
+describe('scorePlan', () => {
+  it('scores a week on target as fully accurate', () => {
+    const score = scorePlan(week(), {
+      dailyTargets: DAY_TARGETS[0],
+      dayTargets: DAY_TARGETS,
+    })
+
+    assert.equal(score.macroAccuracy, 100)
+    assert.deepEqual(score.deviation, {
+      calories: 0,
+      protein: 0,
+      carbs: 0,
+      fat: 0,
+    })
+    assert.deepEqual(score.variety, { meals: 7, recipes: 1, score: 14 })
+  })
+
+  it('scores each day against its own target', () => {
+    const doubled = DAY_TARGETS.map((target, day) =>
+      day === 0
+        ? {
+            calories: target.calories * 2,
+            protein: target.protein * 2,
+            carbs: target.carbs * 2,
+            fat: target.fat * 2,
+          }
+        : target
+    )
+    const score = scorePlan(week(), {
+      dailyTargets: DAY_TARGETS[0],
+      dayTargets: doubled,
+    })
+
+    assert.equal(score.days[0].accuracy.calories, 50)
+    assert.equal(score.days[1].accuracy.calories, 100)
+    assert.equal(score.accuracy.calories, Math.round((50 + 6 * 100) / 7))
+  })
+
+  it('counts what has to be bought and how much of the pantry is used', () => {
+    const score = scorePlan(week(), {
+      dailyTargets: DAY_TARGETS[0],
+      pantryItems: PANTRY,
+      unitPrices: { bread: 0.01 },
+    })
+
+    assert.equal(score.pantryUse, 100)
+    assert.equal(score.cost.toBuy, 5.6)
+  })
+
+  it("shops for the household's portions too", () => {
+    const score = scorePlan(week([{ servings: 1 }]), {
+      dailyTargets: DAY_TARGETS[0],
+      pantryItems: PANTRY,
+      unitPrices: { egg: 0.01, bread: 0.01 },
+    })
+
+    // Twice the eggs and bread: 840 g of egg left to buy, 1120 g of bread
+    assert.equal(score.cost.toBuy, 19.6)
+  })
+})
@@ -0,0 +1,314 @@
+/**
+ * Planner Tests
+ * planWeek and replanDay on the fixture kitchen: the same input always gives
+ * the same plan, and the hard limits (locked meals, budget, cooking time,
+ * allergies and diets) hold.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { HouseholdMember } from '@/lib/household'
+import {
+  PantryItem,
+  planAlternatives,
+  planWeek,
+  ProposedMeal,
+  replanDay,
+} from '@/lib/macroTetris'
+import { UnitPrices } from '@/lib/prices'
+import {
+  DAILY_TARGETS,
+  flatPrices,
+  RECIPES,
+  stockedPantry,
+  weekInput,
+} from './fixtures'
+
+const HOUSEHOLD: HouseholdMember[] = [
+  {
+    id: 'partner',
+    name: 'Partner',
+    dailyTargets: { calories: 2600, protein: 130, carbs: 300, fat: 90 },
+    sharedSlots: ['breakfast', 'dinner'],
+  },
+  {
+    id: 'kid',
+    name: 'Kid',
+    dailyTargets: { calories: 1400, protein: 50, carbs: 190, fat: 50 },
+    sharedSlots: ['lunch', 'dinner'],
+  },
+]
+
+/**
+ * What buying everything the meals cook beyond the pantry costs, worked out
+ * from the meals themselves rather than the plan's own figure
+ */
+function costToBuy(
+  meals: ProposedMeal[],
+  pantryItems: PantryItem[],
+  unitPrices: UnitPrices
+): number {
+  const needed = new Map<string, number>()
+  meals.forEach((meal) => {
+    const recipe = RECIPES.find((r) => r.id === meal.recipeId)
+    const cooked = meal.portions.reduce(
+      (total, portion) => total + portion.servings,
+      meal.servings
+    )
+    recipe?.recipe_ingredients.forEach((ingredient) => {
+      const perServing =
+        meal.ingredientOverrides.find(
+          (override) => override.ingredientId === ingredient.ingredient_id
+        )?.quantity ?? ingredient.quantity
+      needed.set(
+        ingredient.ingredient_id,
+        (needed.get(ingredient.ingredient_id) ?? 0) + perServing * cooked
+      )
+    })
+  })
+
+  let cost = 0
+  needed.forEach((amount, ingredientId) => {
+    const stock =
+      pantryItems.find((item) => item.ingredient_id === ingredientId)
+        ?.quantity ?? 0
+    cost += (unitPrices[ingredientId] ?? 0) * Math.max(0, amount - stock)
+  })
+  return cost
+}
+
+describe('planWeek', () => {
+  it('plans the same week for the same seed', () => {
+    const first = planWeek(weekInput())
+    const second = planWeek(weekInput())
+
+    assert.equal(first.strategy, 'optimal')
+    assert.ok(first.meals.length > 0)
+    assert.deepEqual(second, first)
+  })
+
+  it("aims the greedy chain at each day's own targets", () => {
+    const rest = { calories: 1600, protein: 60, carbs: 200, fat: 60 }
+    const dayTargets = [rest, ...Array(6).fill(DAILY_TARGETS)]
+    const plan = planWeek(weekInput({ strategy: 'greedy', dayTargets }))
+
+    const restDay = plan.trace.picked.filter((pick) => pick.day === 0)
+    assert.ok(restDay.length > 0)
+    assert.deepEqual(restDay[0].gap, rest)
+    plan.trace.picked.forEach((pick) => {
+      assert.ok(pick.gap)
+      assert.ok(pick.gap.protein <= dayTargets[pick.day].protein)
+    })
+  })
+
+  it('keeps locked meals where they are', () => {
+    const lockedMeals = [
+      { recipeId: 'beef-pasta', servings: 1.5, day: 2, slot: 'dinner' },
+      { recipeId: 'egg-toast', servings: 1, day: 5, slot: 'breakfast' },
+    ]
+    const plan = planWeek(weekInput({ lockedMeals }))
+
+    lockedMeals.forEach((locked) => {
+      const inSlot = plan.meals.filter(
+        (meal) => meal.day === locked.day && meal.slot === locked.slot
+      )
+      assert.equal(inSlot.length, 1)
+      assert.equal(inSlot[0].recipeId, locked.recipeId)
+      assert.equal(inSlot[0].servings, locked.servings)
+      assert.equal(inSlot[0].locked, true)
+    })
+  })
+
+  it("keeps a locked meal's stored portions", () => {
+    const portions = [
+      { memberId: 'partner', servings: 3 },
+      { memberId: 'kid', servings: 0.5 },
+    ]
+    const plan = planWeek(
+      weekInput({
+        household: HOUSEHOLD,
+        lockedMeals: [
+          {
+            recipeId: 'beef-pasta',
+            servings: 1,
+            day: 2,
+            slot: 'dinner',
+            portions,
+          },
+        ],
+      })
+    )
+
+    const locked = plan.meals.find((meal) => meal.locked)
+    assert.ok(locked)
+    assert.deepEqual(locked.portions, portions)
+  })
+
+  it('reports locked meals that break allergies or diets', () => {
+    const plan = planWeek(
+      weekInput({
+        lockedMeals: [
+          { recipeId: 'peanut-toast', servings: 1, day: 1, slot: 'breakfast' },
+        ],
+        exclusions: { allergens: ['peanuts'], diets: [] },
+      })
+    )
+
+    assert.ok(!plan.meals.some((meal) => meal.recipeId === 'peanut-toast'))
+    const dropped = plan.trace.rejected.find(
+      (rejection) => rejection.day !== undefined
+    )
+    assert.ok(dropped)
+    assert.equal(dropped.recipeId, 'peanut-toast')
+    assert.equal(dropped.reason, 'diet')
+    assert.equal(dropped.day, 1)
+    assert.equal(dropped.slot, 'breakfast')
+  })
+
+  it('stays within the budget, household portions included', () => {
+    const pantryItems = stockedPantry(300)
+    const unitPrices = flatPrices(0.01)
+
+    for (const household of [[], HOUSEHOLD]) {
+      const plan = planWeek(
+        weekInput({ pantryItems, unitPrices, weeklyBudget: 20, household })
+      )
+
+      assert.ok(plan.meals.length > 0)
+      assert.ok(plan.shoppingCost <= 20)
+      assert.ok(costToBuy(plan.meals, pantryItems, unitPrices) <= 20 + 1e-6)
+    }
+  })
+
+  it('buys nothing without a budget, household portions included', () => {
+    const pantryItems = stockedPantry(300)
+    const plan = planWeek(
+      weekInput({
+        pantryItems,
+        unitPrices: flatPrices(0.01),
+        household: HOUSEHOLD,
+      })
+    )
+
+    assert.ok(plan.meals.length > 0)
+    assert.equal(costToBuy(plan.meals, pantryItems, flatPrices(0.01)), 0)
+  })
+
+  it('spreads a budget too small for the week over every day', () => {
+    // 5 buys less than one meal a day
+    for (const weeklyBudget of [5, 15]) {
+      const plan = planWeek(
+        weekInput({
+          pantryItems: [],
+          unitPrices: flatPrices(0.01),
+          weeklyBudget,
+        })
+      )
+
+      assert.ok(plan.shoppingCost <= weeklyBudget)
+      plan.dailyBreakdown.forEach((day) => {
+        assert.ok(
+          day.actual.calories > 0,
+          `nothing planned on day ${day.day} with ${weeklyBudget}`
+        )
+      })
+    }
+  })
+
+  it('keeps each day within its cooking time limit', () => {
+    const cookTimeLimits = [20, 20, 30, 30, null, 45, 60]
+    const plan = planWeek(weekInput({ cookTimeLimits }))
+
+    assert.ok(plan.meals.length > 0)
+    plan.dailyBreakdown.forEach((day) => {
+      const limit = cookTimeLimits[day.day]
+      if (limit === null) return
+      assert.ok(day.cookTime <= limit * 60, `day ${day.day} cooks too long`)
+    })
+  })
+
+  it('never plans recipes that break allergies or diets', () => {
+    const plan = planWeek(
+      weekInput({
+        exclusions: { allergens: ['peanuts', 'gluten'], diets: ['vegetarian'] },
+      })
+    )
+
+    assert.ok(plan.meals.length > 0)
+    plan.meals.forEach((meal) => {
+      const recipe = RECIPES.find((r) => r.id === meal.recipeId)
+      recipe?.recipe_ingredients.forEach(({ ingredients }) => {
+        assert.ok(!ingredients.allergens.includes('peanuts'), meal.recipeId)
+        assert.ok(!ingredients.allergens.includes('gluten'), meal.recipeId)
+        assert.ok(ingredients.diets.includes('vegetarian'), meal.recipeId)
+      })
+    })
+  })
+})
+
+describe('planAlternatives', () => {
+  it('offers nothing more accurate than the plan for accuracy', () => {
+    const alternatives = planAlternatives(
+      weekInput({
+        pantryItems: stockedPantry(500),
+        unitPrices: flatPrices(0.01),
+        weeklyBudget: 50,
+      })
+    )
+    const accurate = alternatives.find((alternative) =>
+      alternative.objectives.includes('accuracy')
+    )
+
+    assert.ok(accurate)
+    alternatives.forEach(({ objectives, proposal }) => {
+      assert.ok(
+        proposal.score.macroAccuracy <= accurate.proposal.score.macroAccuracy,
+        `${objectives.join(', ')} is more accurate`
+      )
+    })
+  })
+})
+
+describe('replanDay', () => {
+  const week = planWeek(weekInput())
+  const lunch = week.meals.find(
+    (meal) => meal.day === 3 && meal.slot === 'lunch'
+  )
+  const lockedMeals = week.meals
+    .filter((meal) => meal !== lunch)
+    .map(({ recipeId, servings, day, slot }) => ({
+      recipeId,
+      servings,
+      day,
+      slot,
+    }))
+
+  it('offers different meals for just the slot being replaced', () => {
+    assert.ok(lunch)
+    const alternatives = replanDay({
+      ...weekInput({ lockedMeals }),
+      day: 3,
+      slot: 'lunch',
+      excludeRecipes: [lunch.recipeId],
+    })
+
+    assert.ok(alternatives.length > 0)
+    alternatives.forEach((alternative) => {
+      assert.ok(alternative.meals.length > 0)
+      alternative.meals.forEach((meal) => {
+        assert.equal(meal.day, 3)
+        assert.equal(meal.slot, 'lunch')
+        assert.notEqual(meal.recipeId, lunch.recipeId)
+      })
+    })
+    const offered = alternatives.map((alternative) =>
+      JSON.stringify(alternative.meals.map((meal) => meal.recipeId))
+    )
+    assert.equal(new Set(offered).size, offered.length)
+  })
+
+  it('offers the same alternatives for the same seed', () => {
+    const input = { ...weekInput({ lockedMeals }), day: 3, slot: 'lunch' }
+    assert.deepEqual(replanDay(input), replanDay(input))
+  })
+})
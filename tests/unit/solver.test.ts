@@ -0,0 +1,117 @@
+/**
+ * Solver Tests
+ * solveAllocation on problems small enough to check by hand
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AllocationItem, solveAllocation } from '@/lib/planner/solver'
+
+const TARGET = { calories: 2000, protein: 150, carbs: 200, fat: 60 }
+
+// Three meals that add up to the target exactly, one unit each
+const ITEMS: AllocationItem[] = [
+  {
+    id: 'breakfast',
+    macros: { calories: 500, protein: 30, carbs: 60, fat: 15 },
+    maxUnits: 3,
+    resources: { oats: 80 },
+    groups: ['slot:breakfast'],
+  },
+  {
+    id: 'lunch',
+    macros: { calories: 700, protein: 60, carbs: 70, fat: 20 },
+    maxUnits: 3,
+    resources: { rice: 200 },
+    groups: ['slot:lunch'],
+  },
+  {
+    id: 'dinner',
+    macros: { calories: 800, protein: 60, carbs: 70, fat: 25 },
+    maxUnits: 3,
+    resources: { rice: 150 },
+    fixedResources: { cookTime: 1800 },
+    groups: ['slot:dinner'],
+  },
+]
+
+describe('solveAllocation', () => {
+  it('finds the allocation that hits the target and proves it', () => {
+    const solution = solveAllocation({ items: ITEMS, target: TARGET })
+
+    assert.deepEqual(solution.units, [1, 1, 1])
+    assert.deepEqual(solution.totals, TARGET)
+    assert.equal(solution.deviation, 0)
+    assert.equal(solution.optimal, true)
+    assert.ok(solution.nodesExplored > 0)
+  })
+
+  it('uses at most one item of each group', () => {
+    const solution = solveAllocation({
+      items: ITEMS.map((item) => ({ ...item, groups: ['slot:any'] })),
+      target: TARGET,
+    })
+
+    assert.equal(solution.units.filter((units) => units > 0).length, 1)
+  })
+
+  it('keeps within resource limits, fixed resources included', () => {
+    const solution = solveAllocation({
+      items: ITEMS,
+      target: TARGET,
+      resourceLimits: { rice: 300, cookTime: 1200 },
+    })
+
+    assert.equal(solution.units[2], 0)
+    assert.ok(solution.units[1] * 200 <= 300)
+  })
+
+  it('buys priced resources only within the budget', () => {
+    const problem = {
+      items: ITEMS,
+      target: TARGET,
+      resourceLimits: { oats: 0, rice: 0 },
+      resourcePrices: { oats: 0.01, rice: 0.01 },
+    }
+
+    assert.deepEqual(solveAllocation(problem).units, [0, 0, 0])
+
+    const solution = solveAllocation({ ...problem, budget: 3 })
+    assert.ok(solution.cost <= 3)
+    assert.equal(
+      solution.cost,
+      0.01 *
+        (solution.units[0] * 80 +
+          solution.units[1] * 200 +
+          solution.units[2] * 150)
+    )
+  })
+
+  it('buys priced fixed resources within the budget', () => {
+    const items: AllocationItem[] = [
+      { ...ITEMS[2], fixedResources: { rice: 500 } },
+    ]
+    const problem = {
+      items,
+      target: TARGET,
+      resourceLimits: { rice: 0 },
+      resourcePrices: { rice: 0.01 },
+    }
+
+    assert.deepEqual(solveAllocation({ ...problem, budget: 6 }).units, [0])
+    const solution = solveAllocation({ ...problem, budget: 8 })
+    assert.deepEqual(solution.units, [2])
+    assert.equal(solution.cost, 0.01 * (500 + 2 * 150))
+  })
+
+  it('reports a search cut short by the node limit', () => {
+    const solution = solveAllocation({
+      items: ITEMS,
+      target: TARGET,
+      nodeLimit: 2,
+    })
+
+    assert.equal(solution.optimal, false)
+    assert.ok(solution.nodesExplored > 2)
+  })
+})